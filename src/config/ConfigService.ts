@@ -1,11 +1,33 @@
 import { GAME_BALANCE, GameBalanceConfig, WeaponUpgradeConfig } from '@/config';
+import { ArenaDefinition, ARENAS, ArenaType } from '@/domain/arena';
 import { singleton } from 'tsyringe';
 import { CanvasBounds } from '../utils/random';
 
 @singleton()
 export class ConfigService {
+  private arenaType: ArenaType = ArenaType.CLASSIC;
+
+  /**
+   * Size of the current arena
+   */
   public getCanvasBounds(): CanvasBounds {
-    return { width: 900, height: 700 };
+    const { width, height } = this.getArena();
+    return { width, height };
+  }
+
+  public getArenaType(): ArenaType {
+    return this.arenaType;
+  }
+
+  public getArena(): ArenaDefinition {
+    return ARENAS[this.arenaType];
+  }
+
+  /**
+   * Switch arena (new run) - systems caching its size re-read it when the run starts
+   */
+  public setArena(type: ArenaType): void {
+    this.arenaType = type;
   }
 
   public getGameBalance(): GameBalanceConfig {
@@ -8,60 +8,42 @@
 
 export const GAME_BALANCE = {
   /**
-   * Boss scaling parameters.
-   * Bosses appear every 3rd wave (3, 6, 9, ...) and get stronger with each appearance.
-   *
-   * Example: On wave 9 (3rd boss), with default values:
-   * - HP: base × (1 + (3-1) × 0.5) × 1.04^2 = base × 2.16
-   * - DMG: base × (1 + (3-1) × 0.25) × 1.04^2 = base × 1.62
+   * Boss combat parameters.
+   * Spawn schedule and per-wave scaling live in the wave table (waves.config.ts).
    */
   boss: {
-    /** HP increase per boss wave. 0.5 = +50% HP for 2nd boss, +100% for 3rd, etc. */
-    hpScalePerWave: 0.5,
-    /** Damage increase per boss wave. 0.25 = +25% DMG per boss appearance. */
-    dmgScalePerWave: 0.25,
-    /** Exponential scaling base. Applied as Math.pow(base, bossWave-1) from wave 3. */
-    exponentialBase: 1.04,
     /** Contact damage multiplier. Boss melee hits deal base damage × this value. */
     contactDamageMultiplier: 1.25,
     /** Knockback resistance. Lower = harder to push. Normal enemies use 3. */
     knockbackResistance: 1,
+    /** Freeze, stun and root duration multiplier. 0.3 = crowd control lasts 30% as long on bosses. */
+    crowdControlMultiplier: 0.3,
   },
 
   /**
-   * Regular enemy scaling.
-   * Enemies get progressively stronger as waves increase.
-   *
-   * Example: On wave 10, with default values:
-   * - Stats: base × 1.04^(10-5) = base × 1.22 (+22% HP and damage)
+   * Regular enemy combat parameters.
+   * Per-wave stat scaling lives in the wave table (waves.config.ts).
    */
   enemy: {
-    /** Wave number when scaling begins. Before this, enemies have base stats. */
-    scalingStartWave: 5,
-    /** Per-wave multiplier. Applied as Math.pow(factor, wave - startWave). */
-    scalingFactor: 1.04,
     /** Knockback multiplier for normal enemies. Higher = easier to push back. */
     knockbackMultiplier: 3,
   },
 
   /**
-   * Wave timing and spawn configuration.
-   * Controls how long waves last and how quickly enemies appear.
+   * Enemy merging.
+   * Tight clusters of same-type enemies fuse into one stronger enemy (see MergeSystem).
    */
-  wave: {
-    /** Milliseconds between enemy spawn ticks. Lower = more frequent spawns. */
-    spawnInterval: 1200,
-    /** Number of enemies spawned per tick. */
-    enemiesPerSpawn: 2,
-    /** Wave duration in seconds by game phase. */
-    duration: {
-      /** Waves 1-2: shorter for early game warmup. */
-      early: 25,
-      /** Waves 3-4: medium length as difficulty ramps. */
-      mid: 35,
-      /** Waves 5+: full length waves for sustained challenge. */
-      late: 40,
-    },
+  merge: {
+    /** Overlapping same-type enemies (including the one checked) needed to fuse. */
+    clusterSize: 5,
+    /** Gap still counted as touching (px) - separation keeps pressed enemies edge to edge. */
+    touchMargin: 2,
+    /** Time between cluster checks (milliseconds). A cluster must show up in two checks in a row. */
+    checkInterval: 1000,
+    /** Enemies one merged enemy can contain at most. */
+    maxMembers: 15,
+    /** Share of an absorbed enemy's damage added to the merged one. 0.5 = +50% of its damage. */
+    damageShare: 0.5,
   },
 
   /**
@@ -131,6 +113,8 @@ export const GAME_BALANCE = {
       attackSpeedPerLevel: 1.1,
       /** Explosion radius multiplier per level. 1.15 = +15% larger explosions per level. */
       explosionPerLevel: 1.15,
+      /** Highest weapon level. A capped weapon can evolve (see WEAPON_EVOLUTIONS). */
+      maxLevel: 5,
     },
   },
 
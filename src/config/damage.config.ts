@@ -0,0 +1,20 @@
+/**
+ * Damage type labels for tooltips and hit feedback.
+ * Resistances live with the enemies (ENEMY_TYPES.damageModifiers).
+ */
+
+import { DamageType } from '@/types/enums';
+
+export interface DamageTypeConfig {
+  name: string;
+  emoji: string;
+  color: string;
+}
+
+export const DAMAGE_TYPES: Record<DamageType, DamageTypeConfig> = {
+  [DamageType.PHYSICAL]: { name: 'Fizyczne', emoji: '🗡️', color: '#dddddd' },
+  [DamageType.EXPLOSIVE]: { name: 'Wybuchowe', emoji: '💥', color: '#ff8800' },
+  [DamageType.FIRE]: { name: 'Ogień', emoji: '🔥', color: '#ff4400' },
+  [DamageType.HOLY]: { name: 'Święte', emoji: '✨', color: '#ffd700' },
+  [DamageType.POISON]: { name: 'Trucizna', emoji: '☠️', color: '#66ff33' },
+};
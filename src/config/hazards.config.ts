@@ -0,0 +1,71 @@
+/**
+ * Environmental hazard definitions.
+ * Hazards are scheduled by the wave set (waves.config.ts, WaveSet.hazards) and
+ * hurt everything standing in them - enemies lured in take extra damage.
+ */
+
+import { OnHitEffect, StatusEffectType } from '@/domain/status/type';
+import { DamageType, HazardType } from '@/types/enums';
+
+export interface HazardConfig {
+  name: string;
+  radius: number;
+  /** Seconds of harmless ground telegraph before the hazard activates */
+  warningTime: number;
+  /** Seconds active after the telegraph (0 = single strike when it ends) */
+  duration: number;
+  /** Seconds between damage ticks while active */
+  tickInterval: number;
+  /** Damage per tick before wave scaling */
+  damage: number;
+  damageType: DamageType;
+  /** Status rolled on everything a tick hits */
+  onHitEffects?: OnHitEffect[];
+  color: string;
+}
+
+export const HAZARDS: Record<HazardType, HazardConfig> = {
+  [HazardType.LAVA]: {
+    name: 'Lawa',
+    radius: 55,
+    warningTime: 1,
+    duration: 8,
+    tickInterval: 0.5,
+    damage: 4,
+    damageType: DamageType.FIRE,
+    onHitEffects: [{ type: StatusEffectType.BURN, chance: 0.3 }],
+    color: '#ff5a00',
+  },
+  [HazardType.ACID]: {
+    name: 'Kwas',
+    radius: 60,
+    warningTime: 1,
+    duration: 10,
+    tickInterval: 0.5,
+    damage: 3,
+    damageType: DamageType.POISON,
+    onHitEffects: [{ type: StatusEffectType.POISON, chance: 0.4 }],
+    color: '#7fff00',
+  },
+  [HazardType.ELECTRIC]: {
+    name: 'Pole elektryczne',
+    radius: 70,
+    warningTime: 1,
+    duration: 7.5,
+    tickInterval: 1.5,
+    damage: 10,
+    damageType: DamageType.PHYSICAL,
+    onHitEffects: [{ type: StatusEffectType.STUN, chance: 0.25, duration: 0.5 }],
+    color: '#66ccff',
+  },
+  [HazardType.METEOR]: {
+    name: 'Meteor',
+    radius: 75,
+    warningTime: 1.5,
+    duration: 0,
+    tickInterval: 0,
+    damage: 25,
+    damageType: DamageType.FIRE,
+    color: '#ff3300',
+  },
+};
@@ -1,4 +1,8 @@
 export * from './ConfigService';
 export * from './balance.config';
 export * from './characters.config';
+export * from './damage.config';
+export * from './hazards.config';
 export * from './shop.config';
+export * from './waveEvents.config';
+export * from './waves.config';
@@ -3,6 +3,7 @@
  * Includes weapons, items, and legendary items available in the shop.
  */
 
+import { OnHitEffect, StatusEffectType } from '@/domain/status/type';
 import { WeaponType } from '@/domain/weapons/type';
 
 /**
@@ -63,6 +64,8 @@ export interface WeaponShopItem extends BaseShopItem {
 export interface StatShopItem extends BaseShopItem {
   type: 'item';
   effect: ItemEffect;
+  /** Status effects rolled on every projectile hit */
+  onHitEffects?: OnHitEffect[];
 }
 
 export type ShopItem = WeaponShopItem | StatShopItem;
@@ -193,6 +196,32 @@ export const SHOP_ITEMS: Record<string, ShopItem> = {
     price: 280,
     emoji: '🏹',
   },
+  turret: {
+    type: 'weapon',
+    weaponType: WeaponType.TURRET,
+    name: 'Wieżyczka',
+    description: 'Stawia wieżyczkę, która sama strzela',
+    price: 160,
+    emoji: '🗼',
+    minWave: 3,
+  },
+  trap: {
+    type: 'weapon',
+    weaponType: WeaponType.TRAP,
+    name: 'Sidła',
+    description: 'Unieruchamiają wrogów, którzy w nie wejdą',
+    price: 90,
+    emoji: '🪤',
+  },
+  lure: {
+    type: 'weapon',
+    weaponType: WeaponType.LURE,
+    name: 'Przynęta',
+    description: 'Odciąga wrogów, dopóki jej nie zniszczą',
+    price: 110,
+    emoji: '🍖',
+    minWave: 2,
+  },
 
   // ============ ITEMS - DEFENSIVE ============
   ironArmor: {
@@ -306,6 +335,39 @@ export const SHOP_ITEMS: Record<string, ShopItem> = {
   //   effect: { pierce: 2 },
   // },
 
+  // ============ ITEMS - STATUS EFFECTS ============
+  incendiaryRounds: {
+    type: 'item',
+    name: 'Amunicja Zapalająca',
+    description: '10% szansy na podpalenie przy trafieniu',
+    price: 90,
+    emoji: '🔥',
+    effect: {},
+    onHitEffects: [{ type: StatusEffectType.BURN, chance: 0.1 }],
+  },
+  venomCoating: {
+    type: 'item',
+    name: 'Jadowita Powłoka',
+    description: '15% szansy na zatrucie przy trafieniu (kumuluje się)',
+    price: 85,
+    emoji: '🧪',
+    effect: {},
+    onHitEffects: [{ type: StatusEffectType.POISON, chance: 0.15 }],
+  },
+  frostRounds: {
+    type: 'item',
+    name: 'Lodowe Pociski',
+    description: '20% szansy na spowolnienie, 3% na zamrożenie',
+    price: 110,
+    emoji: '❄️',
+    effect: {},
+    onHitEffects: [
+      { type: StatusEffectType.SLOW, chance: 0.2 },
+      { type: StatusEffectType.FREEZE, chance: 0.03 },
+    ],
+    minWave: 4,
+  },
+
   // ============ ITEMS - UTILITY ============
   speedBoots: {
     type: 'item',
@@ -0,0 +1,59 @@
+/**
+ * Special wave event definitions.
+ * Events are scheduled per wave in the wave table (waves.config.ts) and can be
+ * forced from the dev menu. Each one is announced before the enemies arrive.
+ */
+
+import { EnemyType, WaveEventType } from '@/types/enums';
+import { EnemyWeight } from './waves.config';
+
+export interface WaveEventConfig {
+  /** On-screen warning */
+  warning: string;
+  /** Seconds between the warning and the spawn */
+  warningTime: number;
+  /** Enemies spawned on wave 0 */
+  count: number;
+  /** Extra enemies per wave number */
+  countPerWave: number;
+  /** Enemy pool - a horde rolls one type for the whole burst, other events roll per enemy */
+  enemies: EnemyWeight[];
+}
+
+export const WAVE_EVENTS: Record<WaveEventType, WaveEventConfig> = {
+  [WaveEventType.HORDE]: {
+    warning: 'HORDA!',
+    warningTime: 2,
+    count: 10,
+    countPerWave: 1,
+    enemies: [
+      { type: EnemyType.SWARM, weight: 40 },
+      { type: EnemyType.FAST, weight: 30 },
+      { type: EnemyType.BASIC, weight: 20 },
+      { type: EnemyType.SPRINTER, weight: 10 },
+    ],
+  },
+  [WaveEventType.PINCER]: {
+    warning: 'KLESZCZE!',
+    warningTime: 2,
+    count: 8,
+    countPerWave: 1,
+    enemies: [
+      { type: EnemyType.BASIC, weight: 40 },
+      { type: EnemyType.FAST, weight: 30 },
+      { type: EnemyType.ZIGZAG, weight: 20 },
+      { type: EnemyType.TANK, weight: 10 },
+    ],
+  },
+  [WaveEventType.ENCIRCLEMENT]: {
+    warning: 'OKRĄŻENIE!',
+    warningTime: 2.5,
+    count: 12,
+    countPerWave: 1.5,
+    enemies: [
+      { type: EnemyType.SWARM, weight: 50 },
+      { type: EnemyType.BASIC, weight: 35 },
+      { type: EnemyType.FAST, weight: 15 },
+    ],
+  },
+};
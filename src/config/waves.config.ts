@@ -0,0 +1,351 @@
+/**
+ * Wave definitions.
+ * Declarative table interpreted by WaveManager - duration, spawn rate, enemy mix,
+ * boss slot and stat scaling of every wave. Rebalance waves here, not in code.
+ *
+ * A wave set is validated when WaveManager starts (see validateWaveSet).
+ */
+
+import { EnemyType, HazardType, WaveEventType } from '@/types/enums';
+
+// ============ Types ============
+
+export interface EnemyWeight {
+  type: EnemyType;
+  /** Relative spawn chance within the wave (weights don't have to sum to 100) */
+  weight: number;
+}
+
+export interface BossSlot {
+  /** Boss enemy type (must have a scripted encounter, see BOSS_SCRIPTS) */
+  type: EnemyType;
+  /** Boss spawns once remaining wave time drops below this value (seconds) */
+  spawnAt: number;
+}
+
+export interface WaveEventSlot {
+  type: WaveEventType;
+  /** Event is announced once remaining wave time drops below this value (seconds) */
+  at: number;
+}
+
+export interface WaveDefinition {
+  /** Wave length in seconds (timer pauses while a boss is alive) */
+  duration: number;
+  /** Milliseconds between spawn ticks */
+  spawnInterval: number;
+  /** Enemies spawned per tick */
+  enemiesPerSpawn: number;
+  /** Weighted enemy pool */
+  enemies: EnemyWeight[];
+  boss?: BossSlot;
+  /** Special events (see waveEvents.config.ts) */
+  events?: WaveEventSlot[];
+}
+
+/**
+ * Stat multipliers applied on spawn, growing with wave number
+ */
+export interface WaveScaling {
+  enemy: {
+    /** Wave number when scaling begins. Before this, enemies have base stats. */
+    startWave: number;
+    /** Per-wave multiplier. Applied as Math.pow(factor, wave - startWave). */
+    factor: number;
+  };
+  boss: {
+    /** HP increase per boss appearance. 0.5 = +50% HP for 2nd boss, +100% for 3rd, etc. */
+    hpPerBoss: number;
+    /** Damage increase per boss appearance. */
+    damagePerBoss: number;
+    /** Exponential base, applied as Math.pow(base, wave - exponentialStartWave). */
+    exponentialBase: number;
+    exponentialStartWave: number;
+  };
+  /** Regular enemies promoted to elites (see domain/enemies/elites) */
+  elite: {
+    /** First wave elites can appear on */
+    startWave: number;
+    /** Elite chance on startWave */
+    chance: number;
+    /** Added to the chance every wave after startWave */
+    chancePerWave: number;
+    maxChance: number;
+    /** Chance an elite rolls a second affix */
+    secondAffixChance: number;
+  };
+}
+
+export interface HazardWeight {
+  type: HazardType;
+  /** Relative chance among the pool */
+  weight: number;
+}
+
+/**
+ * Environmental hazards (see hazards.config.ts) - a timer keeps rolling them during waves.
+ * Hazard damage scales with the wave like enemy stats (scaling.enemy).
+ */
+export interface HazardSchedule {
+  /** First wave hazards appear on */
+  startWave: number;
+  /** Seconds between hazards on startWave */
+  interval: number;
+  /** Interval shrinks by this many seconds every wave after startWave */
+  intervalPerWave: number;
+  minInterval: number;
+  /** Hazards deal this multiple of their damage to enemies - luring them in pays off */
+  enemyDamageMultiplier: number;
+  pool: HazardWeight[];
+}
+
+export interface WaveSet {
+  name: string;
+  /** Waves 1..n in order */
+  waves: WaveDefinition[];
+  /** Waves past the table cycle through the last `loop` definitions */
+  loop: number;
+  scaling: WaveScaling;
+  hazards: HazardSchedule;
+}
+
+// ============ Standard Wave Set ============
+
+/** Bosses arrive with 20 seconds of the wave left */
+const BOSS_SPAWN_AT = 20;
+
+/** Wave 10+: every regular enemy type */
+const FULL_ROSTER: EnemyWeight[] = [
+  { type: EnemyType.BASIC, weight: 8 },
+  { type: EnemyType.FAST, weight: 8 },
+  { type: EnemyType.SWARM, weight: 14 },
+  { type: EnemyType.TANK, weight: 10 },
+  { type: EnemyType.ZIGZAG, weight: 10 },
+  { type: EnemyType.SPRINTER, weight: 10 },
+  { type: EnemyType.EXPLODER, weight: 12 },
+  { type: EnemyType.GHOST, weight: 10 },
+  { type: EnemyType.SPLITTER, weight: 10 },
+  { type: EnemyType.BRUTE, weight: 8 },
+  { type: EnemyType.KITER, weight: 6 },
+  { type: EnemyType.CHARGER, weight: 6 },
+  { type: EnemyType.FLANKER, weight: 8 },
+  { type: EnemyType.HEALER, weight: 3 },
+  { type: EnemyType.SUMMONER, weight: 3 },
+];
+
+/** Steady state from wave 12 on */
+const LATE_WAVE: WaveDefinition = {
+  duration: 40,
+  spawnInterval: 400,
+  enemiesPerSpawn: 4,
+  enemies: FULL_ROSTER,
+};
+
+const LATE_HORDE: WaveDefinition = {
+  ...LATE_WAVE,
+  events: [{ type: WaveEventType.HORDE, at: 25 }],
+};
+
+const LATE_PINCER: WaveDefinition = {
+  ...LATE_WAVE,
+  events: [{ type: WaveEventType.PINCER, at: 25 }],
+};
+
+const LATE_ENCIRCLEMENT: WaveDefinition = {
+  ...LATE_WAVE,
+  events: [{ type: WaveEventType.ENCIRCLEMENT, at: 25 }],
+};
+
+/**
+ * Waves 1-11 introduce one new enemy type each and speed up spawning.
+ * Bosses come every 3rd wave, special events fill most waves in between.
+ * Waves 12-29 hold one full boss rotation and repeat forever.
+ */
+export const STANDARD_WAVE_SET: WaveSet = {
+  name: 'standard',
+  waves: [
+    // Wave 1: only basic
+    {
+      duration: 25,
+      spawnInterval: 950,
+      enemiesPerSpawn: 1,
+      enemies: [{ type: EnemyType.BASIC, weight: 100 }],
+    },
+    // Wave 2: + fast
+    {
+      duration: 25,
+      spawnInterval: 900,
+      enemiesPerSpawn: 1,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 60 },
+        { type: EnemyType.FAST, weight: 40 },
+      ],
+    },
+    // Wave 3: + swarm
+    {
+      duration: 35,
+      spawnInterval: 850,
+      enemiesPerSpawn: 2,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 40 },
+        { type: EnemyType.FAST, weight: 30 },
+        { type: EnemyType.SWARM, weight: 30 },
+      ],
+      boss: { type: EnemyType.BOSS, spawnAt: BOSS_SPAWN_AT },
+    },
+    // Wave 4: + tank
+    {
+      duration: 35,
+      spawnInterval: 800,
+      enemiesPerSpawn: 2,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 30 },
+        { type: EnemyType.FAST, weight: 20 },
+        { type: EnemyType.SWARM, weight: 25 },
+        { type: EnemyType.TANK, weight: 25 },
+      ],
+      events: [{ type: WaveEventType.HORDE, at: 15 }],
+    },
+    // Wave 5: + zigzag
+    {
+      duration: 40,
+      spawnInterval: 750,
+      enemiesPerSpawn: 3,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 25 },
+        { type: EnemyType.FAST, weight: 15 },
+        { type: EnemyType.SWARM, weight: 20 },
+        { type: EnemyType.TANK, weight: 10 },
+        { type: EnemyType.ZIGZAG, weight: 30 },
+      ],
+    },
+    // Wave 6: + sprinter
+    {
+      duration: 40,
+      spawnInterval: 700,
+      enemiesPerSpawn: 3,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 20 },
+        { type: EnemyType.FAST, weight: 15 },
+        { type: EnemyType.SWARM, weight: 15 },
+        { type: EnemyType.TANK, weight: 15 },
+        { type: EnemyType.ZIGZAG, weight: 15 },
+        { type: EnemyType.SPRINTER, weight: 20 },
+      ],
+      boss: { type: EnemyType.BOSS_SWARM, spawnAt: BOSS_SPAWN_AT },
+    },
+    // Wave 7: + exploder
+    {
+      duration: 40,
+      spawnInterval: 650,
+      enemiesPerSpawn: 3,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 15 },
+        { type: EnemyType.FAST, weight: 15 },
+        { type: EnemyType.SWARM, weight: 15 },
+        { type: EnemyType.TANK, weight: 10 },
+        { type: EnemyType.ZIGZAG, weight: 15 },
+        { type: EnemyType.SPRINTER, weight: 15 },
+        { type: EnemyType.EXPLODER, weight: 15 },
+      ],
+      events: [{ type: WaveEventType.PINCER, at: 25 }],
+    },
+    // Wave 8: + ghost
+    {
+      duration: 40,
+      spawnInterval: 600,
+      enemiesPerSpawn: 4,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 10 },
+        { type: EnemyType.FAST, weight: 10 },
+        { type: EnemyType.SWARM, weight: 15 },
+        { type: EnemyType.TANK, weight: 10 },
+        { type: EnemyType.ZIGZAG, weight: 15 },
+        { type: EnemyType.SPRINTER, weight: 15 },
+        { type: EnemyType.EXPLODER, weight: 12 },
+        { type: EnemyType.GHOST, weight: 13 },
+      ],
+      events: [{ type: WaveEventType.HORDE, at: 30 }],
+    },
+    // Wave 9: + splitter
+    {
+      duration: 40,
+      spawnInterval: 550,
+      enemiesPerSpawn: 4,
+      enemies: [
+        { type: EnemyType.BASIC, weight: 10 },
+        { type: EnemyType.FAST, weight: 10 },
+        { type: EnemyType.SWARM, weight: 15 },
+        { type: EnemyType.TANK, weight: 10 },
+        { type: EnemyType.ZIGZAG, weight: 10 },
+        { type: EnemyType.SPRINTER, weight: 10 },
+        { type: EnemyType.EXPLODER, weight: 10 },
+        { type: EnemyType.GHOST, weight: 12 },
+        { type: EnemyType.SPLITTER, weight: 13 },
+      ],
+      boss: { type: EnemyType.BOSS_TANK, spawnAt: BOSS_SPAWN_AT },
+    },
+    // Wave 10: + brute (all types)
+    { ...LATE_PINCER, spawnInterval: 500 },
+    { ...LATE_ENCIRCLEMENT, spawnInterval: 450 },
+    // Waves 12-29: boss rotation, looped
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS_SPEED, spawnAt: BOSS_SPAWN_AT } },
+    LATE_HORDE,
+    LATE_PINCER,
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS_EXPLODER, spawnAt: BOSS_SPAWN_AT } },
+    LATE_ENCIRCLEMENT,
+    LATE_HORDE,
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS_GHOST, spawnAt: BOSS_SPAWN_AT } },
+    LATE_PINCER,
+    LATE_ENCIRCLEMENT,
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS, spawnAt: BOSS_SPAWN_AT } },
+    LATE_HORDE,
+    LATE_PINCER,
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS_SWARM, spawnAt: BOSS_SPAWN_AT } },
+    LATE_ENCIRCLEMENT,
+    LATE_HORDE,
+    { ...LATE_WAVE, boss: { type: EnemyType.BOSS_TANK, spawnAt: BOSS_SPAWN_AT } },
+    LATE_PINCER,
+    LATE_ENCIRCLEMENT,
+  ],
+  loop: 18,
+  /**
+   * Example: On wave 9 (3rd boss), with default values:
+   * - Boss HP: base × (1 + (3-1) × 0.5) × 1.04^(9-3) = base × 2.53
+   * - Enemy stats on wave 10: base × 1.04^(10-5) = base × 1.22
+   * - Elite chance on wave 10: 0.02 + (10-6) × 0.01 = 6%
+   */
+  scaling: {
+    enemy: {
+      startWave: 5,
+      factor: 1.04,
+    },
+    boss: {
+      hpPerBoss: 0.5,
+      damagePerBoss: 0.25,
+      exponentialBase: 1.04,
+      exponentialStartWave: 3,
+    },
+    elite: {
+      startWave: 6,
+      chance: 0.02,
+      chancePerWave: 0.01,
+      maxChance: 0.2,
+      secondAffixChance: 0.25,
+    },
+  },
+  /** Wave 4: one hazard every 12s, wave 10: every 9s, never faster than every 5s */
+  hazards: {
+    startWave: 4,
+    interval: 12,
+    intervalPerWave: 0.5,
+    minInterval: 5,
+    enemyDamageMultiplier: 3,
+    pool: [
+      { type: HazardType.LAVA, weight: 30 },
+      { type: HazardType.ACID, weight: 30 },
+      { type: HazardType.ELECTRIC, weight: 20 },
+      { type: HazardType.METEOR, weight: 20 },
+    ],
+  },
+};
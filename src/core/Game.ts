@@ -1,27 +1,23 @@
-import { GAME_BALANCE } from '@/config/balance.config';
-import { CHARACTER_TYPES } from '@/config/characters.config';
+import { ArenaType } from '@/domain/arena';
 import { AudioSystem } from '@/domain/audio/AudioSystem';
-import { Enemy } from '@/domain/enemies';
-import { Player } from '@/domain/player/Player';
-import { Projectile } from '@/entities/Projectile';
+import { Boss } from '@/domain/enemies';
 import { EventBus } from '@/events/EventBus';
 import { EntityManager, StateManager } from '@/managers';
-import { CollisionSystem } from '@/systems/CollisionSystem';
-import { CombatSystem } from '@/systems/CombatSystem';
-import { EffectsSystem } from '@/systems/EffectsSystem';
-import { HUD } from '@/systems/HUD';
 import { InputSystem } from '@/systems/InputSystem';
+import { ReplaySystem } from '@/systems/ReplaySystem';
+import { RunSave, SaveSystem } from '@/systems/SaveSystem';
 import { Shop } from '@/systems/Shop';
 import { WaveManager } from '@/systems/WaveManager';
-import { CharacterType, EnemyType, GameState, ProjectileType } from '@/types/enums';
-import { distance } from '@/utils';
+import { CharacterType, EnemyType, GameState } from '@/types/enums';
 import toast from 'react-hot-toast';
 import { injectable } from 'tsyringe';
 import { ConfigService } from '../config/ConfigService';
-import { WeaponManager } from '../domain/weapons/WeaponManager';
-import { PickupSpawnSystem } from './../systems/PickupSpawnSystem';
+import { FIXED_TIMESTEP, GameWorld } from './GameWorld';
+import { RandomService } from './RandomService';
 import { RenderSystem } from './../systems/RenderSystem';
-import { RewardSystem } from './../systems/RewardSystem';
+
+/** Longest frame fed into the accumulator (tab switches, breakpoints) */
+const MAX_FRAME_TIME = 250;
 
 @injectable()
 export class Game {
@@ -32,12 +28,7 @@ export class Game {
   // State
   private lastTime: number = 0;
   private selectedCharacter: CharacterType | null = null;
-
-  // Systems (not injected - no deps or special cases)
-  private effectsSystem: EffectsSystem;
-
-  // Regeneration tracking
-  private lastRegenTime: number = 0;
+  private selectedArena: ArenaType = ArenaType.CLASSIC;
 
   // HUD update throttling
   private lastHUDUpdate: number = 0;
@@ -45,10 +36,14 @@ export class Game {
   // Game loop tracking - prevents multiple loops
   private isGameLoopRunning: boolean = false;
 
+  // Run is persisted between waves (off for replay playback - it must not touch the player's save)
+  private isSavingEnabled: boolean = true;
+
+  // Fixed timestep - unsimulated time carried between frames, and the game clock (ms)
+  private accumulator: number = 0;
+  private simulationTime: number = 0;
+
   public constructor(
-    pickupSpawnSystem: PickupSpawnSystem,
-    private collisionSystem: CollisionSystem,
-    private combatSystem: CombatSystem,
     private configService: ConfigService,
     private entityManager: EntityManager,
     private inputSystem: InputSystem,
@@ -56,21 +51,15 @@ export class Game {
     private shop: Shop,
     private stateManager: StateManager,
     private waveManager: WaveManager,
-    private weaponManager: WeaponManager,
-    rewardSystem: RewardSystem,
+    private random: RandomService,
+    private replaySystem: ReplaySystem,
+    private world: GameWorld,
+    private saveSystem: SaveSystem,
   ) {
-    // These systems auto-connect to EventBus - instantiation is enough
-    void pickupSpawnSystem;
-    void rewardSystem;
     // Get canvas
     this.canvas = document.getElementById('game') as HTMLCanvasElement;
     this.ctx = this.canvas.getContext('2d')!;
-    const canvasBounds = this.configService.getCanvasBounds();
-    this.canvas.width = canvasBounds.width;
-    this.canvas.height = canvasBounds.height;
-
-    // Initialize systems without DI (no deps or special cases)
-    this.effectsSystem = new EffectsSystem();
+    this.resizeCanvas();
 
     // AudioSystem initializes itself via EventBus - no reference needed
     new AudioSystem();
@@ -96,7 +85,7 @@ export class Game {
           this.onEnterPlaying(from);
           break;
         case GameState.SHOP:
-          this.onEnterShop();
+          this.onEnterShop(from);
           break;
         case GameState.PAUSED:
           this.onEnterPaused();
@@ -107,13 +96,24 @@ export class Game {
       }
     });
 
-    // Listen for characterSelected: store character, then trigger game start
-    EventBus.on('characterSelected', ({ characterType }) => {
+    // Listen for characterSelected: store character and arena, then trigger game start
+    EventBus.on('characterSelected', ({ characterType, arena }) => {
       this.selectedCharacter = characterType;
+      this.selectedArena = arena;
       // Preact CharacterSelect handles visual selection
       EventBus.emit('startGameRequested', undefined);
     });
 
+    // Continue from menu: rebuild saved run, StateManager then opens the shop
+    EventBus.on('continueRequested', () => {
+      const save = this.saveSystem.load();
+      if (!save) {
+        toast('❌ Nie udało się wczytać zapisu');
+        return;
+      }
+      this.restoreSavedRun(save);
+    });
+
     // Listen for Preact shop item purchases and apply effects
     EventBus.on('itemPurchased', ({ itemId }) => {
       // Skip reroll - it's just for UI refresh, gold is deducted by RewardSystem
@@ -169,15 +169,17 @@ export class Game {
     this.startGameLoop();
   }
 
-  private onEnterShop(): void {
-    this.waveManager.endWave();
+  private onEnterShop(from: GameState): void {
+    // Restored runs enter from MENU with the wave already closed
+    if (from === GameState.PLAYING) {
+      this.world.endWave();
 
-    const player = this.entityManager.getPlayer();
-    player.hp = player.maxHp; // Full heal
-    player.position.x = this.canvas.width / 2; // Center player
-    player.position.y = this.canvas.height / 2;
+      if (this.isSavingEnabled) {
+        this.saveSystem.save(this.world.createSnapshot());
+      }
+    }
 
-    this.entityManager.clearExceptPlayer();
+    const player = this.entityManager.getPlayer();
 
     // Preact Shop component handles rendering via shopOpened event
     EventBus.emit('shopOpened', {
@@ -200,11 +202,17 @@ export class Game {
   private onEnterGameOver(): void {
     const player = this.entityManager.getPlayer();
 
+    // Run is over - nothing to continue
+    if (this.isSavingEnabled) {
+      this.saveSystem.clear();
+    }
+
     // Preact App handles game over UI based on gameOver event
     EventBus.emit('gameOver', {
       score: player.xp,
       wave: this.waveManager.waveNumber,
       time: 0,
+      seed: this.random.getSeed(),
     });
   }
 
@@ -214,36 +222,59 @@ export class Game {
   private initializeNewGame(): void {
     this.selectedCharacter ??= CharacterType.NORMIK;
 
-    // Get character config
-    const charConfig = CHARACTER_TYPES[this.selectedCharacter];
+    // Fresh seed (or the replayed one) - every gameplay roll of this run derives from it
+    const seed = this.world.startRun(
+      this.selectedCharacter,
+      this.replaySystem.getActiveReplay()?.seed,
+      this.selectedArena,
+    );
+    this.replaySystem.beginRun(seed, this.selectedCharacter, this.selectedArena);
+    this.resizeCanvas();
 
-    // Create player
-    const player = new Player({
-      x: this.canvas.width / 2,
-      y: this.canvas.height / 2,
-      characterType: this.selectedCharacter,
-    });
+    // New run replaces the saved one
+    this.isSavingEnabled = this.replaySystem.getMode() !== 'playback';
+    if (this.isSavingEnabled) {
+      this.saveSystem.clear();
+    }
 
-    // Apply character-specific stats
-    player.maxHp = charConfig.maxHp;
-    player.hp = charConfig.maxHp;
-    player.speed = charConfig.speed;
-    player.damageMultiplier = charConfig.damageMultiplier;
-    player.goldMultiplier = charConfig.goldMultiplier;
-    player.color = charConfig.color;
+    this.resetClock();
+    this.updateHUD();
+  }
 
-    // Reset entity manager and set player
-    this.entityManager.clear();
-    this.entityManager.setPlayer(player);
+  /**
+   * Rebuild a saved run and open its shop (called from MENU)
+   */
+  private restoreSavedRun(save: RunSave): void {
+    this.selectedCharacter = save.character;
+    this.selectedArena = save.arena;
+    this.isSavingEnabled = true;
+    this.world.restoreRun(save);
+    this.resizeCanvas();
+
+    this.resetClock();
+    this.updateHUD();
 
-    // Initialize weapons
-    this.weaponManager.addWeapon(charConfig.startingWeapon);
+    EventBus.emit('runRestored', {
+      characterType: save.character,
+      arena: save.arena,
+      waveNumber: save.waveNumber,
+    });
+    this.startGameLoop();
+  }
 
-    // Reset game state
-    this.waveManager.reset();
+  /**
+   * Match the canvas to the current arena (the UI overlay follows its size)
+   */
+  private resizeCanvas(): void {
+    const canvasBounds = this.configService.getCanvasBounds();
+    this.canvas.width = canvasBounds.width;
+    this.canvas.height = canvasBounds.height;
+  }
 
-    this.waveManager.startWave();
-    this.updateHUD();
+  private resetClock(): void {
+    this.accumulator = 0;
+    this.simulationTime = 0;
+    this.lastHUDUpdate = 0;
   }
 
   /**
@@ -274,16 +305,27 @@ export class Game {
   // ============ Game Loop ============
 
   private gameLoop(timestamp: number): void {
-    const deltaTime = timestamp - this.lastTime;
+    const frameTime = Math.min(timestamp - this.lastTime, MAX_FRAME_TIME);
     this.lastTime = timestamp;
 
     const currentState = this.stateManager.getCurrentState();
 
     if (currentState === GameState.PLAYING) {
-      this.update(deltaTime, timestamp);
+      this.accumulator += frameTime;
+
+      // Run as many fixed ticks as real time allows; stop early if a tick left PLAYING
+      while (
+        this.accumulator >= FIXED_TIMESTEP &&
+        this.stateManager.getCurrentState() === GameState.PLAYING
+      ) {
+        this.accumulator -= FIXED_TIMESTEP;
+        this.simulationTime += FIXED_TIMESTEP;
+        this.entityManager.storePreviousPositions();
+        this.update(FIXED_TIMESTEP, this.simulationTime);
+      }
     }
 
-    this.render();
+    this.render(this.accumulator / FIXED_TIMESTEP);
 
     // Continue loop only for active game states
     if (currentState === GameState.PLAYING || currentState === GameState.SHOP) {
@@ -311,190 +353,12 @@ export class Game {
   // ============ Update ============
 
   private update(deltaTime: number, currentTime: number): void {
-    const player = this.entityManager.getPlayer();
-
-    const deltaSeconds = deltaTime / 1000;
-
-    // Poll gamepad state and get unified input
+    // Poll gamepad state and get unified input (recorded, or replaced during playback)
     this.inputSystem.poll();
-    const input = this.inputSystem.getInputState();
+    const input = this.replaySystem.processTick(this.inputSystem.getInputState());
 
-    // Update player movement
-    player.updateMovement(input, this.canvas.width, this.canvas.height, deltaSeconds);
-
-    // TODO handle in passivesSystem?
-    if (player.regen > 0) {
-      if (!this.lastRegenTime) this.lastRegenTime = currentTime;
-      if (currentTime - this.lastRegenTime >= 1000) {
-        player.heal(player.regen);
-        this.lastRegenTime = currentTime;
-      }
-    }
-
-    // Check if boss is alive
-    const bossAlive = this.entityManager.getActiveEnemies().some((e) => e.isBoss);
-
-    // Update wave manager
-    const waveResult = this.waveManager.update(deltaTime, this.canvas, bossAlive);
-
-    // Add spawned enemies
-    for (const enemy of waveResult.enemies) {
-      this.entityManager.addEnemy(enemy);
-    }
-
-    // Countdown sound
-    if (waveResult.countdown !== false) {
-      EventBus.emit('countdownTick', { seconds: waveResult.countdown });
-    }
-
-    if (waveResult.waveEnded) {
-      EventBus.emit('waveCleared', undefined);
-      return;
-    }
-
-    // Update CombatSystem runtime config with current player stats
-    this.combatSystem.updateRuntimeConfig({
-      damageMultiplier: player.damageMultiplier,
-      explosionRadius: player.explosionRadius,
-      knockback: player.knockback,
-    });
-
-    // Find nearest enemy for auto-aim (only within map bounds)
-    const canvasBounds = { width: this.canvas.width, height: this.canvas.height };
-    const nearestEnemy = this.entityManager.getNearestEnemy(
-      player.position,
-      undefined,
-      canvasBounds,
-    );
-    player.setTarget(nearestEnemy ? nearestEnemy.position : null);
-
-    // Fire weapons
-    this.weaponManager.fireWeapons(currentTime, player);
-
-    // Update enemies (movement, boss shooting)
-    const enemies = this.entityManager.getActiveEnemies();
-    for (const enemy of enemies) {
-      enemy.update(deltaSeconds);
-      enemy.moveTowardsTarget(player.position, deltaSeconds, this.canvas.width, this.canvas.height);
-
-      // Boss shooting (creates projectiles/shockwaves)
-      if (enemy.canShoot) {
-        const attackResult = enemy.tryAttack(player.position, currentTime);
-        if (attackResult) {
-          if (attackResult.type === 'bullets') {
-            // Get enemy velocity for projectile inheritance
-            const enemyVel = enemy.getVelocity();
-
-            // Create enemy projectiles
-            for (const bulletData of attackResult.bullets) {
-              const projectile = new Projectile({
-                position: {
-                  x: bulletData.x,
-                  y: bulletData.y,
-                },
-                radius: Math.floor(enemy.radius * 0.15), // default 6
-                type: ProjectileType.ENEMY_BULLET,
-                damage: bulletData.damage,
-                ownerId: enemy.id,
-                color: bulletData.color,
-                maxDistance: 1000,
-              });
-              // Add enemy velocity to projectile (velocity inheritance)
-              projectile.setVelocity(bulletData.vx + enemyVel.vx, bulletData.vy + enemyVel.vy);
-              this.entityManager.addProjectile(projectile);
-            }
-            // Currently only shockwave type exists, but may have more attack types in future
-            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-          } else if (attackResult.type === 'shockwave') {
-            this.effectsSystem.createShockwave(attackResult);
-          }
-        }
-      }
-    }
-
-    // Update projectiles (movement, expire, off-screen removal)
-    const projectiles = this.entityManager.getActiveProjectiles();
-    for (const projectile of projectiles) {
-      projectile.update(deltaSeconds);
-
-      // Remove expired - but check if grenade should explode first
-      if (!projectile.isActive) {
-        // Grenades explode when they reach their target distance
-        if (projectile.shouldExplodeOnExpire && projectile.isExplosive() && projectile.explosive) {
-          const expRadius = projectile.explosive.explosionRadius * player.explosionRadius;
-          const isMini = projectile.type === ProjectileType.MINI_BANANA;
-          this.combatSystem.triggerExplosion(
-            projectile.position,
-            expRadius,
-            projectile.damage * player.damageMultiplier,
-            projectile.explosive.visualEffect,
-            isMini,
-          );
-        }
-        this.entityManager.removeProjectile(projectile.id);
-        continue;
-      }
-
-      // Off screen check - destroy projectiles that left the screen
-      if (
-        projectile.position.x < -50 ||
-        projectile.position.x > this.canvas.width + 50 ||
-        projectile.position.y < -50 ||
-        projectile.position.y > this.canvas.height + 50
-      ) {
-        projectile.destroy();
-      }
-    }
-
-    // Update deployables (mines) - just movement/animation
-    const deployables = this.entityManager.getActiveDeployables();
-    for (const deployable of deployables) {
-      deployable.update(deltaSeconds);
-    }
-
-    // Update pickups (movement, magnet attraction)
-    const pickups = this.entityManager.getActivePickups();
-    for (const pickup of pickups) {
-      pickup.update(deltaSeconds);
-
-      if (!pickup.isActive) continue;
-
-      // Magnet attraction - only works if player has magnet item
-      const hasMagnet = player.items.includes('magnet');
-      const distToPlayer = distance(pickup.position, player.position);
-      if (hasMagnet && (distToPlayer < player.pickupRange || pickup.isAttracted)) {
-        pickup.isAttracted = true;
-        const dx = player.position.x - pickup.position.x;
-        const dy = player.position.y - pickup.position.y;
-        if (distToPlayer > 0) {
-          // Scale attraction speed:
-          // 1. Base speed = player speed * multiplier (always faster than player)
-          // 2. Distance factor modulates speed based on proximity
-          const speedMultiplier = GAME_BALANCE.pickup.playerSpeedMultiplier;
-          const minFactor = GAME_BALANCE.pickup.minDistanceFactor;
-          const maxFactor = GAME_BALANCE.pickup.maxDistanceFactor;
-          // Clamp normalized distance to [0, 1] to prevent weird behavior when outside range
-          const normalizedDistance = Math.min(1, distToPlayer / player.pickupRange);
-          // Interpolate from maxFactor (close) to minFactor (far)
-          const distanceFactor = maxFactor - (maxFactor - minFactor) * normalizedDistance;
-          const magnetSpeed = player.speed * speedMultiplier * distanceFactor;
-
-          pickup.position.x += (dx / distToPlayer) * magnetSpeed;
-          pickup.position.y += (dy / distToPlayer) * magnetSpeed;
-        }
-      }
-    }
-
-    // === Collision Detection & Combat Processing ===
-    // All collision handling is delegated to CollisionSystem + CombatSystem
-    const collisions = this.collisionSystem.checkAll();
-    this.combatSystem.processCollisions(collisions, currentTime);
-
-    // Update shockwaves
-    this.updateShockwaves(currentTime);
-
-    // Cleanup
-    this.entityManager.removeInactive();
+    const waveEnded = this.world.update(deltaTime, currentTime, input);
+    if (waveEnded) return;
 
     // TODO migrate to canvas overlay HUD?
     // Throttle HUD updates to reduce DOM manipulation cost (60 FPS → 10 updates/sec)
@@ -509,7 +373,7 @@ export class Game {
    * TODO: When SpawnSystem is fully integrated, delegate to SpawnSystem.spawnEnemyAt()
    */
   public spawnEnemy(type: EnemyType, x: number, y: number): void {
-    const enemy = new Enemy({ position: { x, y }, type });
+    const enemy = this.entityManager.createEnemy({ position: { x, y }, type });
     this.entityManager.addEnemy(enemy);
 
     if (enemy.isBoss) {
@@ -517,54 +381,22 @@ export class Game {
     }
   }
 
-  // ============ Combat Effects ============
-
-  private updateShockwaves(currentTime: number): void {
-    const player = this.entityManager.getPlayer();
-
-    const playerDied = this.effectsSystem.updateShockwaves(
-      {
-        x: player.position.x,
-        y: player.position.y,
-        dodge: player.dodge,
-        takeDamage: (damage: number, time: number) => player.takeDamage(damage, time),
-      },
-      currentTime,
-      () => {
-        EventBus.emit('playerDodged', undefined);
-      },
-    );
-
-    if (playerDied) {
-      // TODO: killed by, shockwave, maybe Killed by, could be displayed
-      EventBus.emit('playerDeath', { player, killedBy: null });
-    }
-  }
-
   // ============ Render ============
 
-  private render(): void {
+  /**
+   * Draw current state
+   * @param alpha Fraction of the next tick already elapsed, used to interpolate positions
+   */
+  private render(alpha: number): void {
     // Render effects
-    this.renderSystem.renderAll(this.ctx, this.lastTime);
+    this.renderSystem.renderAll(
+      this.ctx,
+      this.simulationTime,
+      alpha,
+      this.world.effects.getHazards(),
+    );
     // TODO: integrate EffectsSystem rendering into RenderSystem
-    this.effectsSystem.renderAll(this.ctx);
-
-    // Render boss health bar
-    this.renderBossHealthBar();
-  }
-
-  private renderBossHealthBar(): void {
-    const enemies = this.entityManager.getActiveEnemies();
-    // Map enemies to HUDBoss format
-    const hudbosses = enemies.map((e) => ({
-      type: e.type,
-      hp: e.hp,
-      maxHp: e.maxHp,
-      isBoss: e.isBoss,
-      bossName: e.bossName ?? undefined,
-      hasTopHealthBar: false,
-    }));
-    HUD.renderBossHealthBar(this.ctx, this.canvas.width, hudbosses);
+    this.world.effects.renderAll(this.ctx);
   }
 
   // ============ HUD ============
@@ -587,6 +419,28 @@ export class Game {
       timeRemaining: this.waveManager.timeRemaining,
       isWaveActive: this.waveManager.isWaveActive,
     });
+
+    this.updateBossBars();
+  }
+
+  /**
+   * Emit boss HP for the Preact boss bars
+   */
+  private updateBossBars(): void {
+    const bosses = this.entityManager
+      .getActiveEnemies()
+      .filter((enemy): enemy is Boss => enemy instanceof Boss);
+
+    EventBus.emit('bossHealthUpdate', {
+      bosses: bosses.map((boss) => ({
+        id: boss.id,
+        hp: boss.hp,
+        maxHp: boss.maxHp,
+        phase: boss.getPhaseIndex(),
+        enraged: boss.isEnraged(),
+        enrageIn: boss.getEnrageTimeLeft(),
+      })),
+    });
   }
 
   /**
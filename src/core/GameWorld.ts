@@ -0,0 +1,641 @@
+/**
+ * GameWorld - DOM-free gameplay state and fixed tick update.
+ * Shared by Game (browser loop, rendering, UI) and Simulation (headless balance runs).
+ */
+
+import { GAME_BALANCE } from '@/config/balance.config';
+import { CHARACTER_TYPES } from '@/config/characters.config';
+import { ConfigService } from '@/config/ConfigService';
+import { Enemy, EnemyBulletData, HealAttackResult, SummonAttackResult } from '@/domain/enemies';
+import { ArenaType } from '@/domain/arena';
+import { Boss } from '@/domain/enemies/bosses';
+import { Player } from '@/domain/player/Player';
+import { InputState } from '@/domain/player/type';
+import { WeaponManager } from '@/domain/weapons/WeaponManager';
+import { EventBus } from '@/events/EventBus';
+import { Deployable } from '@/entities/Deployable';
+import { ProjectileConfig } from '@/entities/Projectile';
+import { EntityManager } from '@/managers/EntityManager';
+import { CollisionSystem } from '@/systems/CollisionSystem';
+import { CombatSystem } from '@/systems/CombatSystem';
+import { EffectsSystem } from '@/systems/EffectsSystem';
+import { MergeSystem } from '@/systems/MergeSystem';
+import { ObstacleSystem } from '@/systems/ObstacleSystem';
+import { PickupSpawnSystem } from '@/systems/PickupSpawnSystem';
+import { RewardSystem } from '@/systems/RewardSystem';
+import { RunSnapshot } from '@/systems/SaveSystem';
+import { WaveManager } from '@/systems/WaveManager';
+import { CharacterType, ProjectileType, VisualEffect } from '@/types/enums';
+import { distance } from '@/utils';
+import { TWO_PI } from '@/utils/math';
+import { CanvasBounds } from '@/utils/random';
+import { singleton } from 'tsyringe';
+import { RandomService } from './RandomService';
+
+/** Simulation step in ms - game logic always advances in 60 Hz ticks */
+export const FIXED_TIMESTEP = 1000 / 60;
+
+/** Minions appear this far from their summoner (px) */
+const SUMMON_DISTANCE = 40;
+
+@singleton()
+export class GameWorld {
+  /** Shockwaves and visual effects (not injected - needs the combat stream) */
+  public readonly effects: EffectsSystem;
+
+  /** Arena size */
+  private bounds: CanvasBounds;
+
+  // Regeneration tracking
+  private lastRegenTime: number = 0;
+
+  public constructor(
+    private entityManager: EntityManager,
+    private waveManager: WaveManager,
+    private collisionSystem: CollisionSystem,
+    private combatSystem: CombatSystem,
+    private weaponManager: WeaponManager,
+    private random: RandomService,
+    private configService: ConfigService,
+    pickupSpawnSystem: PickupSpawnSystem,
+    rewardSystem: RewardSystem,
+    private mergeSystem: MergeSystem,
+    private obstacleSystem: ObstacleSystem,
+  ) {
+    // These systems auto-connect to EventBus - instantiation is enough
+    void pickupSpawnSystem;
+    void rewardSystem;
+
+    this.bounds = configService.getCanvasBounds();
+    this.effects = new EffectsSystem(this.random.combat.next);
+  }
+
+  public getBounds(): CanvasBounds {
+    return this.bounds;
+  }
+
+  // ============ Run Lifecycle ============
+
+  /**
+   * Start a new run: reseed, create player with character stats and start wave 1
+   * @param seed Seed to reproduce (random when omitted)
+   * @returns Seed in use
+   */
+  public startRun(
+    character: CharacterType,
+    seed?: number,
+    arena: ArenaType = ArenaType.CLASSIC,
+  ): number {
+    const usedSeed = this.random.newRun(seed);
+    this.loadArena(arena);
+    this.resetArena(character);
+
+    // Initialize weapons
+    this.weaponManager.addWeapon(CHARACTER_TYPES[character].startingWeapon);
+
+    // Reset game state
+    this.waveManager.reset();
+    this.waveManager.startWave();
+
+    return usedSeed;
+  }
+
+  /**
+   * Rebuild a saved run. The world is left between waves - call startWave when the shop closes.
+   */
+  public restoreRun(snapshot: RunSnapshot): void {
+    this.random.restoreState({ seed: snapshot.seed, draws: snapshot.randomDraws });
+    this.loadArena(snapshot.arena);
+    const player = this.resetArena(snapshot.character);
+
+    const saved = snapshot.player;
+    player.setStats(saved.stats);
+    player.hp = saved.hp;
+    player.gold = saved.gold;
+    player.xp = saved.xp;
+    for (const itemId of saved.items) {
+      player.addItem(itemId);
+    }
+
+    for (const weapon of saved.weapons) {
+      if (!player.addWeapon(weapon.type)) continue;
+      const instance = player.weapons[player.weapons.length - 1]!;
+      instance.level = weapon.level;
+      instance.multishot = weapon.multishot;
+      instance.fireOffset = weapon.fireOffset;
+    }
+
+    this.waveManager.reset();
+    this.waveManager.waveNumber = snapshot.waveNumber;
+  }
+
+  /**
+   * Capture the run between waves (after endWave)
+   */
+  public createSnapshot(): RunSnapshot {
+    const player = this.entityManager.getPlayer();
+    const randomState = this.random.getState();
+
+    return {
+      character: player.characterType,
+      arena: this.configService.getArenaType(),
+      seed: randomState.seed,
+      randomDraws: randomState.draws,
+      waveNumber: this.waveManager.waveNumber,
+      player: {
+        stats: player.getStats(),
+        hp: player.hp,
+        gold: player.gold,
+        xp: player.xp,
+        items: [...player.items],
+        weapons: player.weapons.map((w) => ({
+          type: w.type,
+          level: w.level,
+          multishot: w.multishot,
+          fireOffset: w.fireOffset,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Close current wave: heal and center player, clear the arena
+   */
+  public endWave(): void {
+    this.waveManager.endWave();
+
+    const player = this.entityManager.getPlayer();
+    player.hp = player.maxHp; // Full heal
+    player.statusEffects.clear();
+    player.position.x = this.bounds.width / 2; // Center player
+    player.position.y = this.bounds.height / 2;
+    player.storePreviousPosition(); // Don't interpolate the teleport
+
+    this.entityManager.clearExceptPlayer();
+    this.effects.clearHazards();
+  }
+
+  /**
+   * Switch to an arena: its size, obstacles and the wave set played on it
+   */
+  private loadArena(type: ArenaType): void {
+    this.configService.setArena(type);
+    this.bounds = this.configService.getCanvasBounds();
+    const arena = this.configService.getArena();
+    this.obstacleSystem.setLayout(arena.layout);
+    this.waveManager.setArena(arena);
+  }
+
+  /**
+   * Empty arena with a fresh player of given character in the center
+   */
+  private resetArena(character: CharacterType): Player {
+    this.lastRegenTime = 0;
+    this.mergeSystem.reset();
+    this.effects.clear();
+
+    // Get character config
+    const charConfig = CHARACTER_TYPES[character];
+
+    // Create player
+    const player = new Player({
+      x: this.bounds.width / 2,
+      y: this.bounds.height / 2,
+      characterType: character,
+    });
+
+    // Apply character-specific stats
+    player.maxHp = charConfig.maxHp;
+    player.hp = charConfig.maxHp;
+    player.speed = charConfig.speed;
+    player.damageMultiplier = charConfig.damageMultiplier;
+    player.goldMultiplier = charConfig.goldMultiplier;
+    player.color = charConfig.color;
+
+    // Reset entity manager and set player
+    this.entityManager.clear();
+    this.entityManager.setPlayer(player);
+
+    return player;
+  }
+
+  // ============ Update ============
+
+  /**
+   * Advance simulation by one tick
+   * @param deltaTime Tick length in ms
+   * @param currentTime Simulation time in ms
+   * @param input Movement input for this tick
+   * @returns true when the wave ended this tick
+   */
+  public update(deltaTime: number, currentTime: number, input: InputState): boolean {
+    const player = this.entityManager.getPlayer();
+    const { width, height } = this.bounds;
+
+    const deltaSeconds = deltaTime / 1000;
+
+    // Update player movement - obstacles are solid
+    player.updateMovement(input, width, height, deltaSeconds);
+    this.obstacleSystem.pushOut(player.position, player.radius);
+
+    // TODO handle in passivesSystem?
+    if (player.regen > 0) {
+      if (!this.lastRegenTime) this.lastRegenTime = currentTime;
+      if (currentTime - this.lastRegenTime >= 1000) {
+        player.heal(player.regen);
+        this.lastRegenTime = currentTime;
+      }
+    }
+
+    // Check if boss is alive
+    const bossAlive = this.entityManager.getActiveEnemies().some((e) => e.isBoss);
+
+    // Update wave manager
+    const waveResult = this.waveManager.update(deltaTime, this.bounds, bossAlive);
+
+    // Add spawned enemies
+    for (const enemy of waveResult.enemies) {
+      this.entityManager.addEnemy(enemy);
+    }
+    for (const hazard of waveResult.hazards) {
+      this.effects.createHazard(hazard, currentTime);
+    }
+
+    // Countdown sound
+    if (waveResult.countdown !== false) {
+      EventBus.emit('countdownTick', { seconds: waveResult.countdown });
+    }
+
+    if (waveResult.waveEnded) {
+      EventBus.emit('waveCleared', undefined);
+      return true;
+    }
+
+    // Update CombatSystem runtime config with current player stats
+    this.combatSystem.updateRuntimeConfig({
+      damageMultiplier: player.damageMultiplier,
+      explosionRadius: player.explosionRadius,
+      knockback: player.knockback,
+    });
+
+    // Index positions after spawns and player movement - auto-aim queries the grid
+    this.entityManager.updateSpatialIndex();
+
+    // Find nearest enemy for auto-aim (only within map bounds)
+    const nearestEnemy = this.entityManager.getNearestEnemy(
+      player.position,
+      undefined,
+      this.bounds,
+    );
+    player.setTarget(nearestEnemy ? nearestEnemy.position : null);
+
+    // Fire weapons (not while frozen or stunned)
+    if (player.statusEffects.canAct()) {
+      this.weaponManager.fireWeapons(currentTime, player);
+    }
+    this.weaponManager.fireTurrets(currentTime, player);
+
+    // Update enemies (movement, boss shooting)
+    const enemies = this.entityManager.getActiveEnemies();
+    const lures = this.entityManager.getActiveDeployables().filter((d) => d.lure);
+    for (const enemy of enemies) {
+      enemy.update(deltaSeconds);
+
+      // Lured enemies go for the lure instead of the player - and chew on it
+      const lure = this.findLure(enemy, lures);
+      const chaseTarget = lure ? lure.position : player.position;
+      if (lure && distance(enemy.position, lure.position) <= enemy.radius + lure.radius) {
+        lure.takeDamage(enemy.damage * deltaSeconds);
+      }
+
+      // Closing in goes around obstacles, ghosts float through
+      const moveTarget =
+        enemy.phasing || enemy.holdsDistance()
+          ? chaseTarget
+          : this.obstacleSystem.getSteeringTarget(enemy.position, enemy.radius, chaseTarget);
+      enemy.moveTowardsTarget(moveTarget, deltaSeconds, width, height);
+
+      if (enemy instanceof Boss) {
+        const phase = enemy.takePhaseChange();
+        if (phase !== null) {
+          EventBus.emit('bossPhaseChanged', { boss: enemy, phase });
+        }
+      }
+
+      // Enemy attacks and abilities (projectiles, shockwaves, beams, heals, minions)
+      if (enemy.canShoot) {
+        const attackResult = enemy.tryAttack(player.position, currentTime, this.random.combat.next);
+        switch (attackResult?.type) {
+          case 'bullets':
+            for (const bulletData of attackResult.bullets) {
+              this.spawnEnemyBullet(enemy, bulletData);
+            }
+            break;
+          case 'shockwave':
+            this.effects.createShockwave(attackResult, currentTime);
+            break;
+          case 'beam':
+            this.effects.createBeam(attackResult, currentTime);
+            break;
+          case 'heal':
+            this.healAllies(attackResult);
+            break;
+          case 'summon':
+            this.summonMinions(attackResult);
+            break;
+        }
+      }
+    }
+
+    // Enemies moved - grenade explosions below query the grid
+    this.entityManager.updateSpatialIndex();
+
+    // Tight same-type clusters fuse before bodies are pushed apart
+    this.mergeSystem.update(currentTime);
+
+    // Solid bodies - enemies spread out and stop at the player's edge
+    this.collisionSystem.resolveEnemyBodies(width, height);
+
+    // Update projectiles (movement, expire, off-screen removal)
+    const projectiles = this.entityManager.getActiveProjectiles();
+    for (const projectile of projectiles) {
+      if (projectile.homing) {
+        projectile.steerTowards(player.position, deltaSeconds);
+      }
+      projectile.update(deltaSeconds);
+      if (projectile.isActive) {
+        this.obstacleSystem.collideProjectile(projectile);
+      }
+
+      // Remove expired - but check if grenade should explode first
+      if (!projectile.isActive) {
+        // Enemy grenades explode on landing
+        if (projectile.lob && projectile.shouldExplodeOnExpire && projectile.explosive) {
+          this.combatSystem.triggerEnemyExplosion(
+            projectile.position,
+            projectile.explosive.explosionRadius,
+            projectile.explosive.explosionDamage,
+            currentTime,
+            projectile.id,
+          );
+        } else if (
+          projectile.shouldExplodeOnExpire &&
+          projectile.isExplosive() &&
+          projectile.explosive
+        ) {
+          // Grenades explode when they reach their target distance
+          const expRadius = projectile.explosive.explosionRadius * player.explosionRadius;
+          const isMini = projectile.type === ProjectileType.MINI_BANANA;
+          this.combatSystem.triggerExplosion(
+            projectile.position,
+            expRadius,
+            projectile.damage * player.damageMultiplier,
+            currentTime,
+            projectile.explosive.visualEffect,
+            isMini,
+            projectile.onHitEffects,
+            projectile.damageType,
+          );
+        }
+        this.entityManager.removeProjectile(projectile.id);
+        continue;
+      }
+
+      // Off screen check - destroy projectiles that left the screen
+      if (
+        projectile.position.x < -50 ||
+        projectile.position.x > width + 50 ||
+        projectile.position.y < -50 ||
+        projectile.position.y > height + 50
+      ) {
+        projectile.destroy();
+      }
+    }
+
+    // Update deployables (mines) - just movement/animation
+    const deployables = this.entityManager.getActiveDeployables();
+    for (const deployable of deployables) {
+      deployable.update(deltaSeconds);
+    }
+
+    // Magnet attraction - only works if player has magnet item
+    const hasMagnet = player.items.includes('magnet');
+    if (hasMagnet) {
+      const inRange = this.entityManager.getPickupsInRadius(player.position, player.pickupRange);
+      for (const pickup of inRange) {
+        pickup.isAttracted = true;
+      }
+    }
+
+    // Update pickups (movement, magnet attraction)
+    const pickups = this.entityManager.getActivePickups();
+    for (const pickup of pickups) {
+      pickup.update(deltaSeconds);
+
+      if (!pickup.isActive) continue;
+
+      if (hasMagnet && pickup.isAttracted) {
+        const distToPlayer = distance(pickup.position, player.position);
+        const dx = player.position.x - pickup.position.x;
+        const dy = player.position.y - pickup.position.y;
+        if (distToPlayer > 0) {
+          // Scale attraction speed:
+          // 1. Base speed = player speed * multiplier (always faster than player)
+          // 2. Distance factor modulates speed based on proximity
+          const speedMultiplier = GAME_BALANCE.pickup.playerSpeedMultiplier;
+          const minFactor = GAME_BALANCE.pickup.minDistanceFactor;
+          const maxFactor = GAME_BALANCE.pickup.maxDistanceFactor;
+          // Clamp normalized distance to [0, 1] to prevent weird behavior when outside range
+          const normalizedDistance = Math.min(1, distToPlayer / player.pickupRange);
+          // Interpolate from maxFactor (close) to minFactor (far)
+          const distanceFactor = maxFactor - (maxFactor - minFactor) * normalizedDistance;
+          // Player speed is px per 60fps frame - scale to tick length
+          const magnetSpeed = player.speed * speedMultiplier * distanceFactor * deltaSeconds * 60;
+
+          pickup.position.x += (dx / distToPlayer) * magnetSpeed;
+          pickup.position.y += (dy / distToPlayer) * magnetSpeed;
+        }
+      }
+    }
+
+    // === Collision Detection & Combat Processing ===
+    this.entityManager.updateSpatialIndex();
+    // All collision handling is delegated to CollisionSystem + CombatSystem
+    const collisions = this.collisionSystem.checkAll();
+    this.combatSystem.processCollisions(collisions, currentTime);
+
+    // Update shockwaves
+    this.updateShockwaves(currentTime);
+
+    // Update beams - they follow the shooter and vanish when it dies
+    this.effects.updateBeams(currentTime, (ownerId) => {
+      const owner = this.entityManager.getEnemy(ownerId);
+      return owner?.isActive && !owner.isDead() ? owner.position : null;
+    });
+    this.combatSystem.processBeamHits(this.effects.getFiringBeams(), currentTime);
+
+    // Lava, acid, electric fields and meteors hurt both sides
+    this.combatSystem.processHazardHits(this.effects.updateHazards(currentTime), currentTime);
+
+    // Burn and poison ticks, status timers
+    this.combatSystem.processStatusEffects(deltaSeconds, currentTime);
+
+    // Cleanup
+    this.entityManager.removeInactive();
+
+    return false;
+  }
+
+  /**
+   * Nearest intact lure with the enemy in its attraction radius.
+   * Bosses aren't fooled.
+   */
+  private findLure(enemy: Enemy, lures: readonly Deployable[]): Deployable | null {
+    if (enemy.isBoss) return null;
+
+    let nearest: Deployable | null = null;
+    let nearestDist = Infinity;
+    for (const lure of lures) {
+      if (!lure.isActive) continue;
+      const dist = distance(enemy.position, lure.position);
+      if (dist <= lure.lure!.radius && dist < nearestDist) {
+        nearest = lure;
+        nearestDist = dist;
+      }
+    }
+    return nearest;
+  }
+
+  // ============ Combat Effects ============
+
+  /**
+   * Create an enemy projectile from attack data.
+   * Flying bullets inherit the shooter's velocity, lobbed grenades fly to their spot.
+   */
+  private spawnEnemyBullet(enemy: Enemy, bullet: EnemyBulletData): void {
+    const config: ProjectileConfig = {
+      position: { x: bullet.x, y: bullet.y },
+      radius: Math.floor(enemy.radius * 0.15), // default 6
+      type: ProjectileType.ENEMY_BULLET,
+      damage: bullet.damage,
+      ownerId: enemy.id,
+      color: bullet.color,
+      maxDistance: 1000,
+      onHitEffects: enemy.onHitEffects,
+    };
+
+    const { behavior } = bullet;
+    switch (behavior?.type) {
+      case 'sine':
+        config.type = ProjectileType.ENEMY_SINE_BULLET;
+        config.sine = {
+          amplitude: behavior.amplitude,
+          frequency: behavior.frequency,
+          phase: behavior.phase,
+        };
+        break;
+      case 'homing':
+        config.type = ProjectileType.ENEMY_MISSILE;
+        config.homing = { turnRate: behavior.turnRate };
+        config.lifetime = behavior.lifetime;
+        config.maxDistance = 0;
+        break;
+      case 'lobbed':
+        config.type = ProjectileType.ENEMY_GRENADE;
+        config.lob = { target: behavior.target, flightTime: behavior.flightTime, arcHeight: 80 };
+        config.explosive = {
+          explosionRadius: behavior.explosionRadius,
+          explosionDamage: bullet.damage,
+          visualEffect: VisualEffect.FIRE,
+        };
+        config.maxDistance = 0;
+        break;
+      case 'orb':
+        config.type = ProjectileType.ENEMY_ORB;
+        config.radius = behavior.radius;
+        config.shootable = { hp: behavior.hp };
+        break;
+      case undefined:
+        break;
+    }
+
+    const projectile = this.entityManager.createProjectile(config);
+    if (!projectile.lob) {
+      // Add enemy velocity to projectile (velocity inheritance)
+      const enemyVel = enemy.getVelocity();
+      projectile.setVelocity(bullet.vx + enemyVel.vx, bullet.vy + enemyVel.vy);
+    }
+    this.entityManager.addProjectile(projectile);
+  }
+
+  /**
+   * Healer pulse - restores HP of regular allies in range, never the healer or bosses
+   */
+  private healAllies(heal: HealAttackResult): void {
+    const position = { x: heal.x, y: heal.y };
+    let healed = 0;
+
+    for (const ally of this.entityManager.getEnemiesInRadius(position, heal.radius)) {
+      if (ally.id === heal.ownerId || ally.isBoss || ally.isDead() || ally.hp >= ally.maxHp) {
+        continue;
+      }
+      ally.heal(ally.maxHp * heal.amount);
+      healed++;
+    }
+
+    EventBus.emit('enemiesHealed', { position, radius: heal.radius, healed });
+  }
+
+  /**
+   * Summoner call - minions appear in a ring around the summoner, up to its alive limit.
+   * Minions drop no gold, so a summoner can't be farmed.
+   */
+  private summonMinions(summon: SummonAttackResult): void {
+    let alive = 0;
+    for (const enemy of this.entityManager.getActiveEnemies()) {
+      if (enemy.summonerId === summon.ownerId) alive++;
+    }
+
+    const count = Math.min(summon.count, summon.maxAlive - alive);
+    for (let i = 0; i < count; i++) {
+      const angle = (TWO_PI * i) / count;
+      const minion = this.entityManager.createEnemy({
+        position: {
+          x: summon.x + Math.cos(angle) * SUMMON_DISTANCE,
+          y: summon.y + Math.sin(angle) * SUMMON_DISTANCE,
+        },
+        type: summon.enemyType,
+      });
+      this.obstacleSystem.pushOut(minion.position, minion.radius);
+      minion.summonerId = summon.ownerId;
+      minion.goldValue = 0;
+      this.entityManager.addEnemy(minion);
+    }
+
+    if (count > 0) {
+      EventBus.emit('enemiesSummoned', { position: { x: summon.x, y: summon.y }, count });
+    }
+  }
+
+  private updateShockwaves(currentTime: number): void {
+    const player = this.entityManager.getPlayer();
+
+    const playerDied = this.effects.updateShockwaves(
+      {
+        x: player.position.x,
+        y: player.position.y,
+        dodge: player.dodge,
+        takeDamage: (damage: number, time: number) => player.takeDamage(damage, time),
+      },
+      currentTime,
+      () => {
+        EventBus.emit('playerDodged', undefined);
+      },
+    );
+
+    if (playerDied) {
+      // TODO: killed by, shockwave, maybe Killed by, could be displayed
+      EventBus.emit('playerDeath', { player, killedBy: null });
+    }
+  }
+}
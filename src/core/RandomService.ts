@@ -0,0 +1,215 @@
+/**
+ * Seeded randomness for gameplay.
+ * One run seed feeds independent named streams, so drawing extra numbers
+ * in one system (e.g. combat) never shifts the sequence of another (e.g. spawns).
+ */
+
+import {
+  CanvasBounds,
+  createSeededGenerator,
+  getSpawnPoint,
+  getSpawnPointOnSide,
+  hashString,
+  randomAngle,
+  randomChance,
+  randomElement,
+  randomElementStrict,
+  randomInt,
+  randomPointInCircle,
+  randomRange,
+  RandomGenerator,
+  ScreenSide,
+  shuffleArray,
+  weightedRandom,
+} from '@/utils/random';
+import { Vector2 } from '@/utils/math';
+import { singleton } from 'tsyringe';
+
+// ============ Types ============
+
+export type RandomStreamName = 'spawns' | 'combat' | 'shop' | 'drops';
+
+const STREAM_NAMES: readonly RandomStreamName[] = ['spawns', 'combat', 'shop', 'drops'];
+
+/**
+ * Position of every stream - enough to continue a run exactly where it was saved
+ */
+export interface RandomState {
+  seed: number;
+  draws: Record<RandomStreamName, number>;
+}
+
+// ============ Random Stream ============
+
+/**
+ * Deterministic generator with the same helpers as utils/random.
+ */
+export class RandomStream {
+  private generator: RandomGenerator;
+
+  /** Numbers drawn since last reseed */
+  private draws: number = 0;
+
+  public constructor(seed: number) {
+    this.generator = createSeededGenerator(seed);
+  }
+
+  /**
+   * Restart sequence from given seed
+   * @param skip Numbers to discard, to resume a sequence part way through
+   */
+  public reseed(seed: number, skip: number = 0): void {
+    this.generator = createSeededGenerator(seed);
+    this.draws = 0;
+    for (let i = 0; i < skip; i++) {
+      this.next();
+    }
+  }
+
+  public getDrawCount(): number {
+    return this.draws;
+  }
+
+  /**
+   * Next float in range [0, 1)
+   */
+  public readonly next: RandomGenerator = () => {
+    this.draws++;
+    return this.generator();
+  };
+
+  public range(min: number, max: number): number {
+    return randomRange(min, max, this.next);
+  }
+
+  public int(min: number, max: number): number {
+    return randomInt(min, max, this.next);
+  }
+
+  public chance(chance: number): boolean {
+    return randomChance(chance, this.next);
+  }
+
+  public element<T>(array: readonly T[]): T | undefined {
+    return randomElement(array, this.next);
+  }
+
+  public elementStrict<T>(array: readonly T[]): T {
+    return randomElementStrict(array, this.next);
+  }
+
+  public shuffle<T>(array: T[]): T[] {
+    return shuffleArray(array, this.next);
+  }
+
+  public angle(): number {
+    return randomAngle(this.next);
+  }
+
+  public pointInCircle(center: Vector2, radius: number): Vector2 {
+    return randomPointInCircle(center, radius, this.next);
+  }
+
+  public spawnPoint(canvas: CanvasBounds, margin?: number): Vector2 {
+    return getSpawnPoint(canvas, margin, this.next);
+  }
+
+  public spawnPointOnSide(canvas: CanvasBounds, side: ScreenSide, margin?: number): Vector2 {
+    return getSpawnPointOnSide(canvas, side, margin, this.next);
+  }
+
+  public weighted<T>(items: readonly T[], weights: readonly number[]): T {
+    return weightedRandom(items, weights, this.next);
+  }
+}
+
+// ============ Random Service ============
+
+@singleton()
+export class RandomService {
+  private seed: number;
+  private streams: Record<RandomStreamName, RandomStream>;
+
+  public constructor() {
+    this.seed = RandomService.generateSeed();
+    this.streams = {
+      spawns: new RandomStream(0),
+      combat: new RandomStream(0),
+      shop: new RandomStream(0),
+      drops: new RandomStream(0),
+    };
+    this.setSeed(this.seed);
+  }
+
+  /**
+   * Fresh unseeded value - the only place allowed to use Math.random
+   */
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Reset all streams to start of sequence for given seed
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    for (const name of STREAM_NAMES) {
+      this.streams[name].reseed(hashString(`${this.seed}:${name}`));
+    }
+  }
+
+  /**
+   * Start new run with a random (or given) seed
+   * @returns Seed in use
+   */
+  public newRun(seed: number = RandomService.generateSeed()): number {
+    this.setSeed(seed);
+    return this.seed;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getState(): RandomState {
+    return {
+      seed: this.seed,
+      draws: {
+        spawns: this.streams.spawns.getDrawCount(),
+        combat: this.streams.combat.getDrawCount(),
+        shop: this.streams.shop.getDrawCount(),
+        drops: this.streams.drops.getDrawCount(),
+      },
+    };
+  }
+
+  /**
+   * Continue sequences from a saved state
+   */
+  public restoreState(state: RandomState): void {
+    this.seed = state.seed >>> 0;
+    for (const name of STREAM_NAMES) {
+      this.streams[name].reseed(hashString(`${this.seed}:${name}`), state.draws[name]);
+    }
+  }
+
+  public stream(name: RandomStreamName): RandomStream {
+    return this.streams[name];
+  }
+
+  public get spawns(): RandomStream {
+    return this.streams.spawns;
+  }
+
+  public get combat(): RandomStream {
+    return this.streams.combat;
+  }
+
+  public get shop(): RandomStream {
+    return this.streams.shop;
+  }
+
+  public get drops(): RandomStream {
+    return this.streams.drops;
+  }
+}
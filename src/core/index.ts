@@ -1 +1,3 @@
 export * from './Game';
+export * from './RandomService';
+export * from './GameWorld';
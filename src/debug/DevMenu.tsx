@@ -1,8 +1,11 @@
 import { SHOP_ITEMS } from '@/config/shop.config';
-import { ENEMY_TYPES } from '@/domain/enemies/config';
+import { HAZARDS } from '@/config/hazards.config';
+import { WAVE_EVENTS } from '@/config/waveEvents.config';
+import { isBossType } from '@/domain/enemies/bosses';
 import { WEAPON_TYPES } from '@/domain/weapons/config';
 import { WeaponType } from '@/domain/weapons/type';
-import { EnemyType } from '@/types/enums';
+import { PoolStats } from '@/managers/ObjectPool';
+import { EnemyType, HazardType, WaveEventType } from '@/types/enums';
 import { getEnemyDisplayName } from '@/utils';
 import { JSX } from 'preact';
 import { useEffect, useMemo, useState } from 'preact/hooks';
@@ -37,7 +40,7 @@ function getAvailableWeapons(): SelectOption[] {
 
 function getAvailableBosses(): SelectOption[] {
   return Object.values(EnemyType)
-    .filter((type) => ENEMY_TYPES[type].isBoss)
+    .filter((type) => isBossType(type))
     .map((type) => ({
       value: type,
       label: getEnemyDisplayName(type),
@@ -46,13 +49,27 @@ function getAvailableBosses(): SelectOption[] {
 
 function getAvailableEnemies(): SelectOption[] {
   return Object.values(EnemyType)
-    .filter((type) => !ENEMY_TYPES[type].isBoss)
+    .filter((type) => !isBossType(type))
     .map((type) => ({
       value: type,
       label: getEnemyDisplayName(type),
     }));
 }
 
+function getAvailableWaveEvents(): SelectOption[] {
+  return Object.values(WaveEventType).map((type) => ({
+    value: type,
+    label: WAVE_EVENTS[type].warning,
+  }));
+}
+
+function getAvailableHazards(): SelectOption[] {
+  return Object.values(HazardType).map((type) => ({
+    value: type,
+    label: HAZARDS[type].name,
+  }));
+}
+
 // ============ Section Component ============
 
 interface DevMenuSectionProps {
@@ -69,6 +86,36 @@ function DevMenuSection({ title, children }: DevMenuSectionProps): JSX.Element {
   );
 }
 
+// ============ Pool Stats ============
+
+/** Pool stats refresh interval while the menu is open */
+const POOL_STATS_INTERVAL = 500; // ms
+
+function PoolStatsTable({ stats }: { stats: PoolStats[] }): JSX.Element {
+  return (
+    <table className="dev-menu-pools">
+      <thead>
+        <tr>
+          <th>Pool</th>
+          <th>Free</th>
+          <th>New</th>
+          <th>Reused</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map((pool) => (
+          <tr key={pool.name}>
+            <td>{pool.name}</td>
+            <td>{pool.free}</td>
+            <td>{pool.created}</td>
+            <td>{pool.reused}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 // ============ Main DevMenu Component ============
 
 export function DevMenu(): JSX.Element | null {
@@ -84,15 +131,20 @@ export function DevMenu(): JSX.Element | null {
   const [selectedWeapon, setSelectedWeapon] = useState('');
   const [selectedBoss, setSelectedBoss] = useState('');
   const [selectedEnemy, setSelectedEnemy] = useState('');
+  const [selectedWaveEvent, setSelectedWaveEvent] = useState<string>(WaveEventType.HORDE);
+  const [selectedHazard, setSelectedHazard] = useState<string>(HazardType.LAVA);
   const [enemyCount, setEnemyCount] = useState('1');
   const [godMode, setGodMode] = useState(false);
   const [showEnemyCount, setShowEnemyCount] = useState(false);
+  const [poolStats, setPoolStats] = useState<PoolStats[]>([]);
 
   // Dropdown options (memoized)
   const items = useMemo(() => getAvailableItems(), []);
   const weapons = useMemo(() => getAvailableWeapons(), []);
   const bosses = useMemo(() => getAvailableBosses(), []);
   const enemies = useMemo(() => getAvailableEnemies(), []);
+  const waveEvents = useMemo(() => getAvailableWaveEvents(), []);
+  const hazards = useMemo(() => getAvailableHazards(), []);
 
   // Set default selections when options load
   useEffect(() => {
@@ -129,6 +181,19 @@ export function DevMenu(): JSX.Element | null {
     }
   }, [isVisible, service]);
 
+  // Poll pool stats while visible
+  useEffect(() => {
+    if (!isVisible) return;
+
+    setPoolStats(service.getPoolStats());
+    const interval = window.setInterval(() => {
+      setPoolStats(service.getPoolStats());
+    }, POOL_STATS_INTERVAL);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [isVisible, service]);
+
   // ============ Action Handlers ============
 
   const handleSkipToWave = (): void => {
@@ -221,6 +286,54 @@ export function DevMenu(): JSX.Element | null {
               Finish
             </button>
           </div>
+          <div className="dev-menu-row">
+            <span className="dev-menu-label">Event:</span>
+            <select
+              value={selectedWaveEvent}
+              onChange={(e) => {
+                setSelectedWaveEvent((e.target as HTMLSelectElement).value);
+              }}
+            >
+              {waveEvents.map((event) => (
+                <option key={event.value} value={event.value}>
+                  {event.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="danger"
+              onClick={() => {
+                service.triggerWaveEvent(selectedWaveEvent as WaveEventType);
+              }}
+            >
+              Trigger
+            </button>
+          </div>
+          <div className="dev-menu-row">
+            <span className="dev-menu-label">Hazard:</span>
+            <select
+              value={selectedHazard}
+              onChange={(e) => {
+                setSelectedHazard((e.target as HTMLSelectElement).value);
+              }}
+            >
+              {hazards.map((hazard) => (
+                <option key={hazard.value} value={hazard.value}>
+                  {hazard.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="danger"
+              onClick={() => {
+                service.triggerHazard(selectedHazard as HazardType);
+              }}
+            >
+              Trigger
+            </button>
+          </div>
         </DevMenuSection>
 
         {/* Items */}
@@ -359,6 +472,11 @@ export function DevMenu(): JSX.Element | null {
           </div>
         </DevMenuSection>
 
+        {/* Object Pools */}
+        <DevMenuSection title="Pools">
+          <PoolStatsTable stats={poolStats} />
+        </DevMenuSection>
+
         <div className="dev-menu-info">Press F1 to toggle</div>
       </div>
     </div>
@@ -1,12 +1,14 @@
 import { SHOP_ITEMS } from '@/config/shop.config';
 import { Game } from '@/core/Game';
+import { GameWorld } from '@/core/GameWorld';
 import { WeaponType } from '@/domain/weapons/type';
 import { WeaponManager } from '@/domain/weapons/WeaponManager';
 import { EventBus } from '@/events/EventBus';
 import { EntityManager } from '@/managers/EntityManager';
+import { PoolStats } from '@/managers/ObjectPool';
 import { RenderSystem } from '@/systems/RenderSystem';
 import { WaveManager } from '@/systems/WaveManager';
-import { EnemyType } from '@/types/enums';
+import { EnemyType, HazardType, WaveEventType } from '@/types/enums';
 import { getSpawnPoint } from '@/utils';
 import { singleton } from 'tsyringe';
 import { ConfigService } from '../config/ConfigService';
@@ -37,6 +39,7 @@ export class DevMenuService {
     private renderSystem: RenderSystem,
     private weaponManager: WeaponManager,
     private configService: ConfigService,
+    private gameWorld: GameWorld,
   ) {}
 
   // ============ Wave Control ============
@@ -56,6 +59,18 @@ export class DevMenuService {
     console.log(`[DevMenu] Finished wave, transitioning to shop`);
   }
 
+  public triggerWaveEvent(type: WaveEventType): void {
+    if (!this.waveManager.isWaveActive) return;
+    this.waveManager.triggerEvent(type);
+    console.log(`[DevMenu] Triggered wave event: ${type}`);
+  }
+
+  public triggerHazard(type: HazardType): void {
+    if (!this.waveManager.isWaveActive) return;
+    this.waveManager.triggerHazard(type, this.configService.getCanvasBounds());
+    console.log(`[DevMenu] Triggered hazard: ${type}`);
+  }
+
   public killAllEnemies(): void {
     getGame().killAllEnemies();
     console.log(`[DevMenu] Killed all enemies`);
@@ -134,4 +149,11 @@ export class DevMenuService {
   public setShowEnemyCount(show: boolean): void {
     this.renderSystem.setShowEnemyCount(show);
   }
+
+  /**
+   * Object pool counters (entities and effect particles)
+   */
+  public getPoolStats(): PoolStats[] {
+    return [...this.entityManager.getPoolStats(), this.gameWorld.effects.getPoolStats()];
+  }
 }
@@ -0,0 +1,115 @@
+import { EnemyType, HazardType } from '@/types/enums';
+import { ArenaDefinition, ArenaLayout, ArenaType, ObstacleType } from './type';
+
+/**
+ * Classic arena layout (900x700).
+ * The middle stays clear - the player starts and respawns there between waves.
+ */
+export const DEFAULT_ARENA_LAYOUT: ArenaLayout = {
+  obstacles: [
+    // Pillars around the center
+    { type: ObstacleType.PILLAR, x: 225, y: 175, radius: 22 },
+    { type: ObstacleType.PILLAR, x: 675, y: 175, radius: 22 },
+    { type: ObstacleType.PILLAR, x: 225, y: 525, radius: 22 },
+    { type: ObstacleType.PILLAR, x: 675, y: 525, radius: 22 },
+
+    // Short walls guarding the sides
+    { type: ObstacleType.WALL, x: 390, y: 110, width: 120, height: 16 },
+    { type: ObstacleType.WALL, x: 390, y: 574, width: 120, height: 16 },
+    { type: ObstacleType.WALL, x: 110, y: 290, width: 16, height: 120 },
+    { type: ObstacleType.WALL, x: 774, y: 290, width: 16, height: 120 },
+
+    // Crates for cover near the middle
+    { type: ObstacleType.CRATE, x: 320, y: 400, width: 32, height: 32 },
+    { type: ObstacleType.CRATE, x: 548, y: 268, width: 32, height: 32 },
+  ],
+};
+
+/** Basalt pillars around a lava field (1000x760) */
+const VOLCANO_LAYOUT: ArenaLayout = {
+  obstacles: [
+    { type: ObstacleType.PILLAR, x: 200, y: 160, radius: 26 },
+    { type: ObstacleType.PILLAR, x: 800, y: 160, radius: 26 },
+    { type: ObstacleType.PILLAR, x: 200, y: 600, radius: 26 },
+    { type: ObstacleType.PILLAR, x: 800, y: 600, radius: 26 },
+    { type: ObstacleType.PILLAR, x: 500, y: 140, radius: 30 },
+    { type: ObstacleType.PILLAR, x: 500, y: 620, radius: 30 },
+
+    { type: ObstacleType.WALL, x: 140, y: 340, width: 16, height: 80 },
+    { type: ObstacleType.WALL, x: 844, y: 340, width: 16, height: 80 },
+  ],
+};
+
+/** Dead trees and sunken crates in a wide swamp (1100x700) */
+const SWAMP_LAYOUT: ArenaLayout = {
+  obstacles: [
+    { type: ObstacleType.PILLAR, x: 260, y: 200, radius: 18 },
+    { type: ObstacleType.PILLAR, x: 840, y: 200, radius: 18 },
+    { type: ObstacleType.PILLAR, x: 260, y: 500, radius: 18 },
+    { type: ObstacleType.PILLAR, x: 840, y: 500, radius: 18 },
+    { type: ObstacleType.PILLAR, x: 550, y: 120, radius: 18 },
+    { type: ObstacleType.PILLAR, x: 550, y: 580, radius: 18 },
+
+    { type: ObstacleType.CRATE, x: 400, y: 300, width: 32, height: 32 },
+    { type: ObstacleType.CRATE, x: 668, y: 370, width: 32, height: 32 },
+    { type: ObstacleType.CRATE, x: 150, y: 330, width: 40, height: 40 },
+    { type: ObstacleType.CRATE, x: 910, y: 330, width: 40, height: 40 },
+  ],
+};
+
+export const ARENAS: Record<ArenaType, ArenaDefinition> = {
+  [ArenaType.CLASSIC]: {
+    name: 'Arena',
+    emoji: '🏟️',
+    description: 'Klasyczna arena - wszystkiego po trochu',
+    width: 900,
+    height: 700,
+    theme: { background: '#16213e', grid: '#1a2744', gridSize: 40 },
+    layout: DEFAULT_ARENA_LAYOUT,
+    hazards: [
+      { type: HazardType.LAVA, weight: 30 },
+      { type: HazardType.ACID, weight: 30 },
+      { type: HazardType.ELECTRIC, weight: 20 },
+      { type: HazardType.METEOR, weight: 20 },
+    ],
+  },
+  [ArenaType.VOLCANO]: {
+    name: 'Wulkan',
+    emoji: '🌋',
+    description: 'Lawa i meteory, więcej wybuchowych wrogów',
+    width: 1000,
+    height: 760,
+    theme: { background: '#2a1410', grid: '#3a1c14', gridSize: 40 },
+    layout: VOLCANO_LAYOUT,
+    hazards: [
+      { type: HazardType.LAVA, weight: 45 },
+      { type: HazardType.METEOR, weight: 40 },
+      { type: HazardType.ELECTRIC, weight: 15 },
+    ],
+    enemyWeights: {
+      [EnemyType.EXPLODER]: 2,
+      [EnemyType.BRUTE]: 1.5,
+      [EnemyType.SWARM]: 0.5,
+      [EnemyType.GHOST]: 0.5,
+    },
+  },
+  [ArenaType.SWAMP]: {
+    name: 'Bagno',
+    emoji: '🐸',
+    description: 'Szerokie bagno pełne kwasu, roje i duchy',
+    width: 1100,
+    height: 700,
+    theme: { background: '#15261c', grid: '#1c3325', gridSize: 50 },
+    layout: SWAMP_LAYOUT,
+    hazards: [
+      { type: HazardType.ACID, weight: 60 },
+      { type: HazardType.ELECTRIC, weight: 40 },
+    ],
+    enemyWeights: {
+      [EnemyType.SWARM]: 1.5,
+      [EnemyType.ZIGZAG]: 1.5,
+      [EnemyType.GHOST]: 2,
+      [EnemyType.SPRINTER]: 0.5,
+    },
+  },
+};
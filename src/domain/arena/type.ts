@@ -0,0 +1,79 @@
+import { HazardWeight } from '@/config/waves.config';
+import { EnemyType } from '@/types/enums';
+
+export enum ObstacleType {
+  PILLAR = 'pillar',
+  WALL = 'wall',
+  CRATE = 'crate',
+}
+
+/**
+ * Round obstacle, positioned by its center
+ */
+export interface PillarObstacle {
+  type: ObstacleType.PILLAR;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Axis-aligned box, positioned by its top-left corner
+ */
+export interface BoxObstacle {
+  type: ObstacleType.WALL | ObstacleType.CRATE;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Obstacle = PillarObstacle | BoxObstacle;
+
+/**
+ * What a projectile does when it runs into an obstacle
+ * - stop: destroyed (explosives detonate on the spot)
+ * - reflect: bounces off the surface
+ * - pass: flies over
+ */
+export type ObstacleHit = 'stop' | 'reflect' | 'pass';
+
+/**
+ * Static arena geometry in arena pixels
+ */
+export interface ArenaLayout {
+  obstacles: Obstacle[];
+}
+
+export enum ArenaType {
+  CLASSIC = 'classic',
+  VOLCANO = 'volcano',
+  SWAMP = 'swamp',
+}
+
+/**
+ * Ground colors drawn under everything
+ */
+export interface ArenaTheme {
+  background: string;
+  grid: string;
+  /** Grid cell size in pixels */
+  gridSize: number;
+}
+
+/**
+ * Playable arena - picked on the character select screen
+ */
+export interface ArenaDefinition {
+  name: string;
+  emoji: string;
+  description: string;
+  width: number;
+  height: number;
+  theme: ArenaTheme;
+  layout: ArenaLayout;
+  /** Replaces the wave set's hazard pool */
+  hazards: HazardWeight[];
+  /** Multipliers on regular spawn weights (0 removes the type) - special events are untouched */
+  enemyWeights?: Partial<Record<EnemyType, number>>;
+}
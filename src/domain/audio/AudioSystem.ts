@@ -223,6 +223,27 @@ export class AudioSystem {
     EventBus.on('bossSpawned', () => {
       this.play('bossSpawn');
     });
+    EventBus.on('bossPhaseChanged', () => {
+      this.play('bossPhase');
+    });
+    EventBus.on('enemiesMerged', () => {
+      this.play('enemyMerge');
+    });
+    EventBus.on('trapSnapped', () => {
+      this.play('trapSnap');
+    });
+    EventBus.on('projectileReflected', () => {
+      this.play('projectileReflect');
+    });
+    EventBus.on('enemiesHealed', ({ healed }) => {
+      if (healed > 0) this.play('enemyHeal');
+    });
+    EventBus.on('enemiesSummoned', () => {
+      this.play('enemySummon');
+    });
+    EventBus.on('waveEventWarning', () => {
+      this.play('waveEventWarning');
+    });
 
     // Shop
     EventBus.on('itemPurchased', () => {
@@ -234,6 +255,9 @@ export class AudioSystem {
     EventBus.on('weaponSold', () => {
       this.play('sell');
     });
+    EventBus.on('weaponEvolved', () => {
+      this.play('weaponEvolved');
+    });
     EventBus.on('shopError', () => {
       this.play('error');
     });
@@ -97,6 +97,50 @@ export const SOUND_DEFINITIONS: Record<string, SoundDefinition> = {
     cooldown: 20,
   },
 
+  turret: {
+    steps: [{ type: 'tone', frequency: 900, duration: 0.03, oscillator: 'square', volume: 0.15 }],
+    cooldown: 60,
+  },
+
+  trap: {
+    steps: [{ type: 'tone', frequency: 350, duration: 0.06, oscillator: 'triangle', volume: 0.25 }],
+  },
+
+  lure: {
+    steps: [
+      { type: 'tone', frequency: 600, duration: 0.06, oscillator: 'sine', volume: 0.25 },
+      { type: 'tone', frequency: 800, duration: 0.06, oscillator: 'sine', volume: 0.2, delay: 70 },
+    ],
+  },
+
+  revolver: {
+    steps: [
+      { type: 'tone', frequency: 650, duration: 0.06, oscillator: 'square', volume: 0.35 },
+      { type: 'noise', duration: 0.04, volume: 0.2 },
+    ],
+  },
+
+  clusterMines: {
+    steps: [
+      { type: 'tone', frequency: 300, duration: 0.08, oscillator: 'square', volume: 0.25 },
+      {
+        type: 'tone',
+        frequency: 250,
+        duration: 0.06,
+        oscillator: 'triangle',
+        volume: 0.2,
+        delay: 60,
+      },
+    ],
+  },
+
+  railgun: {
+    steps: [
+      { type: 'tone', frequency: 1500, duration: 0.12, oscillator: 'sawtooth', volume: 0.3 },
+      { type: 'tone', frequency: 300, duration: 0.2, oscillator: 'sine', volume: 0.3 },
+    ],
+  },
+
   // ========== Explosion Sounds ==========
 
   explosion: {
@@ -190,6 +234,14 @@ export const SOUND_DEFINITIONS: Record<string, SoundDefinition> = {
     cooldown: 80,
   },
 
+  trapSnap: {
+    steps: [
+      { type: 'noise', duration: 0.05, volume: 0.3 },
+      { type: 'tone', frequency: 180, duration: 0.08, oscillator: 'square', volume: 0.3 },
+    ],
+    cooldown: 50,
+  },
+
   // ========== UI Sounds ==========
 
   purchase: {
@@ -214,6 +266,21 @@ export const SOUND_DEFINITIONS: Record<string, SoundDefinition> = {
     ],
   },
 
+  weaponEvolved: {
+    steps: [
+      { type: 'tone', frequency: 400, duration: 0.08, oscillator: 'triangle', volume: 0.3 },
+      {
+        type: 'tone',
+        frequency: 600,
+        duration: 0.08,
+        oscillator: 'triangle',
+        volume: 0.3,
+        delay: 80,
+      },
+      { type: 'tone', frequency: 900, duration: 0.15, oscillator: 'sine', volume: 0.4, delay: 160 },
+    ],
+  },
+
   error: {
     steps: [
       { type: 'tone', frequency: 200, duration: 0.1, oscillator: 'square', volume: 0.3 },
@@ -237,6 +304,79 @@ export const SOUND_DEFINITIONS: Record<string, SoundDefinition> = {
     ],
   },
 
+  enemyMerge: {
+    steps: [
+      { type: 'tone', frequency: 180, duration: 0.08, oscillator: 'sine', volume: 0.3 },
+      { type: 'tone', frequency: 120, duration: 0.15, oscillator: 'sine', volume: 0.35 },
+    ],
+  },
+
+  enemyHeal: {
+    steps: [
+      { type: 'tone', frequency: 500, duration: 0.1, oscillator: 'sine', volume: 0.2 },
+      { type: 'tone', frequency: 750, duration: 0.15, oscillator: 'sine', volume: 0.2, delay: 80 },
+    ],
+  },
+
+  enemySummon: {
+    steps: [
+      { type: 'tone', frequency: 90, duration: 0.2, oscillator: 'triangle', volume: 0.3 },
+      {
+        type: 'tone',
+        frequency: 140,
+        duration: 0.2,
+        oscillator: 'triangle',
+        volume: 0.3,
+        delay: 120,
+      },
+    ],
+  },
+
+  projectileReflect: {
+    steps: [
+      { type: 'tone', frequency: 1200, duration: 0.05, oscillator: 'triangle', volume: 0.2 },
+      { type: 'tone', frequency: 900, duration: 0.08, oscillator: 'triangle', volume: 0.2 },
+    ],
+  },
+
+  bossPhase: {
+    steps: [
+      { type: 'tone', frequency: 60, duration: 0.3, oscillator: 'sawtooth', volume: 0.4 },
+      { type: 'tone', frequency: 90, duration: 0.3, oscillator: 'sawtooth', volume: 0.4 },
+      { type: 'tone', frequency: 140, duration: 0.4, oscillator: 'sawtooth', volume: 0.5 },
+    ],
+  },
+
+  waveEventWarning: {
+    steps: [
+      { type: 'tone', frequency: 700, duration: 0.12, oscillator: 'square', volume: 0.3 },
+      {
+        type: 'tone',
+        frequency: 500,
+        duration: 0.12,
+        oscillator: 'square',
+        volume: 0.3,
+        delay: 150,
+      },
+      {
+        type: 'tone',
+        frequency: 700,
+        duration: 0.12,
+        oscillator: 'square',
+        volume: 0.3,
+        delay: 300,
+      },
+      {
+        type: 'tone',
+        frequency: 500,
+        duration: 0.2,
+        oscillator: 'square',
+        volume: 0.3,
+        delay: 450,
+      },
+    ],
+  },
+
   gameOver: {
     steps: [
       { type: 'tone', frequency: 400, duration: 0.2, oscillator: 'sawtooth', volume: 0.4 },
@@ -1,101 +1,159 @@
 import { GAME_BALANCE } from '@/config';
+import { OnHitEffect, STATUS_EFFECTS, StatusEffects } from '@/domain/status';
 import { Entity } from '@/entities';
-import { IHealth } from '@/types/components';
-import { EnemyType } from '@/types/enums';
+import { IHealth, IPoolable } from '@/types/components';
+import { DamageType, EnemyType } from '@/types/enums';
 import { clamp, randomElement, Vector2 } from '@/utils';
+import { RandomGenerator } from '@/utils/random';
 import { distance, TWO_PI } from '@/utils/math';
 import { ENEMY_TYPES } from './config';
-import { generateBossName } from './name';
+import { ELITE_AFFIXES, ELITE_STATS, EliteAffix } from './elites';
 import {
   AttackPattern,
   AttackResult,
+  ChargeBehavior,
+  DamageModifiers,
+  EnemyBehavior,
   EnemyBulletData,
   EnemyConfig,
   EnemyEntityConfig,
+  FlankBehavior,
 } from './type';
 
 /**
  * Enemy entity class.
- * Represents all enemy types including basic enemies and bosses.
+ * Regular enemies - bosses extend it with scripted phases (see bosses/Boss.ts).
  */
-export class Enemy extends Entity implements IHealth {
+export class Enemy extends Entity implements IHealth, IPoolable<EnemyEntityConfig> {
   /** Enemy type */
-  public readonly type: EnemyType;
-  public readonly config: EnemyConfig;
-  public color: string;
-  public speed: number;
+  public type!: EnemyType;
+  public config!: EnemyConfig;
+  public color!: string;
+  public speed!: number;
 
   // ============ Health Component ============
-  public hp: number;
-  public maxHp: number;
+  public hp!: number;
+  public maxHp!: number;
 
   // ============ Rewards ============
-  public xpValue: number;
-  public goldValue: number;
+  public xpValue!: number;
+  public goldValue!: number;
 
   /** Contact damage */
-  public damage: number;
+  public damage!: number;
+
+  /** Resistances and weaknesses per damage type */
+  public damageModifiers!: DamageModifiers;
 
   // ============ Special Properties ============
 
-  /** Boss flag */
-  public readonly isBoss: boolean;
+  /** Boss flag (set by Boss) */
+  public isBoss!: boolean;
 
-  /** Boss name (generated) */
-  public bossName: string | null = null;
+  /** Boss name (generated by Boss) */
+  public bossName!: string | null;
 
   /** Has top health bar (boss HP bar at top of screen) */
-  public hasTopHealthBar: boolean = false;
+  public hasTopHealthBar!: boolean;
 
   /** Ghost phasing effect */
-  public phasing: boolean;
+  public phasing!: boolean;
 
   /** Zigzag movement */
-  public zigzag: boolean;
+  public zigzag!: boolean;
+
+  /** Movement behavior (null = straight chase) */
+  public behavior!: EnemyBehavior | null;
+
+  /** Summoner that called this enemy in (null = spawned by the wave) */
+  public summonerId!: number | null;
 
   /** Explode on death */
-  public explodeOnDeath: boolean;
-  public explosionRadius: number;
-  public explosionDamage: number;
+  public explodeOnDeath!: boolean;
+  public explosionRadius!: number;
+  public explosionDamage!: number;
 
   /** Split on death */
-  public splitOnDeath: boolean;
-  public splitCount: number;
+  public splitOnDeath!: boolean;
+  public splitCount!: number;
 
   // ============ Shooting (for bosses/tanks) ============
 
   /** Can shoot projectiles */
-  public canShoot: boolean;
-  public fireRate: number;
-  public bulletSpeed: number;
-  public bulletDamage: number;
-  public attackPatterns: AttackPattern[];
-  public lastFireTime: number = 0;
+  public canShoot!: boolean;
+  public fireRate!: number;
+  public bulletSpeed!: number;
+  public bulletDamage!: number;
+  public attackPatterns!: AttackPattern[];
+  public lastFireTime!: number;
 
   // ============ Movement State ============
 
   /** Knockback velocity */
-  public knockbackX: number = 0;
-  public knockbackY: number = 0;
+  public knockbackX!: number;
+  public knockbackY!: number;
 
   /** Zigzag timer */
-  private zigzagTimer: number = 0;
-  private zigzagDir: number = 1;
+  private zigzagTimer!: number;
+  protected zigzagDir!: number;
+
+  // Charge state (charge behavior, boss charge phases)
+  private chargeTimer!: number;
+  private chargeDirX!: number;
+  private chargeDirY!: number;
+  /** Timing of the charge in progress */
+  private charge!: ChargeBehavior | null;
+
+  /** Flank behavior side (1 = clockwise, -1 = counter-clockwise) */
+  private flankSide!: number;
 
   /** Whether enemy has fully entered the arena */
-  public hasEnteredArena: boolean = false;
+  public hasEnteredArena!: boolean;
 
   /** Scale multiplier (for split enemies) */
-  public readonly scale: number;
+  public scale!: number;
+
+  /** Enemies fused into this one (1 = not merged, see MergeSystem) */
+  public mergeCount!: number;
+
+  /** Active burn, slow, freeze... */
+  public readonly statusEffects = new StatusEffects();
+
+  /** Status effects applied to the player by contact and bullets */
+  public onHitEffects!: readonly OnHitEffect[];
+
+  /** Elite affixes (empty for regular enemies, see elites/config.ts) */
+  public affixes!: EliteAffix[];
+
+  /** Hits the shielded affix still absorbs */
+  public shieldHits!: number;
 
   public constructor(entityConfig: EnemyEntityConfig) {
-    const config = ENEMY_TYPES[entityConfig.type];
     const scale = entityConfig.scale ?? 1;
 
     super({
       position: entityConfig.position,
-      radius: config.radius * scale,
+      radius: ENEMY_TYPES[entityConfig.type].radius * scale,
+    });
+    this.applyConfig(entityConfig);
+  }
+
+  /**
+   * Reinitialize for reuse from a pool
+   */
+  public reset(entityConfig: EnemyEntityConfig): void {
+    const scale = entityConfig.scale ?? 1;
+
+    this.resetEntity({
+      position: entityConfig.position,
+      radius: ENEMY_TYPES[entityConfig.type].radius * scale,
     });
+    this.applyConfig(entityConfig);
+  }
+
+  private applyConfig(entityConfig: EnemyEntityConfig): void {
+    const config = ENEMY_TYPES[entityConfig.type];
+    const scale = entityConfig.scale ?? 1;
 
     this.type = entityConfig.type;
     this.config = config;
@@ -109,11 +167,13 @@ export class Enemy extends Entity implements IHealth {
     this.damage = Math.floor(config.damage * scale);
     this.xpValue = Math.floor(config.xpValue * scale);
     this.goldValue = Math.floor(config.goldValue * scale);
+    this.damageModifiers = config.damageModifiers ?? {};
 
     // Special properties
-    this.isBoss = config.isBoss ?? false;
     this.phasing = config.phasing ?? false;
     this.zigzag = config.zigzag ?? false;
+    this.behavior = config.behavior ?? null;
+    this.summonerId = null;
 
     this.explodeOnDeath = config.explodeOnDeath ?? false;
     this.explosionRadius = (config.explosionRadius ?? 0) * scale;
@@ -121,6 +181,8 @@ export class Enemy extends Entity implements IHealth {
 
     this.splitOnDeath = config.splitOnDeath ?? false;
     this.splitCount = config.splitCount ?? 0;
+    this.onHitEffects = config.onHitEffects ?? [];
+    this.statusEffects.clear();
 
     // Shooting properties
     this.canShoot = config.canShoot ?? false;
@@ -128,16 +190,36 @@ export class Enemy extends Entity implements IHealth {
     this.bulletSpeed = config.bulletSpeed ?? 4;
     this.bulletDamage = Math.floor((config.bulletDamage ?? 15) * scale);
     this.attackPatterns = config.attackPatterns ?? ['single'];
-
-    // Boss name
-    if (this.isBoss) {
-      this.bossName = generateBossName();
-      this.hasTopHealthBar = true; // Boss uses top screen HP bar, not mini bar
-    }
+    this.lastFireTime = 0;
+
+    // Movement state
+    this.knockbackX = 0;
+    this.knockbackY = 0;
+    this.zigzagTimer = 0;
+    this.zigzagDir = 1;
+    this.resetCharge();
+    this.flankSide = this.id % 2 === 0 ? 1 : -1;
+    this.hasEnteredArena = false;
+    this.mergeCount = 1;
+
+    this.affixes = [];
+    this.shieldHits = 0;
+
+    // Boss state - Boss overrides after this runs
+    this.isBoss = false;
+    this.bossName = null;
+    this.hasTopHealthBar = false;
   }
 
   // ============ Health Interface ============
 
+  /**
+   * Multiplier of incoming damage of the given type (resistance or weakness)
+   */
+  public getDamageMultiplier(damageType: DamageType): number {
+    return this.damageModifiers[damageType] ?? 1;
+  }
+
   /**
    * Takes damage and applies knockback
    * @returns true if enemy died
@@ -165,6 +247,17 @@ export class Enemy extends Entity implements IHealth {
     return this.hp <= 0;
   }
 
+  /**
+   * Spends a shield charge instead of taking the hit
+   * @returns true if the hit was absorbed
+   */
+  public absorbHit(): boolean {
+    if (this.shieldHits <= 0) return false;
+
+    this.shieldHits--;
+    return true;
+  }
+
   /**
    * Heals the enemy
    */
@@ -179,16 +272,47 @@ export class Enemy extends Entity implements IHealth {
     return this.hp <= 0;
   }
 
+  /**
+   * Hits are ignored while true (boss phase transitions)
+   */
+  public isInvulnerable(): boolean {
+    return false;
+  }
+
   // ============ Movement ============
 
+  /**
+   * Apply a status effect (bosses shake off freeze, stun and root faster).
+   * Damage over time is scaled by the resistance to its type once, when it lands.
+   */
+  public applyStatus(effect: OnHitEffect): void {
+    if (this.isInvulnerable()) return;
+
+    const config = STATUS_EFFECTS[effect.type];
+    const isCrowdControl = config.preventsAttacks || config.speedMultiplier === 0;
+    const durationMultiplier =
+      this.isBoss && isCrowdControl ? GAME_BALANCE.boss.crowdControlMultiplier : 1;
+    const tickDamage =
+      (effect.tickDamage ?? config.tickDamage) * this.getDamageMultiplier(config.damageType);
+    this.statusEffects.apply({ ...effect, tickDamage }, durationMultiplier);
+  }
+
+  /**
+   * Weight when enemies push each other apart - proportional to body area
+   */
+  public get mass(): number {
+    return this.radius * this.radius;
+  }
+
   /**
    * Updates enemy state
    * @param deltaTime Time since last frame in seconds
    */
   public update(deltaTime: number): void {
-    // Reduce knockback
-    this.knockbackX *= 0.8;
-    this.knockbackY *= 0.8;
+    // Reduce knockback (20% per 60fps frame, scaled to actual step)
+    const decay = Math.pow(0.8, deltaTime * 60);
+    this.knockbackX *= decay;
+    this.knockbackY *= decay;
 
     // Zigzag timer update
     if (this.zigzag) {
@@ -203,46 +327,285 @@ export class Enemy extends Entity implements IHealth {
   /**
    * Moves enemy towards target (usually player)
    * Call this separately from update for more control
+   * @param deltaTime Time since last update in seconds
    */
   public moveTowardsTarget(
     target: Vector2,
-    _deltaTime: number,
+    deltaTime: number,
     canvasWidth: number,
     canvasHeight: number,
   ): void {
+    if (this.behavior) {
+      const velocity = this.getBehaviorVelocity(this.behavior, target, deltaTime);
+      this.applyMovement(velocity.x, velocity.y, deltaTime, canvasWidth, canvasHeight);
+      return;
+    }
+
     const dx = target.x - this.position.x;
     const dy = target.y - this.position.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
 
+    let moveX = 0;
+    let moveY = 0;
     if (dist > 0) {
-      let moveX = (dx / dist) * this.speed;
-      let moveY = (dy / dist) * this.speed;
+      moveX = (dx / dist) * this.speed;
+      moveY = (dy / dist) * this.speed;
 
       // Zigzag movement
       if (this.zigzag) {
         moveX += (-dy / dist) * this.speed * 0.8 * this.zigzagDir;
         moveY += (dx / dist) * this.speed * 0.8 * this.zigzagDir;
       }
+    }
+
+    this.applyMovement(moveX, moveY, deltaTime, canvasWidth, canvasHeight);
+  }
+
+  /**
+   * Keeps its distance from the target instead of closing in -
+   * such enemies aim at the target itself, not at a path around obstacles
+   */
+  public holdsDistance(): boolean {
+    return this.behavior?.type === 'kite';
+  }
+
+  private getBehaviorVelocity(
+    behavior: EnemyBehavior,
+    target: Vector2,
+    deltaTime: number,
+  ): Vector2 {
+    switch (behavior.type) {
+      case 'kite':
+        return this.getOrbitVelocity(target, behavior.preferredDistance);
+      case 'charge':
+        return this.getChargeVelocity(target, deltaTime, behavior);
+      case 'flank':
+        return this.getFlankVelocity(target, behavior);
+    }
+  }
+
+  /**
+   * Pull towards a ring around the target, the rest of the speed goes sideways
+   */
+  protected getOrbitVelocity(target: Vector2, orbitDistance: number): Vector2 {
+    const dx = target.x - this.position.x;
+    const dy = target.y - this.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist === 0) return { x: 0, y: 0 };
+
+    const nx = dx / dist;
+    const ny = dy / dist;
+    const radial = clamp((dist - orbitDistance) / orbitDistance, -1, 1);
+    const tangential = 1 - Math.abs(radial);
+
+    return {
+      x: (nx * radial - ny * tangential) * this.speed,
+      y: (ny * radial + nx * tangential) * this.speed,
+    };
+  }
+
+  /**
+   * Approach, stop and aim, then dash along the locked direction
+   * @param dashSpeedMultiplier Scales charge.dashSpeed (boss enrage)
+   */
+  protected getChargeVelocity(
+    target: Vector2,
+    deltaTime: number,
+    charge: ChargeBehavior,
+    dashSpeedMultiplier: number = 1,
+  ): Vector2 {
+    this.charge = charge;
+    this.chargeTimer += deltaTime;
+
+    const windupEnd = charge.approachTime + charge.windupTime;
+    const dashEnd = windupEnd + charge.dashTime;
+
+    if (this.chargeTimer >= dashEnd) {
+      this.chargeTimer = 0;
+    }
+
+    const dx = target.x - this.position.x;
+    const dy = target.y - this.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (this.chargeTimer < charge.approachTime) {
+      if (dist === 0) return { x: 0, y: 0 };
+      return { x: (dx / dist) * this.speed, y: (dy / dist) * this.speed };
+    }
 
-      this.position.x += moveX + this.knockbackX;
-      this.position.y += moveY + this.knockbackY;
+    if (this.chargeTimer < windupEnd) {
+      // Keep aiming until the dash starts
+      if (dist > 0) {
+        this.chargeDirX = dx / dist;
+        this.chargeDirY = dy / dist;
+      }
+      return { x: 0, y: 0 };
     }
 
-    // Check if enemy entered arena
-    const isFullyInside =
-      this.position.x > this.radius &&
-      this.position.x < canvasWidth - this.radius &&
-      this.position.y > this.radius &&
-      this.position.y < canvasHeight - this.radius;
+    const dashSpeed = charge.dashSpeed * dashSpeedMultiplier;
+    return { x: this.chargeDirX * dashSpeed, y: this.chargeDirY * dashSpeed };
+  }
+
+  protected resetCharge(): void {
+    this.chargeTimer = 0;
+    this.chargeDirX = 0;
+    this.chargeDirY = 0;
+    this.charge = null;
+  }
+
+  /**
+   * Winding up a charge (renderer telegraph)
+   */
+  public isWindingUp(): boolean {
+    const { charge } = this;
+    return (
+      charge !== null &&
+      this.chargeTimer >= charge.approachTime &&
+      this.chargeTimer < charge.approachTime + charge.windupTime
+    );
+  }
+
+  /**
+   * Line the coming dash will cover, from the enemy (null when not winding up)
+   */
+  public getChargeTelegraph(): Vector2 | null {
+    if (!this.isWindingUp() || !this.charge) return null;
+
+    const length = this.charge.dashSpeed * this.charge.dashTime * 60;
+    return { x: this.chargeDirX * length, y: this.chargeDirY * length };
+  }
+
+  /**
+   * Head off the direct line to the target, curving round to its side, then go straight in
+   */
+  private getFlankVelocity(target: Vector2, flank: FlankBehavior): Vector2 {
+    const dx = target.x - this.position.x;
+    const dy = target.y - this.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist === 0) return { x: 0, y: 0 };
+
+    const angle =
+      Math.atan2(dy, dx) + (dist > flank.closeInDistance ? flank.angle * this.flankSide : 0);
+    return { x: Math.cos(angle) * this.speed, y: Math.sin(angle) * this.speed };
+  }
+
+  /**
+   * Moves by velocity plus knockback, then keeps enemy inside the arena once it entered
+   * @param moveX Velocity in px per 60fps frame
+   * @param moveY Velocity in px per 60fps frame
+   */
+  protected applyMovement(
+    moveX: number,
+    moveY: number,
+    deltaTime: number,
+    canvasWidth: number,
+    canvasHeight: number,
+  ): void {
+    // Speed and knockback are px per 60fps frame - slow and freeze only affect own movement
+    const frames = deltaTime * 60;
+    const speedMultiplier = this.statusEffects.getSpeedMultiplier();
+    this.position.x += (moveX * speedMultiplier + this.knockbackX) * frames;
+    this.position.y += (moveY * speedMultiplier + this.knockbackY) * frames;
+
+    this.constrainToArena(canvasWidth, canvasHeight);
+  }
 
-    if (isFullyInside) {
-      this.hasEnteredArena = true;
+  /**
+   * Keeps the whole body inside the arena once it got fully in.
+   * Enemies spawn off-screen, so the clamp only starts after the entire radius crossed the edge.
+   */
+  public constrainToArena(canvasWidth: number, canvasHeight: number): void {
+    if (!this.hasEnteredArena) {
+      this.hasEnteredArena =
+        this.position.x >= this.radius &&
+        this.position.x <= canvasWidth - this.radius &&
+        this.position.y >= this.radius &&
+        this.position.y <= canvasHeight - this.radius;
+      return;
     }
 
-    // Limit position only if already inside
-    if (this.hasEnteredArena) {
-      this.position.x = clamp(this.position.x, this.radius, canvasWidth - this.radius);
-      this.position.y = clamp(this.position.y, this.radius, canvasHeight - this.radius);
+    this.position.x = clamp(this.position.x, this.radius, canvasWidth - this.radius);
+    this.position.y = clamp(this.position.y, this.radius, canvasHeight - this.radius);
+  }
+
+  // ============ Merging ============
+
+  /**
+   * Fuse another enemy of the same type into this one (caller removes the other).
+   * Body area, HP and rewards add up, damage grows by a share of the absorbed enemy's.
+   */
+  public absorb(other: Enemy, damageShare: number): void {
+    const totalMass = this.mass + other.mass;
+
+    // Settle at the center of mass
+    this.position.x = (this.position.x * this.mass + other.position.x * other.mass) / totalMass;
+    this.position.y = (this.position.y * this.mass + other.position.y * other.mass) / totalMass;
+    this.radius = Math.sqrt(totalMass);
+
+    this.hp += other.hp;
+    this.maxHp += other.maxHp;
+    this.damage += Math.floor(other.damage * damageShare);
+    this.bulletDamage += Math.floor(other.bulletDamage * damageShare);
+    this.explosionDamage += Math.floor(other.explosionDamage * damageShare);
+    this.explosionRadius = Math.hypot(this.explosionRadius, other.explosionRadius);
+    this.xpValue += other.xpValue;
+    this.goldValue += other.goldValue;
+    this.mergeCount += other.mergeCount;
+  }
+
+  // ============ Elites ============
+
+  public isElite(): boolean {
+    return this.affixes.length > 0;
+  }
+
+  public hasAffix(affix: EliteAffix): boolean {
+    return this.affixes.includes(affix);
+  }
+
+  /**
+   * Promote to an elite - bigger, tougher, better rewards, plus the affix bonuses.
+   * Vampiric and reflective only take effect in CombatSystem.
+   */
+  public makeElite(affixes: readonly EliteAffix[]): void {
+    this.affixes = [...affixes];
+
+    this.radius *= ELITE_STATS.radiusMultiplier;
+    this.maxHp = Math.round(this.maxHp * ELITE_STATS.hpMultiplier);
+    this.hp = this.maxHp;
+    this.xpValue = Math.round(this.xpValue * ELITE_STATS.xpMultiplier);
+    this.goldValue = Math.round(this.goldValue * ELITE_STATS.goldMultiplier);
+
+    for (const affix of affixes) {
+      switch (affix) {
+        case EliteAffix.SHIELDED:
+          this.shieldHits = ELITE_AFFIXES[affix].hits;
+          break;
+
+        case EliteAffix.HASTED:
+          this.speed *= ELITE_AFFIXES[affix].speedMultiplier;
+          break;
+
+        case EliteAffix.SPLITTING:
+          this.splitOnDeath = true;
+          this.splitCount += ELITE_AFFIXES[affix].count;
+          break;
+
+        case EliteAffix.EXPLOSIVE: {
+          const { explosionRadius, damageMultiplier } = ELITE_AFFIXES[affix];
+          this.explodeOnDeath = true;
+          this.explosionRadius = Math.max(this.explosionRadius, explosionRadius);
+          this.explosionDamage = Math.max(
+            this.explosionDamage,
+            Math.floor(this.damage * damageMultiplier),
+          );
+          break;
+        }
+
+        case EliteAffix.VAMPIRIC:
+        case EliteAffix.REFLECTIVE:
+          break;
+      }
     }
   }
 
@@ -250,15 +613,23 @@ export class Enemy extends Entity implements IHealth {
 
   /**
    * Attempts to attack (for shooting enemies)
+   * @param rng Seeded combat generator used to pick the attack pattern
    * @returns Attack result or null
    */
-  public tryAttack(target: Vector2, currentTime: number): AttackResult {
-    if (!this.canShoot) return null;
+  public tryAttack(target: Vector2, currentTime: number, rng: RandomGenerator): AttackResult {
+    // Frozen or stunned
+    if (!this.canShoot || !this.statusEffects.canAct()) return null;
     if (currentTime - this.lastFireTime < this.fireRate) return null;
 
     this.lastFireTime = currentTime;
-    const pattern = randomElement(this.attackPatterns);
+    const pattern = randomElement(this.attackPatterns, rng) ?? 'single';
+    return this.createAttack(pattern, target);
+  }
 
+  /**
+   * Builds the projectiles / shockwave of a single attack aimed at target
+   */
+  protected createAttack(pattern: AttackPattern, target: Vector2): AttackResult {
     const dx = target.x - this.position.x;
     const dy = target.y - this.position.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
@@ -293,6 +664,121 @@ export class Enemy extends Entity implements IHealth {
         return this.createSpreadProjectiles(baseAngle, 26, TWO_PI);
       }
 
+      case 'wave': {
+        // Two bullets weaving in opposite phase
+        const vx = (dx / dist) * this.bulletSpeed;
+        const vy = (dy / dist) * this.bulletSpeed;
+        return {
+          type: 'bullets',
+          bullets: [0, Math.PI].map((phase) => ({
+            x: this.position.x,
+            y: this.position.y,
+            vx,
+            vy,
+            damage: this.bulletDamage * 0.8,
+            color: this.color,
+            behavior: { type: 'sine', amplitude: 40, frequency: 6, phase },
+          })),
+        };
+      }
+
+      case 'homing':
+        return {
+          type: 'bullets',
+          bullets: [
+            {
+              x: this.position.x,
+              y: this.position.y,
+              vx: (dx / dist) * this.bulletSpeed * 0.6,
+              vy: (dy / dist) * this.bulletSpeed * 0.6,
+              damage: this.bulletDamage,
+              color: this.color,
+              behavior: { type: 'homing', turnRate: 1.8, lifetime: 4 },
+            },
+          ],
+        };
+
+      case 'grenade':
+        // Lands where the target stands now - moving away dodges it
+        return {
+          type: 'bullets',
+          bullets: [
+            {
+              x: this.position.x,
+              y: this.position.y,
+              vx: 0,
+              vy: 0,
+              damage: this.bulletDamage * 1.5,
+              color: this.color,
+              behavior: {
+                type: 'lobbed',
+                target: { x: target.x, y: target.y },
+                flightTime: 1.2,
+                explosionRadius: 70,
+              },
+            },
+          ],
+        };
+
+      case 'orb':
+        return {
+          type: 'bullets',
+          bullets: [
+            {
+              x: this.position.x,
+              y: this.position.y,
+              vx: (dx / dist) * this.bulletSpeed * 0.35,
+              vy: (dy / dist) * this.bulletSpeed * 0.35,
+              damage: this.bulletDamage * 2,
+              color: this.color,
+              behavior: { type: 'orb', radius: 18, hp: this.bulletDamage * 3 },
+            },
+          ],
+        };
+
+      case 'beam':
+      case 'sweepBeam': {
+        // Sweeping beams start off-target and cross the aim line halfway through
+        const sweep = pattern === 'sweepBeam' ? Math.PI / 3 : 0;
+        return {
+          type: 'beam',
+          x: this.position.x,
+          y: this.position.y,
+          angle: baseAngle - sweep / 2,
+          sweep,
+          length: 2000,
+          width: 16,
+          damage: this.bulletDamage * 2,
+          color: this.color,
+          warningTime: 900,
+          duration: pattern === 'sweepBeam' ? 1500 : 1000,
+          ownerId: this.id,
+        };
+      }
+
+      case 'heal':
+        if (!this.config.heal) return null;
+        return {
+          type: 'heal',
+          x: this.position.x,
+          y: this.position.y,
+          radius: this.config.heal.radius,
+          amount: this.config.heal.amount,
+          ownerId: this.id,
+        };
+
+      case 'summon':
+        if (!this.config.summon) return null;
+        return {
+          type: 'summon',
+          x: this.position.x,
+          y: this.position.y,
+          enemyType: this.config.summon.type,
+          count: this.config.summon.count,
+          maxAlive: this.config.summon.maxAlive,
+          ownerId: this.id,
+        };
+
       case 'single':
       default:
         return {
@@ -311,7 +797,7 @@ export class Enemy extends Entity implements IHealth {
     }
   }
 
-  private createSpreadProjectiles(
+  protected createSpreadProjectiles(
     baseAngle: number,
     spreadCount: number,
     spreadAngle: number,
@@ -0,0 +1,275 @@
+import { Vector2 } from '@/utils';
+import { Enemy } from '../Enemy';
+import { generateBossName } from '../name';
+import { AttackResult, ChargeBehavior } from '../type';
+import { BOSS_SCRIPTS } from './config';
+import { BossEntityConfig, BossPhase, BossScript } from './type';
+
+/** Orbit movement - preferred distance from the target */
+const ORBIT_DISTANCE = 260;
+
+/** Charge movement cycle: approach, wind up standing still, dash (speed before enrage) */
+const BOSS_CHARGE: ChargeBehavior = {
+  type: 'charge',
+  approachTime: 1.5,
+  windupTime: 0.6,
+  dashTime: 0.5,
+  dashSpeed: 7,
+};
+
+/**
+ * Boss entity.
+ * Plays a scripted encounter (see bosses/config.ts): HP thresholds switch phases, each
+ * phase has its own movement, attack rotation and enrage timer. While a phase
+ * transition plays the boss is rooted, silent and ignores damage.
+ *
+ * Bosses are few and long-lived, so EntityManager does not pool them.
+ * Subclasses hook into onPhaseStart for type-specific twists.
+ */
+export class Boss extends Enemy {
+  protected script!: BossScript;
+
+  private phaseIndex!: number;
+  /** Seconds spent in the current phase (transition excluded) */
+  private phaseTime!: number;
+  /** Seconds of phase transition left */
+  private transitionTimer!: number;
+  /** Next attack in the phase rotation */
+  private rotationIndex!: number;
+  private enraged!: boolean;
+  /** Speed from ENEMY_TYPES - phases scale from it */
+  private baseSpeed!: number;
+  /** Phase entered and not reported yet (see takePhaseChange) */
+  private pendingPhaseChange!: number | null;
+
+  public constructor(config: BossEntityConfig) {
+    super(config);
+    this.startEncounter(config);
+  }
+
+  /**
+   * Reinitialize (bosses are not pooled, kept for IPoolable)
+   */
+  public reset(config: BossEntityConfig): void {
+    super.reset(config);
+    this.startEncounter(config);
+  }
+
+  private startEncounter(config: BossEntityConfig): void {
+    this.script = BOSS_SCRIPTS[config.type];
+    this.baseSpeed = this.speed;
+    this.enraged = false;
+    this.pendingPhaseChange = null;
+
+    this.isBoss = true;
+    this.bossName = generateBossName(config.rng);
+    this.hasTopHealthBar = true; // Boss uses top screen HP bar, not mini bar
+
+    this.startPhase(0);
+  }
+
+  // ============ Phases ============
+
+  public getPhaseIndex(): number {
+    return this.phaseIndex;
+  }
+
+  public getPhaseCount(): number {
+    return this.script.phases.length;
+  }
+
+  public getPhase(): BossPhase {
+    return this.script.phases[this.phaseIndex]!;
+  }
+
+  /** Seconds spent in the current phase */
+  protected getPhaseTime(): number {
+    return this.phaseTime;
+  }
+
+  /** HP fractions where phases after the first start (boss bar ticks) */
+  public getPhaseThresholds(): number[] {
+    return this.script.phases.slice(1).map((phase) => phase.hpThreshold);
+  }
+
+  public isEnraged(): boolean {
+    return this.enraged;
+  }
+
+  /**
+   * Seconds until the current phase enrages, null when it never does or already has
+   */
+  public getEnrageTimeLeft(): number | null {
+    const { enrageAfter } = this.getPhase();
+    if (this.enraged || enrageAfter <= 0) return null;
+    return Math.max(0, enrageAfter - this.phaseTime);
+  }
+
+  public isTransitioning(): boolean {
+    return this.transitionTimer > 0;
+  }
+
+  public isInvulnerable(): boolean {
+    return this.isTransitioning();
+  }
+
+  /**
+   * Phase entered since the last call, or null.
+   * GameWorld polls it to announce transitions.
+   */
+  public takePhaseChange(): number | null {
+    const phase = this.pendingPhaseChange;
+    this.pendingPhaseChange = null;
+    return phase;
+  }
+
+  private startPhase(index: number): void {
+    const phase = this.script.phases[index]!;
+
+    this.phaseIndex = index;
+    this.phaseTime = 0;
+    this.rotationIndex = 0;
+    this.enraged = false;
+    this.transitionTimer = phase.transitionTime;
+    this.resetCharge();
+
+    this.zigzag = phase.movement === 'zigzag';
+    this.phasing = phase.phasing ?? false;
+    this.applyPhaseStats();
+
+    if (index > 0) {
+      this.pendingPhaseChange = index;
+    }
+    this.onPhaseStart(index);
+  }
+
+  /**
+   * Speed and fire rate of the current phase, with enrage on top
+   */
+  private applyPhaseStats(): void {
+    const phase = this.getPhase();
+    const { enrage } = this.script;
+
+    this.speed =
+      this.baseSpeed * phase.speedMultiplier * (this.enraged ? enrage.speedMultiplier : 1);
+    this.fireRate = phase.fireRate / (this.enraged ? enrage.attackSpeedMultiplier : 1);
+  }
+
+  /**
+   * Called after a phase starts (including the first one)
+   */
+  protected onPhaseStart(_phaseIndex: number): void {
+    // Plain bosses are fully described by their script
+  }
+
+  // ============ Health ============
+
+  /**
+   * Damage is ignored during transitions. A hit crossing the next phase threshold
+   * stops HP at the threshold, so bursts can't skip a phase.
+   * @returns true if boss died
+   */
+  public takeDamage(amount: number, source: Vector2, knockbackMultiplier: number = 1): boolean {
+    if (this.isInvulnerable()) return false;
+
+    const isDead = super.takeDamage(amount, source, knockbackMultiplier);
+
+    const next = this.script.phases[this.phaseIndex + 1];
+    if (next && this.hp <= this.maxHp * next.hpThreshold) {
+      this.hp = this.maxHp * next.hpThreshold;
+      this.startPhase(this.phaseIndex + 1);
+      return false;
+    }
+
+    return isDead;
+  }
+
+  // ============ Update ============
+
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+
+    if (this.transitionTimer > 0) {
+      this.transitionTimer = Math.max(0, this.transitionTimer - deltaTime);
+      return;
+    }
+
+    this.phaseTime += deltaTime;
+
+    const { enrageAfter } = this.getPhase();
+    if (!this.enraged && enrageAfter > 0 && this.phaseTime >= enrageAfter) {
+      this.enraged = true;
+      this.applyPhaseStats();
+    }
+  }
+
+  // ============ Movement ============
+
+  public moveTowardsTarget(
+    target: Vector2,
+    deltaTime: number,
+    canvasWidth: number,
+    canvasHeight: number,
+  ): void {
+    // Rooted during transitions
+    if (this.isTransitioning()) {
+      this.applyMovement(0, 0, deltaTime, canvasWidth, canvasHeight);
+      return;
+    }
+
+    switch (this.getPhase().movement) {
+      case 'orbit': {
+        const velocity = this.getOrbitVelocity(target, ORBIT_DISTANCE);
+        this.applyMovement(velocity.x, velocity.y, deltaTime, canvasWidth, canvasHeight);
+        break;
+      }
+
+      case 'charge': {
+        const dashSpeedMultiplier = this.enraged ? this.script.enrage.speedMultiplier : 1;
+        const velocity = this.getChargeVelocity(
+          target,
+          deltaTime,
+          BOSS_CHARGE,
+          dashSpeedMultiplier,
+        );
+        this.applyMovement(velocity.x, velocity.y, deltaTime, canvasWidth, canvasHeight);
+        break;
+      }
+
+      case 'chase':
+      case 'zigzag':
+      default:
+        // Enemy movement handles zigzag (flag set per phase)
+        super.moveTowardsTarget(target, deltaTime, canvasWidth, canvasHeight);
+    }
+  }
+
+  public holdsDistance(): boolean {
+    return this.getPhase().movement === 'orbit';
+  }
+
+  /**
+   * Winding up a charge (renderer telegraph)
+   */
+  public isWindingUp(): boolean {
+    return this.getPhase().movement === 'charge' && !this.isTransitioning() && super.isWindingUp();
+  }
+
+  // ============ Combat ============
+
+  /**
+   * Fires the next attack of the phase rotation (no random pick)
+   */
+  public tryAttack(target: Vector2, currentTime: number): AttackResult {
+    if (!this.canShoot || this.isTransitioning() || !this.statusEffects.canAct()) return null;
+    if (currentTime - this.lastFireTime < this.fireRate) return null;
+
+    this.lastFireTime = currentTime;
+
+    const { rotation } = this.getPhase();
+    const pattern = rotation[this.rotationIndex % rotation.length]!;
+    this.rotationIndex++;
+
+    return this.createAttack(pattern, target);
+  }
+}
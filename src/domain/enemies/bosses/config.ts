@@ -0,0 +1,197 @@
+import { EnemyType } from '@/types/enums';
+import { BossScript, BossType } from './type';
+
+/**
+ * Scripted boss encounters.
+ * Base stats (HP, damage, bullets) still come from ENEMY_TYPES - scripts only drive
+ * phases: movement, attack order, enrage and transitions.
+ */
+export const BOSS_SCRIPTS: Record<BossType, BossScript> = {
+  // Overlord - steady pressure, circles the player once wounded
+  [EnemyType.BOSS]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'chase',
+        speedMultiplier: 1,
+        fireRate: 1300,
+        rotation: ['single', 'single', 'double', 'spread'],
+        enrageAfter: 25,
+        transitionTime: 0,
+      },
+      {
+        hpThreshold: 0.6,
+        movement: 'orbit',
+        speedMultiplier: 1.6,
+        fireRate: 1100,
+        rotation: ['double', 'spread', 'beam', 'around'],
+        enrageAfter: 20,
+        transitionTime: 1.5,
+      },
+      {
+        hpThreshold: 0.25,
+        movement: 'chase',
+        speedMultiplier: 1.4,
+        fireRate: 900,
+        rotation: ['spread', 'homing', 'double', 'around'],
+        enrageAfter: 15,
+        transitionTime: 1.5,
+      },
+    ],
+    enrage: { speedMultiplier: 1.5, attackSpeedMultiplier: 1.5 },
+  },
+
+  // Hive queen - bullet rings, the brood grows in the last phase (SwarmBoss)
+  [EnemyType.BOSS_SWARM]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'chase',
+        speedMultiplier: 1,
+        fireRate: 1000,
+        rotation: ['single', 'spread', 'single', 'around'],
+        enrageAfter: 25,
+        transitionTime: 0,
+      },
+      {
+        hpThreshold: 0.5,
+        movement: 'zigzag',
+        speedMultiplier: 1.3,
+        fireRate: 800,
+        rotation: ['around', 'homing', 'spread', 'wave'],
+        enrageAfter: 20,
+        transitionTime: 1.5,
+      },
+    ],
+    enrage: { speedMultiplier: 1.4, attackSpeedMultiplier: 1.5 },
+  },
+
+  // Juggernaut - slow shockwaves, starts charging when cornered
+  [EnemyType.BOSS_TANK]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'chase',
+        speedMultiplier: 1,
+        fireRate: 2000,
+        rotation: ['single', 'double', 'shockwave'],
+        enrageAfter: 30,
+        transitionTime: 0,
+      },
+      {
+        hpThreshold: 0.66,
+        movement: 'chase',
+        speedMultiplier: 1.5,
+        fireRate: 1700,
+        rotation: ['double', 'grenade', 'shockwave', 'single'],
+        enrageAfter: 25,
+        transitionTime: 2,
+      },
+      {
+        hpThreshold: 0.33,
+        movement: 'charge',
+        speedMultiplier: 1,
+        fireRate: 1500,
+        rotation: ['shockwave', 'sweepBeam', 'orb', 'grenade', 'double'],
+        enrageAfter: 20,
+        transitionTime: 2,
+      },
+    ],
+    enrage: { speedMultiplier: 1.5, attackSpeedMultiplier: 1.3 },
+  },
+
+  // Speedster - strafes with rapid fire, then switches to dashes
+  [EnemyType.BOSS_SPEED]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'zigzag',
+        speedMultiplier: 1,
+        fireRate: 550,
+        rotation: ['single', 'wave', 'spread'],
+        enrageAfter: 20,
+        transitionTime: 0,
+      },
+      {
+        hpThreshold: 0.5,
+        movement: 'charge',
+        speedMultiplier: 1,
+        fireRate: 450,
+        rotation: ['spread', 'homing', 'spread'],
+        enrageAfter: 15,
+        transitionTime: 1,
+      },
+    ],
+    enrage: { speedMultiplier: 1.3, attackSpeedMultiplier: 1.4 },
+  },
+
+  // Bomber - the death blast grows with every phase (ExploderBoss)
+  [EnemyType.BOSS_EXPLODER]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'chase',
+        speedMultiplier: 1,
+        fireRate: 1600,
+        rotation: ['spread', 'around', 'shockwave'],
+        enrageAfter: 25,
+        transitionTime: 0,
+      },
+      {
+        hpThreshold: 0.5,
+        movement: 'orbit',
+        speedMultiplier: 1.5,
+        fireRate: 1300,
+        rotation: ['around', 'grenade', 'spread', 'grenade'],
+        enrageAfter: 20,
+        transitionTime: 1.5,
+      },
+      {
+        hpThreshold: 0.2,
+        movement: 'chase',
+        speedMultiplier: 1.8,
+        fireRate: 1000,
+        rotation: ['shockwave', 'grenade', 'around'],
+        enrageAfter: 10,
+        transitionTime: 1.5,
+      },
+    ],
+    enrage: { speedMultiplier: 1.5, attackSpeedMultiplier: 1.5 },
+  },
+
+  // Phantom - untouchable body, flickers in and out in the last phase (GhostBoss)
+  [EnemyType.BOSS_GHOST]: {
+    phases: [
+      {
+        hpThreshold: 1,
+        movement: 'chase',
+        speedMultiplier: 1,
+        fireRate: 1200,
+        rotation: ['single', 'double', 'spread', 'around'],
+        enrageAfter: 25,
+        transitionTime: 0,
+        phasing: true,
+      },
+      {
+        hpThreshold: 0.6,
+        movement: 'orbit',
+        speedMultiplier: 1.5,
+        fireRate: 1000,
+        rotation: ['wave', 'spread', 'around'],
+        enrageAfter: 20,
+        transitionTime: 1.5,
+        phasing: true,
+      },
+      {
+        hpThreshold: 0.3,
+        movement: 'zigzag',
+        speedMultiplier: 1.5,
+        fireRate: 900,
+        rotation: ['around', 'orb', 'beam', 'wave', 'double'],
+        enrageAfter: 15,
+        transitionTime: 1.5,
+      },
+    ],
+    enrage: { speedMultiplier: 1.4, attackSpeedMultiplier: 1.5 },
+  },
+};
@@ -0,0 +1,65 @@
+import { EnemyType } from '@/types/enums';
+import { Boss } from './Boss';
+import { BossEntityConfig, BossType } from './type';
+
+/** Extra enemies released on death per phase reached */
+const SWARM_BROOD_PER_PHASE = 4;
+
+/** Death explosion radius growth per phase reached */
+const EXPLODER_RADIUS_PER_PHASE = 0.25;
+
+/** Last phase: seconds between turning solid and phasing again */
+const GHOST_FLICKER_TIME = 1.5;
+
+/**
+ * Hive queen - every phase grows the brood released on death
+ */
+export class SwarmBoss extends Boss {
+  protected onPhaseStart(phaseIndex: number): void {
+    this.splitCount = (this.config.splitCount ?? 0) + phaseIndex * SWARM_BROOD_PER_PHASE;
+  }
+}
+
+/**
+ * Bomber - every phase grows the death explosion
+ */
+export class ExploderBoss extends Boss {
+  protected onPhaseStart(phaseIndex: number): void {
+    const baseRadius = (this.config.explosionRadius ?? 0) * this.scale;
+    this.explosionRadius = baseRadius * (1 + phaseIndex * EXPLODER_RADIUS_PER_PHASE);
+  }
+}
+
+/**
+ * Phantom - in the last phase it flickers between phasing and solid
+ */
+export class GhostBoss extends Boss {
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+
+    const isLastPhase = this.getPhaseIndex() === this.getPhaseCount() - 1;
+    if (isLastPhase && !this.isTransitioning()) {
+      this.phasing = Math.floor(this.getPhaseTime() / GHOST_FLICKER_TIME) % 2 === 1;
+    }
+  }
+}
+
+const BOSS_CLASSES: Record<BossType, new (config: BossEntityConfig) => Boss> = {
+  [EnemyType.BOSS]: Boss,
+  [EnemyType.BOSS_SWARM]: SwarmBoss,
+  [EnemyType.BOSS_TANK]: Boss,
+  [EnemyType.BOSS_SPEED]: Boss,
+  [EnemyType.BOSS_EXPLODER]: ExploderBoss,
+  [EnemyType.BOSS_GHOST]: GhostBoss,
+};
+
+export function isBossType(type: EnemyType): type is BossType {
+  return type in BOSS_CLASSES;
+}
+
+/**
+ * Creates the encounter class registered for the boss type
+ */
+export function createBoss(config: BossEntityConfig): Boss {
+  return new BOSS_CLASSES[config.type](config);
+}
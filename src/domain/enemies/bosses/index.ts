@@ -0,0 +1,4 @@
+export * from './Boss';
+export * from './config';
+export * from './encounters';
+export * from './type';
@@ -0,0 +1,58 @@
+import { EnemyType } from '@/types/enums';
+import { RandomGenerator } from '@/utils';
+import { AttackPattern, EnemyEntityConfig } from '../type';
+
+export type BossType =
+  | EnemyType.BOSS
+  | EnemyType.BOSS_SWARM
+  | EnemyType.BOSS_TANK
+  | EnemyType.BOSS_SPEED
+  | EnemyType.BOSS_EXPLODER
+  | EnemyType.BOSS_GHOST;
+
+/**
+ * Boss configuration for constructor
+ */
+export interface BossEntityConfig extends EnemyEntityConfig {
+  type: BossType;
+  /** Seeded spawn generator - picks the boss name */
+  rng: RandomGenerator;
+}
+
+/**
+ * How a boss moves during a phase
+ * - chase: straight at the player
+ * - zigzag: chase while strafing side to side
+ * - orbit: circle the player at a distance
+ * - charge: approach, stop to wind up, then dash in a straight line
+ */
+export type BossMovement = 'chase' | 'zigzag' | 'orbit' | 'charge';
+
+export interface BossPhase {
+  /** Phase starts once HP drops to this fraction of max HP (first phase: 1) */
+  hpThreshold: number;
+  movement: BossMovement;
+  /** Multiplier of the base speed from ENEMY_TYPES */
+  speedMultiplier: number;
+  /** Milliseconds between attacks */
+  fireRate: number;
+  /** Attacks fired in this order, then repeated */
+  rotation: AttackPattern[];
+  /** Seconds spent in the phase before the boss enrages (0 = never) */
+  enrageAfter: number;
+  /** Seconds of invulnerability when the phase starts (no moving, no attacking) */
+  transitionTime: number;
+  /** Contact damage off (projectiles still hit) */
+  phasing?: boolean;
+}
+
+export interface BossScript {
+  /** Phases in order, hpThreshold descending */
+  phases: BossPhase[];
+  /** Applied on top of the current phase once its enrage timer runs out */
+  enrage: {
+    speedMultiplier: number;
+    /** Fire rate is divided by this */
+    attackSpeedMultiplier: number;
+  };
+}
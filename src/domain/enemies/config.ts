@@ -1,4 +1,5 @@
-import { EnemyType } from '@/types/enums';
+import { StatusEffectType } from '@/domain/status/type';
+import { DamageType, EnemyType } from '@/types/enums';
 import { EnemyConfig } from './type';
 
 export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
@@ -20,6 +21,7 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 8,
     xpValue: 15,
     goldValue: 4,
+    damageModifiers: { [DamageType.EXPLOSIVE]: 1.25 },
   },
   [EnemyType.TANK]: {
     color: '#9b59b6',
@@ -29,6 +31,7 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 35,
     xpValue: 35,
     goldValue: 9,
+    damageModifiers: { [DamageType.PHYSICAL]: 0.7, [DamageType.EXPLOSIVE]: 1.3 },
     canShoot: true,
     fireRate: 4000,
     bulletSpeed: 3,
@@ -43,6 +46,7 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 5,
     xpValue: 5,
     goldValue: 1,
+    damageModifiers: { [DamageType.FIRE]: 1.5, [DamageType.EXPLOSIVE]: 1.5 },
   },
 
   // ============ ADVANCED ENEMIES ============
@@ -63,11 +67,17 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 60,
     xpValue: 60,
     goldValue: 15,
+    damageModifiers: {
+      [DamageType.PHYSICAL]: 0.6,
+      [DamageType.FIRE]: 1.25,
+      [DamageType.POISON]: 1.5,
+    },
     canShoot: true,
     fireRate: 3000,
     bulletSpeed: 3,
     bulletDamage: 25,
     attackPatterns: ['single'],
+    onHitEffects: [{ type: StatusEffectType.STUN, chance: 0.15, duration: 0.5 }],
   },
   [EnemyType.GHOST]: {
     color: 'rgba(255, 255, 255, 0.6)',
@@ -77,6 +87,11 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 20,
     xpValue: 25,
     goldValue: 6,
+    damageModifiers: {
+      [DamageType.PHYSICAL]: 0.5,
+      [DamageType.EXPLOSIVE]: 0.75,
+      [DamageType.HOLY]: 2,
+    },
     phasing: true,
   },
   [EnemyType.EXPLODER]: {
@@ -87,6 +102,7 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 5,
     xpValue: 20,
     goldValue: 5,
+    damageModifiers: { [DamageType.FIRE]: 0.5, [DamageType.EXPLOSIVE]: 0.5 },
     explodeOnDeath: true,
     explosionRadius: 60,
     explosionDamage: 15,
@@ -109,11 +125,83 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 12,
     xpValue: 25,
     goldValue: 7,
+    damageModifiers: { [DamageType.POISON]: 1.5 },
     splitOnDeath: true,
     splitCount: 3,
   },
 
+  // ============ TACTICAL ENEMIES ============
+  // Movement behaviors and support abilities (see EnemyBehavior in type.ts)
+  [EnemyType.KITER]: {
+    color: '#3498db',
+    radius: 13,
+    speed: 2,
+    hp: 22,
+    damage: 8,
+    xpValue: 25,
+    goldValue: 6,
+    behavior: { type: 'kite', preferredDistance: 280 },
+    canShoot: true,
+    fireRate: 1800,
+    bulletSpeed: 4.5,
+    bulletDamage: 10,
+    attackPatterns: ['single'],
+  },
+  [EnemyType.CHARGER]: {
+    color: '#d35400',
+    radius: 18,
+    speed: 1.3,
+    hp: 45,
+    damage: 25,
+    xpValue: 30,
+    goldValue: 7,
+    damageModifiers: { [DamageType.PHYSICAL]: 0.8, [DamageType.FIRE]: 1.25 },
+    behavior: { type: 'charge', approachTime: 1.2, windupTime: 0.7, dashTime: 0.45, dashSpeed: 10 },
+  },
+  [EnemyType.FLANKER]: {
+    color: '#16a085',
+    radius: 11,
+    speed: 2.8,
+    hp: 16,
+    damage: 12,
+    xpValue: 20,
+    goldValue: 5,
+    behavior: { type: 'flank', angle: Math.PI / 3, closeInDistance: 140 },
+  },
+  // Support casters use the attack timer for their abilities
+  [EnemyType.HEALER]: {
+    color: '#a3e4d7',
+    radius: 14,
+    speed: 1.6,
+    hp: 30,
+    damage: 6,
+    xpValue: 35,
+    goldValue: 8,
+    damageModifiers: { [DamageType.HOLY]: 0.5, [DamageType.POISON]: 1.5 },
+    behavior: { type: 'kite', preferredDistance: 200 },
+    canShoot: true,
+    fireRate: 3000,
+    attackPatterns: ['heal'],
+    heal: { radius: 230, amount: 0.25 },
+  },
+  [EnemyType.SUMMONER]: {
+    color: '#6c3483',
+    radius: 16,
+    speed: 1.2,
+    hp: 40,
+    damage: 10,
+    xpValue: 40,
+    goldValue: 10,
+    damageModifiers: { [DamageType.HOLY]: 1.5 },
+    behavior: { type: 'kite', preferredDistance: 380 },
+    canShoot: true,
+    fireRate: 5000,
+    attackPatterns: ['summon'],
+    summon: { type: EnemyType.SWARM, count: 3, maxAlive: 6 },
+  },
+
   // ============ BOSSES ============
+  // Movement, fire rate and attacks are scripted per phase (bosses/config.ts)
   [EnemyType.BOSS]: {
     color: '#ff0000',
     radius: 50,
@@ -122,12 +210,10 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 50,
     xpValue: 200,
     goldValue: 50,
-    isBoss: true,
+    damageModifiers: { [DamageType.HOLY]: 1.25 },
     canShoot: true,
-    fireRate: 1300,
     bulletSpeed: 4,
     bulletDamage: 20,
-    attackPatterns: ['single', 'double', 'spread'],
   },
   [EnemyType.BOSS_SWARM]: {
     color: '#00ff00',
@@ -137,14 +223,12 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 30,
     xpValue: 250,
     goldValue: 60,
-    isBoss: true,
+    damageModifiers: { [DamageType.FIRE]: 1.5, [DamageType.EXPLOSIVE]: 1.25 },
     splitOnDeath: true,
     splitCount: 8,
     canShoot: true,
-    fireRate: 1000,
     bulletSpeed: 5,
     bulletDamage: 10,
-    attackPatterns: ['single', 'around', 'spread'],
   },
   [EnemyType.BOSS_TANK]: {
     color: '#8b00ff',
@@ -154,12 +238,10 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 80,
     xpValue: 300,
     goldValue: 75,
-    isBoss: true,
+    damageModifiers: { [DamageType.PHYSICAL]: 0.75, [DamageType.EXPLOSIVE]: 1.25 },
     canShoot: true,
-    fireRate: 2000,
     bulletSpeed: 3,
     bulletDamage: 35,
-    attackPatterns: ['single', 'double', 'shockwave'],
   },
   [EnemyType.BOSS_SPEED]: {
     color: '#00ffff',
@@ -169,13 +251,10 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 35,
     xpValue: 220,
     goldValue: 55,
-    isBoss: true,
-    zigzag: true,
+    damageModifiers: { [DamageType.EXPLOSIVE]: 0.75 },
     canShoot: true,
-    fireRate: 550,
     bulletSpeed: 7,
     bulletDamage: 12,
-    attackPatterns: ['single', 'spread'],
   },
   [EnemyType.BOSS_EXPLODER]: {
     color: '#ffff00',
@@ -185,15 +264,18 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 40,
     xpValue: 280,
     goldValue: 70,
-    isBoss: true,
+    damageModifiers: {
+      [DamageType.FIRE]: 0.25,
+      [DamageType.EXPLOSIVE]: 0.5,
+      [DamageType.POISON]: 1.25,
+    },
     explodeOnDeath: true,
     explosionRadius: 150,
     explosionDamage: 50,
     canShoot: true,
-    fireRate: 1600,
     bulletSpeed: 4,
     bulletDamage: 25,
-    attackPatterns: ['spread', 'around', 'shockwave'],
+    onHitEffects: [{ type: StatusEffectType.BURN, chance: 0.3 }],
   },
   [EnemyType.BOSS_GHOST]: {
     color: 'rgba(255, 255, 255, 0.7)',
@@ -203,12 +285,10 @@ export const ENEMY_TYPES: Record<EnemyType, EnemyConfig> = {
     damage: 45,
     xpValue: 260,
     goldValue: 65,
-    isBoss: true,
-    phasing: true,
+    damageModifiers: { [DamageType.PHYSICAL]: 0.6, [DamageType.HOLY]: 1.75 },
     canShoot: true,
-    fireRate: 1200,
     bulletSpeed: 5,
     bulletDamage: 18,
-    attackPatterns: ['single', 'double', 'spread', 'around'],
+    onHitEffects: [{ type: StatusEffectType.SLOW, chance: 0.4 }],
   },
 } as const;
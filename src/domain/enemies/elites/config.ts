@@ -0,0 +1,51 @@
+import { EliteAffix, EliteAffixTable, EliteStats } from './type';
+
+/**
+ * Affix table - how often elites appear is part of the wave set scaling (waves.config.ts)
+ */
+export const ELITE_AFFIXES: EliteAffixTable = {
+  [EliteAffix.SHIELDED]: {
+    name: 'Tarcza',
+    color: '#4da6ff',
+    hits: 3,
+  },
+  [EliteAffix.VAMPIRIC]: {
+    name: 'Wampir',
+    color: '#c0143c',
+    healMultiplier: 2,
+  },
+  [EliteAffix.HASTED]: {
+    name: 'Pośpiech',
+    color: '#f1c40f',
+    speedMultiplier: 1.5,
+  },
+  [EliteAffix.SPLITTING]: {
+    name: 'Podział',
+    color: '#2ecc71',
+    count: 3,
+  },
+  [EliteAffix.REFLECTIVE]: {
+    name: 'Lustro',
+    color: '#e0e0ff',
+    chance: 0.3,
+    damageShare: 0.5,
+    bulletSpeed: 5,
+  },
+  [EliteAffix.EXPLOSIVE]: {
+    name: 'Wybuch',
+    color: '#ff6600',
+    explosionRadius: 70,
+    damageMultiplier: 1.5,
+  },
+};
+
+export const ELITE_AFFIX_TYPES: readonly EliteAffix[] = Object.values(EliteAffix);
+
+export const ELITE_STATS: EliteStats = {
+  hpMultiplier: 2.5,
+  radiusMultiplier: 1.2,
+  xpMultiplier: 3,
+  goldMultiplier: 4,
+  goldBags: 3,
+  healthDropBonus: 0.15,
+};
@@ -0,0 +1,71 @@
+export enum EliteAffix {
+  SHIELDED = 'shielded',
+  VAMPIRIC = 'vampiric',
+  HASTED = 'hasted',
+  SPLITTING = 'splitting',
+  REFLECTIVE = 'reflective',
+  EXPLOSIVE = 'explosive',
+}
+
+export interface EliteAffixConfig {
+  name: string;
+  /** Aura color */
+  color: string;
+}
+
+export interface ShieldedAffixConfig extends EliteAffixConfig {
+  /** Projectile and explosion hits absorbed before HP takes damage */
+  hits: number;
+}
+
+export interface VampiricAffixConfig extends EliteAffixConfig {
+  /** Share of contact damage dealt to the player that heals the elite */
+  healMultiplier: number;
+}
+
+export interface HastedAffixConfig extends EliteAffixConfig {
+  speedMultiplier: number;
+}
+
+export interface SplittingAffixConfig extends EliteAffixConfig {
+  /** Extra enemies spawned on death */
+  count: number;
+}
+
+export interface ReflectiveAffixConfig extends EliteAffixConfig {
+  /** Chance a non-explosive projectile bounces back at the player instead of hitting */
+  chance: number;
+  /** Reflected damage as a share of the projectile's */
+  damageShare: number;
+  /** Speed of the reflected bullet in px per 60fps frame */
+  bulletSpeed: number;
+}
+
+export interface ExplosiveAffixConfig extends EliteAffixConfig {
+  explosionRadius: number;
+  /** Explosion damage as a multiple of contact damage */
+  damageMultiplier: number;
+}
+
+export interface EliteAffixTable {
+  [EliteAffix.SHIELDED]: ShieldedAffixConfig;
+  [EliteAffix.VAMPIRIC]: VampiricAffixConfig;
+  [EliteAffix.HASTED]: HastedAffixConfig;
+  [EliteAffix.SPLITTING]: SplittingAffixConfig;
+  [EliteAffix.REFLECTIVE]: ReflectiveAffixConfig;
+  [EliteAffix.EXPLOSIVE]: ExplosiveAffixConfig;
+}
+
+/**
+ * Bonuses every elite gets on top of its affixes
+ */
+export interface EliteStats {
+  hpMultiplier: number;
+  radiusMultiplier: number;
+  xpMultiplier: number;
+  goldMultiplier: number;
+  /** Gold is dropped in this many bags */
+  goldBags: number;
+  /** Added to the player's health drop chance */
+  healthDropBonus: number;
+}
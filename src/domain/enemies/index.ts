@@ -2,3 +2,5 @@ export * from './config';
 export * from './Enemy';
 export * from './name';
 export * from './type';
+export * from './bosses';
+export * from './elites';
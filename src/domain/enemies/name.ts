@@ -1,4 +1,4 @@
-import { randomElement } from '@/utils';
+import { randomElement, RandomGenerator } from '@/utils';
 
 const BOSS_NAME_PREFIXES: readonly string[] = [
   'Bezlitosny',
@@ -94,9 +94,10 @@ const BOSS_NAME_SUFFIXES: readonly string[] = [
 
 /**
  * Generates a random boss name from prefix and suffix arrays
+ * @param rng Seeded generator, so a replayed seed meets the same boss
  */
-export function generateBossName(): string {
-  const prefix = randomElement(BOSS_NAME_PREFIXES);
-  const suffix = randomElement(BOSS_NAME_SUFFIXES);
+export function generateBossName(rng: RandomGenerator): string {
+  const prefix = randomElement(BOSS_NAME_PREFIXES, rng);
+  const suffix = randomElement(BOSS_NAME_SUFFIXES, rng);
   return `${prefix} ${suffix}`;
 }
@@ -1,4 +1,5 @@
-import { EnemyType } from '@/types';
+import { OnHitEffect } from '@/domain/status/type';
+import { DamageType, EnemyType } from '@/types';
 import { Vector2 } from '@/utils';
 
 export interface EnemyConfig {
@@ -11,7 +12,6 @@ export interface EnemyConfig {
   goldValue: number;
 
   // Optional behaviors
-  isBoss?: boolean; // TODO
   canShoot?: boolean;
   fireRate?: number;
   bulletSpeed?: number;
@@ -24,14 +24,94 @@ export interface EnemyConfig {
   explosionRadius?: number;
   explosionDamage?: number;
   zigzag?: boolean;
+  /** Movement behavior (straight chase when omitted) */
+  behavior?: EnemyBehavior;
+  /** Healer pulse ('heal' attack pattern) */
+  heal?: HealAbility;
+  /** Minions called by the 'summon' attack pattern */
+  summon?: SummonAbility;
   splitOnDeath?: boolean;
   splitCount?: number;
+  /** Status effects applied to the player by contact and bullets */
+  onHitEffects?: OnHitEffect[];
+  /** Damage taken per type: < 1 resists, > 1 weak (missing = 1) */
+  damageModifiers?: DamageModifiers;
+}
+
+export type DamageModifiers = Partial<Record<DamageType, number>>;
+
+/**
+ * Movement behaviors of regular enemies
+ * - kite: hold a preferred distance from the target, circling it and backing off when it closes in
+ * - charge: approach, stop to wind up (telegraphed), then dash along the locked line
+ * - flank: swing round to the target's side, then close in
+ */
+export interface KiteBehavior {
+  type: 'kite';
+  /** Distance kept from the target (px) */
+  preferredDistance: number;
+}
+
+export interface ChargeBehavior {
+  type: 'charge';
+  /** Seconds of approach before winding up */
+  approachTime: number;
+  /** Seconds standing still, aiming */
+  windupTime: number;
+  dashTime: number;
+  /** Dash speed in px per 60fps frame */
+  dashSpeed: number;
+}
+
+export interface FlankBehavior {
+  type: 'flank';
+  /** Heading off the direct approach in radians (side picked per enemy) */
+  angle: number;
+  /** Goes straight in once this close (px) */
+  closeInDistance: number;
+}
+
+export type EnemyBehavior = KiteBehavior | ChargeBehavior | FlankBehavior;
+
+export interface HealAbility {
+  radius: number;
+  /** Share of each ally's max HP restored per pulse */
+  amount: number;
+}
+
+export interface SummonAbility {
+  type: EnemyType;
+  /** Minions per call */
+  count: number;
+  /** No new minions while this many of the summoner's are alive */
+  maxAlive: number;
 }
 
 /**
  * Attack pattern types for shooting enemies
+ * - wave: two bullets weaving around the aim line
+ * - homing: slow-turning missile
+ * - grenade: lobbed onto the target's current spot, explodes on landing
+ * - orb: big slow ball, can be shot down
+ * - beam: telegraphed laser across the arena
+ * - sweepBeam: beam that sweeps sideways while firing
+ * - heal: pulse restoring HP of nearby allies (needs `heal` in the config)
+ * - summon: call minions (needs `summon` in the config)
  */
-export type AttackPattern = 'single' | 'double' | 'spread' | 'shockwave' | 'around';
+export type AttackPattern =
+  | 'single'
+  | 'double'
+  | 'spread'
+  | 'shockwave'
+  | 'around'
+  | 'wave'
+  | 'homing'
+  | 'grenade'
+  | 'orb'
+  | 'beam'
+  | 'sweepBeam'
+  | 'heal'
+  | 'summon';
 
 /**
  * Attack result types
@@ -50,7 +130,62 @@ export interface ShockwaveAttackResult {
   color: string;
 }
 
-export type AttackResult = BulletAttackResult | ShockwaveAttackResult | null;
+/**
+ * Laser from the shooter along angle - a thin warning line first, then the damaging beam
+ */
+export interface BeamAttackResult {
+  type: 'beam';
+  x: number;
+  y: number;
+  /** Starting direction in radians */
+  angle: number;
+  /** Radians turned while firing (0 = static) */
+  sweep: number;
+  length: number;
+  width: number;
+  damage: number;
+  color: string;
+  /** Warning line time in ms */
+  warningTime: number;
+  /** Firing time in ms */
+  duration: number;
+  /** Beam follows this enemy and stops when it dies */
+  ownerId: number;
+}
+
+/**
+ * Healer pulse - allies in radius (bosses excluded) regain a share of their max HP
+ */
+export interface HealAttackResult {
+  type: 'heal';
+  x: number;
+  y: number;
+  radius: number;
+  amount: number;
+  /** Healer itself is not healed */
+  ownerId: number;
+}
+
+/**
+ * Minions appear around the summoner
+ */
+export interface SummonAttackResult {
+  type: 'summon';
+  x: number;
+  y: number;
+  enemyType: EnemyType;
+  count: number;
+  maxAlive: number;
+  ownerId: number;
+}
+
+export type AttackResult =
+  | BulletAttackResult
+  | ShockwaveAttackResult
+  | BeamAttackResult
+  | HealAttackResult
+  | SummonAttackResult
+  | null;
 
 /**
  * Enemy bullet data (to be created by weapon system)
@@ -62,8 +197,49 @@ export interface EnemyBulletData {
   vy: number;
   damage: number;
   color: string;
+  /** Straight flight when omitted */
+  behavior?: EnemyBulletBehavior;
+}
+
+export interface SineBulletBehavior {
+  type: 'sine';
+  /** Max sideways offset in px */
+  amplitude: number;
+  /** Radians/second */
+  frequency: number;
+  phase: number;
+}
+
+export interface HomingBulletBehavior {
+  type: 'homing';
+  /** Max turn in radians/second */
+  turnRate: number;
+  /** Seconds before the missile fizzles out */
+  lifetime: number;
+}
+
+export interface LobbedBulletBehavior {
+  type: 'lobbed';
+  /** Landing spot (telegraphed) */
+  target: Vector2;
+  /** Seconds in the air */
+  flightTime: number;
+  explosionRadius: number;
+}
+
+export interface OrbBulletBehavior {
+  type: 'orb';
+  radius: number;
+  /** Damage needed to shoot it down */
+  hp: number;
 }
 
+export type EnemyBulletBehavior =
+  | SineBulletBehavior
+  | HomingBulletBehavior
+  | LobbedBulletBehavior
+  | OrbBulletBehavior;
+
 /**
  * Enemy configuration for constructor
  */
@@ -7,6 +7,9 @@ export * from './enemies/name';
 export * from './enemies/type';
 export * from './player/Player';
 export * from './player/type';
+export * from './status/StatusEffects';
+export * from './status/config';
+export * from './status/type';
 export * from './weapons/WeaponManager';
 export * from './weapons/WeaponStatsCalculator';
 export * from './weapons/config';
@@ -4,6 +4,8 @@
  */
 
 import { CHARACTER_TYPES, CharacterConfig, GAME_BALANCE } from '@/config';
+import { SHOP_ITEMS } from '@/config/shop.config';
+import { OnHitEffect, StatusEffects } from '@/domain/status';
 import type { WeaponInstance } from '@/domain/weapons/type';
 import { WeaponType } from '@/domain/weapons/type';
 import { IHealth } from '@/types/components';
@@ -14,6 +16,34 @@ import { Entity } from '../../entities/Entity';
 import { InputState, PlayerConfig, PlayerStats } from './type';
 import { WEAPON_TYPES } from '../weapons';
 
+/** Every modifiable stat - used to snapshot and restore the player */
+const PLAYER_STAT_KEYS: ReadonlyArray<keyof PlayerStats> = [
+  'maxHp',
+  'speed',
+  'pickupRange',
+  'armor',
+  'damageMultiplier',
+  'attackSpeedMultiplier',
+  'critChance',
+  'critDamage',
+  'lifesteal',
+  'knockback',
+  'explosionRadius',
+  'projectileCount',
+  'pierce',
+  'attackRange',
+  'luck',
+  'xpMultiplier',
+  'goldMultiplier',
+  'dodge',
+  'thorns',
+  'regen',
+  'maxWeapons',
+  'healthDropChance',
+  'healthDropValue',
+  'healthDropLuckMultiplier',
+];
+
 /**
  * Player entity
  * Uses composition for weapons and items.
@@ -86,6 +116,12 @@ export class Player extends Entity implements IHealth {
   /** Collected item IDs */
   public items: string[] = [];
 
+  /** On-hit status effects granted by items (applied by every projectile hit) */
+  public onHitEffects: OnHitEffect[] = [];
+
+  /** Status effects from enemy attacks */
+  public readonly statusEffects = new StatusEffects();
+
   // ============ State ============
 
   /** Invincibility end time */
@@ -143,16 +179,31 @@ export class Player extends Entity implements IHealth {
 
     // Note: Dodge is checked in Game.ts before calling this method
 
-    // Armor reduction (diminishing returns)
-    const reduction = this.armor / (this.armor + GAME_BALANCE.player.armorDiminishingFactor);
-    const finalDamage = amount * (1 - reduction);
-
-    this.hp = Math.max(0, this.hp - finalDamage);
+    this.hp = Math.max(0, this.hp - this.reduceByArmor(amount));
     this.invincibleUntil = currentTime + this.invincibilityDuration;
 
     return this.hp <= 0;
   }
 
+  /**
+   * Damage over time from status effects - armor applies, invincibility frames don't
+   * @returns true if player died
+   */
+  public takeStatusDamage(amount: number): boolean {
+    if (this.godMode) return false;
+
+    this.hp = Math.max(0, this.hp - this.reduceByArmor(amount));
+    return this.hp <= 0;
+  }
+
+  /**
+   * Armor reduction (diminishing returns)
+   */
+  private reduceByArmor(amount: number): number {
+    const reduction = this.armor / (this.armor + GAME_BALANCE.player.armorDiminishingFactor);
+    return amount * (1 - reduction);
+  }
+
   /**
    * Heals the player
    */
@@ -228,16 +279,18 @@ export class Player extends Entity implements IHealth {
       }
     }
 
-    // Apply movement
-    this.position.x += vx * this.speed;
-    this.position.y += vy * this.speed;
+    // Apply movement (speed is px per 60fps frame), slowed or rooted by status effects
+    const frames = deltaTime * 60;
+    const speed = this.speed * this.statusEffects.getSpeedMultiplier();
+    this.position.x += vx * speed * frames;
+    this.position.y += vy * speed * frames;
 
     // Keep in bounds
     this.position.x = clamp(this.position.x, this.width / 2, canvasWidth - this.width / 2);
     this.position.y = clamp(this.position.y, this.height / 2, canvasHeight - this.height / 2);
 
     // Store velocity for external use
-    this.setVelocity(vx * this.speed, vy * this.speed);
+    this.setVelocity(vx * speed, vy * speed);
   }
 
   /**
@@ -296,6 +349,11 @@ export class Player extends Entity implements IHealth {
    */
   public addItem(itemId: string): void {
     this.items.push(itemId);
+
+    const item = SHOP_ITEMS[itemId];
+    if (item?.type === 'item' && item.onHitEffects) {
+      this.onHitEffects.push(...item.onHitEffects);
+    }
   }
 
   /**
@@ -309,18 +367,20 @@ export class Player extends Entity implements IHealth {
    * Gets weapon position around player
    * @param index Weapon index
    * @param target Optional target for aiming
+   * @param origin Center to orbit around (renderers pass interpolated position)
    */
   public getWeaponPosition(
     index: number,
     target: Vector2 | null = null,
+    origin: Vector2 = this.position,
   ): { x: number; y: number; angle: number } {
     const weaponRadius = 25;
     const weaponCount = this.weapons.length || 1;
 
     const spreadAngle = (TWO_PI / weaponCount) * index;
 
-    const posX = this.position.x + Math.cos(spreadAngle) * weaponRadius;
-    const posY = this.position.y + Math.sin(spreadAngle) * weaponRadius;
+    const posX = origin.x + Math.cos(spreadAngle) * weaponRadius;
+    const posY = origin.y + Math.sin(spreadAngle) * weaponRadius;
 
     let aimAngle = spreadAngle;
     if (target) {
@@ -339,6 +399,27 @@ export class Player extends Entity implements IHealth {
 
   // ============ Stats Helpers ============
 
+  /**
+   * Current values of all modifiable stats
+   */
+  public getStats(): PlayerStats {
+    const stats = {} as PlayerStats;
+    for (const key of PLAYER_STAT_KEYS) {
+      stats[key] = this[key];
+    }
+    return stats;
+  }
+
+  /**
+   * Overwrites stats (missing ones keep their current value)
+   */
+  public setStats(stats: Partial<PlayerStats>): void {
+    for (const key of PLAYER_STAT_KEYS) {
+      const value = stats[key];
+      if (value !== undefined) this[key] = value;
+    }
+  }
+
   /**
    * Applies stat bonuses from item effect
    */
@@ -0,0 +1,110 @@
+import { STATUS_EFFECTS } from './config';
+import { ActiveStatusEffect, OnHitEffect, StatusEffectType } from './type';
+
+/**
+ * Status effect component - effects currently active on one entity (enemy or player).
+ * The owner's system advances it every tick; damage over time is dealt by CombatSystem.
+ */
+export class StatusEffects {
+  private active = new Map<StatusEffectType, ActiveStatusEffect>();
+
+  /**
+   * Apply an effect, or re-apply it following its stacking rule
+   * @param durationMultiplier Resistance of the owner (bosses shake off crowd control faster)
+   */
+  public apply(effect: Omit<OnHitEffect, 'chance'>, durationMultiplier: number = 1): void {
+    const config = STATUS_EFFECTS[effect.type];
+    const duration = (effect.duration ?? config.duration) * durationMultiplier;
+    const tickDamage = effect.tickDamage ?? config.tickDamage;
+
+    const current = this.active.get(effect.type);
+    if (!current) {
+      this.active.set(effect.type, {
+        type: effect.type,
+        remaining: duration,
+        stacks: 1,
+        tickDamage,
+        nextTick: config.tickInterval,
+      });
+      return;
+    }
+
+    switch (config.stacking) {
+      case 'stack':
+        current.stacks = Math.min(current.stacks + 1, config.maxStacks);
+        current.remaining = Math.max(current.remaining, duration);
+        current.tickDamage = Math.max(current.tickDamage, tickDamage);
+        break;
+      case 'refresh':
+        current.remaining = Math.max(current.remaining, duration);
+        current.tickDamage = Math.max(current.tickDamage, tickDamage);
+        break;
+      case 'ignore':
+        break;
+    }
+  }
+
+  /**
+   * Advance timers and drop expired effects
+   * @param deltaTime Seconds
+   * @returns Damage over time due this step
+   */
+  public update(deltaTime: number): number {
+    if (this.active.size === 0) return 0;
+
+    let damage = 0;
+    for (const [type, effect] of this.active) {
+      if (effect.tickDamage > 0) {
+        effect.nextTick -= deltaTime;
+        if (effect.nextTick <= 0) {
+          damage += effect.tickDamage * effect.stacks;
+          effect.nextTick += STATUS_EFFECTS[type].tickInterval;
+        }
+      }
+
+      effect.remaining -= deltaTime;
+      if (effect.remaining <= 0) {
+        this.active.delete(type);
+      }
+    }
+
+    return damage;
+  }
+
+  public has(type: StatusEffectType): boolean {
+    return this.active.has(type);
+  }
+
+  public isEmpty(): boolean {
+    return this.active.size === 0;
+  }
+
+  public getActive(): ActiveStatusEffect[] {
+    return Array.from(this.active.values());
+  }
+
+  /**
+   * Combined movement multiplier of all active effects
+   */
+  public getSpeedMultiplier(): number {
+    let multiplier = 1;
+    for (const type of this.active.keys()) {
+      multiplier *= STATUS_EFFECTS[type].speedMultiplier;
+    }
+    return multiplier;
+  }
+
+  /**
+   * False while frozen or stunned
+   */
+  public canAct(): boolean {
+    for (const type of this.active.keys()) {
+      if (STATUS_EFFECTS[type].preventsAttacks) return false;
+    }
+    return true;
+  }
+
+  public clear(): void {
+    this.active.clear();
+  }
+}
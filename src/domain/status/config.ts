@@ -0,0 +1,77 @@
+import { DamageType } from '@/types/enums';
+import { StatusEffectConfig, StatusEffectType } from './type';
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectConfig> = {
+  [StatusEffectType.BURN]: {
+    name: 'Podpalenie',
+    color: '#ff6600',
+    duration: 3,
+    stacking: 'refresh',
+    maxStacks: 1,
+    tickDamage: 4,
+    tickInterval: 0.5,
+    damageType: DamageType.FIRE,
+    speedMultiplier: 1,
+    preventsAttacks: false,
+  },
+  [StatusEffectType.POISON]: {
+    name: 'Trucizna',
+    color: '#66ff33',
+    duration: 5,
+    stacking: 'stack',
+    maxStacks: 5,
+    tickDamage: 2,
+    tickInterval: 1,
+    damageType: DamageType.POISON,
+    speedMultiplier: 1,
+    preventsAttacks: false,
+  },
+  [StatusEffectType.SLOW]: {
+    name: 'Spowolnienie',
+    color: '#66ccff',
+    duration: 2,
+    stacking: 'refresh',
+    maxStacks: 1,
+    tickDamage: 0,
+    tickInterval: 1,
+    damageType: DamageType.PHYSICAL,
+    speedMultiplier: 0.5,
+    preventsAttacks: false,
+  },
+  [StatusEffectType.FREEZE]: {
+    name: 'Zamrożenie',
+    color: '#bbeeff',
+    duration: 1.5,
+    stacking: 'ignore',
+    maxStacks: 1,
+    tickDamage: 0,
+    tickInterval: 1,
+    damageType: DamageType.PHYSICAL,
+    speedMultiplier: 0,
+    preventsAttacks: true,
+  },
+  [StatusEffectType.STUN]: {
+    name: 'Ogłuszenie',
+    color: '#ffff66',
+    duration: 1,
+    stacking: 'ignore',
+    maxStacks: 1,
+    tickDamage: 0,
+    tickInterval: 1,
+    damageType: DamageType.PHYSICAL,
+    speedMultiplier: 0,
+    preventsAttacks: true,
+  },
+  [StatusEffectType.ROOT]: {
+    name: 'Unieruchomienie',
+    color: '#a0522d',
+    duration: 2,
+    stacking: 'ignore',
+    maxStacks: 1,
+    tickDamage: 0,
+    tickInterval: 1,
+    damageType: DamageType.PHYSICAL,
+    speedMultiplier: 0,
+    preventsAttacks: false,
+  },
+};
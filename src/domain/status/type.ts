@@ -0,0 +1,61 @@
+import { DamageType } from '@/types/enums';
+
+export enum StatusEffectType {
+  BURN = 'burn',
+  SLOW = 'slow',
+  FREEZE = 'freeze',
+  POISON = 'poison',
+  STUN = 'stun',
+  ROOT = 'root',
+}
+
+/**
+ * What re-applying an active effect does
+ * - refresh: restarts the duration, the stronger tick damage wins
+ * - stack: adds a stack (up to maxStacks) and restarts the duration - damage scales with stacks
+ * - ignore: nothing until it wears off (crowd control can't be chained forever)
+ */
+export type StatusStackingRule = 'refresh' | 'stack' | 'ignore';
+
+export interface StatusEffectConfig {
+  name: string;
+  color: string;
+  /** Seconds */
+  duration: number;
+  stacking: StatusStackingRule;
+  maxStacks: number;
+  /** Damage per tick and stack (0 = no damage over time) */
+  tickDamage: number;
+  /** Type of the ticks - resistances apply when the effect lands */
+  damageType: DamageType;
+  /** Seconds between damage ticks */
+  tickInterval: number;
+  /** Movement speed multiplier while active (0 = can't move) */
+  speedMultiplier: number;
+  /** Can't attack while active */
+  preventsAttacks: boolean;
+}
+
+/**
+ * Effect a hit may apply - declared by weapons, items and enemies
+ */
+export interface OnHitEffect {
+  type: StatusEffectType;
+  /** Proc chance per hit (0-1) */
+  chance: number;
+  /** Overrides the configured duration (seconds) */
+  duration?: number;
+  /** Overrides the configured tick damage */
+  tickDamage?: number;
+}
+
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  /** Seconds left */
+  remaining: number;
+  stacks: number;
+  /** Damage per tick and stack */
+  tickDamage: number;
+  /** Seconds until the next damage tick */
+  nextTick: number;
+}
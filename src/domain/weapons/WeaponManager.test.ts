@@ -0,0 +1,85 @@
+// @vitest-environment node
+
+import 'reflect-metadata';
+
+import { describe, expect, it } from 'vitest';
+
+import { ConfigService } from '@/config/ConfigService';
+import { RandomService } from '@/core/RandomService';
+import { Player } from '@/domain/player/Player';
+import { EventBus } from '@/events/EventBus';
+import { EntityManager } from '@/managers/EntityManager';
+import { CombatSystem } from '@/systems/CombatSystem';
+import { CharacterType, EnemyType } from '@/types/enums';
+import { WEAPON_TYPES } from './config';
+import { WeaponType } from './type';
+import { WeaponManager } from './WeaponManager';
+import { WeaponStatsCalculator } from './WeaponStatsCalculator';
+
+describe('WeaponManager', () => {
+  describe('turrets', () => {
+    it('apply the player damage multiplier exactly once per hit', () => {
+      const configService = new ConfigService();
+      const random = new RandomService();
+      random.newRun(1);
+      const entityManager = new EntityManager(random);
+      const statsCalculator = new WeaponStatsCalculator(configService);
+      const weaponManager = new WeaponManager(
+        entityManager,
+        configService,
+        statsCalculator,
+        random,
+      );
+      const combatSystem = new CombatSystem(entityManager, random);
+
+      const player = new Player({ x: 400, y: 300, characterType: CharacterType.NORMIK });
+      player.damageMultiplier = 1.5;
+      entityManager.setPlayer(player);
+      weaponManager.addWeapon(WeaponType.TURRET);
+      const weapon = player.weapons[0]!;
+      weapon.level = 3;
+
+      const dummy = entityManager.createEnemy({
+        position: { x: 440, y: 300 },
+        type: EnemyType.BASIC,
+      });
+      dummy.maxHp = dummy.hp = 1_000_000;
+      entityManager.addEnemy(dummy);
+
+      // Deploy, skip the setup time and fire one shot at the dummy
+      const currentTime = 100_000;
+      weaponManager.fireWeapons(currentTime, player);
+      const [turret] = entityManager.getActiveDeployables();
+      turret!.update(turret!.armingTime);
+      entityManager.updateSpatialIndex();
+      weaponManager.fireTurrets(currentTime, player);
+      const [shot] = entityManager.getPlayerProjectiles();
+      shot!.isCrit = false;
+
+      combatSystem.updateRuntimeConfig({ damageMultiplier: player.damageMultiplier });
+      const hits: number[] = [];
+      const sub = EventBus.on('enemyDamaged', ({ enemy, damage, multiplier }) => {
+        if (enemy === dummy) hits.push(damage / multiplier);
+      });
+      combatSystem.processCollisions(
+        {
+          playerEnemyCollisions: [],
+          playerProjectileCollisions: [],
+          projectileShootableCollisions: [],
+          projectileEnemyCollisions: [{ projectile: shot!, enemy: dummy }],
+          pickupCollisions: [],
+          deployableCollisions: [],
+        },
+        currentTime,
+      );
+      sub.unsubscribe();
+
+      const expected =
+        WEAPON_TYPES[WeaponType.TURRET].damage *
+        statsCalculator.getDamageMultiplier(weapon.level) *
+        player.damageMultiplier;
+      expect(hits).toHaveLength(1);
+      expect(hits[0]).toBeCloseTo(expected);
+    });
+  });
+});
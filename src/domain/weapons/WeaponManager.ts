@@ -1,14 +1,15 @@
+import { RandomService } from '@/core/RandomService';
 import { Enemy } from '@/domain/enemies';
-import { WeaponConfig, WeaponInstance, WeaponType } from '@/domain/weapons';
-import { Deployable, DeployableConfig, Player, Projectile } from '@/entities';
+import { WeaponInstance, WeaponType } from '@/domain/weapons';
+import { DeployableConfig, Player } from '@/entities';
 import { EventBus } from '@/events';
 import { EntityManager } from '@/managers';
 import { DeployableType, ProjectileType, VisualEffect } from '@/types';
-import { copyVector, degreesToRadians, randomChance, randomRange, vectorFromAngle } from '@/utils';
+import { copyVector, degreesToRadians, vectorFromAngle } from '@/utils';
 import { singleton } from 'tsyringe';
 import { ConfigService } from '../../config/ConfigService';
 import { WeaponStatsCalculator } from './WeaponStatsCalculator';
-import { WEAPON_TYPES } from './config';
+import { WEAPON_EVOLUTIONS, WEAPON_TYPES } from './config';
 
 @singleton()
 export class WeaponManager {
@@ -16,6 +17,7 @@ export class WeaponManager {
     private entityManager: EntityManager,
     private configService: ConfigService,
     private statsCalculator: WeaponStatsCalculator,
+    private random: RandomService,
   ) {}
 
   public fireWeapons(currentTime: number, player: Player): void {
@@ -33,10 +35,10 @@ export class WeaponManager {
       // Reset offset after first shot (staggering only applies to initial burst)
       weapon.fireOffset = 0;
 
-      // Handle deployable weapons (mines) - they don't need a target
-      if (config.deployableType === DeployableType.MINE) {
+      // Handle deployable weapons (mines, turrets, traps, lures) - they don't need a target
+      if (config.deployableType) {
         weapon.lastFireTime = currentTime;
-        this.deployMine(config, player, weapon.level);
+        this.deploy(weapon, config.deployableType, player);
         continue;
       }
 
@@ -88,7 +90,7 @@ export class WeaponManager {
     const targetAngle = Math.atan2(target.position.y - pos.y, target.position.x - pos.x);
 
     // Critical hit check
-    const isCrit = randomChance(player.critChance);
+    const isCrit = this.random.combat.chance(player.critChance);
     const finalDamage = isCrit ? damage * player.critDamage : damage;
 
     for (let i = 0; i < projectileCount; i++) {
@@ -100,7 +102,7 @@ export class WeaponManager {
         angle = targetAngle - spreadRad / 2 + (spreadRad / (projectileCount - 1)) * i;
       } else if (config.spread > 0) {
         // Random spread for single bullet
-        const spreadRad = randomRange(-0.5, 0.5) * degreesToRadians(config.spread);
+        const spreadRad = this.random.combat.range(-0.5, 0.5) * degreesToRadians(config.spread);
         angle += spreadRad;
       }
 
@@ -112,7 +114,7 @@ export class WeaponManager {
       velocityVector.x += playerVel.vx;
       velocityVector.y += playerVel.vy;
 
-      const projectile = new Projectile({
+      const projectile = this.entityManager.createProjectile({
         position: { x: pos.x, y: pos.y },
         radius: config.bulletRadius ?? 4, // Default 4 like original
         type: WEAPON_TYPES[weapon.type].projectileType ?? ProjectileType.STANDARD,
@@ -139,6 +141,10 @@ export class WeaponManager {
         bulletSpeed: speed,
         // Projectile rotation (e.g., scythe)
         rotationSpeed: config.rotationSpeed,
+        onHitEffects: config.onHitEffects,
+        damageType: config.damageType,
+        obstacleHit: config.obstacleHit,
+        ricochet: config.ricochet,
       });
 
       projectile.setVelocityVector(velocityVector);
@@ -152,10 +158,29 @@ export class WeaponManager {
     EventBus.emit('weaponFired', { weaponType: weapon.type });
   }
 
+  private deploy(weapon: WeaponInstance, type: DeployableType, player: Player): void {
+    switch (type) {
+      case DeployableType.MINE:
+        this.deployMine(weapon, player);
+        break;
+      case DeployableType.TURRET:
+        this.deployTurret(weapon, player);
+        break;
+      case DeployableType.TRAP:
+        this.deployTrap(weapon, player);
+        break;
+      case DeployableType.LURE:
+        this.deployLure(weapon, player);
+        break;
+    }
+  }
+
   /**
    * Deploy a mine at the player's position
    */
-  private deployMine(config: WeaponConfig, player: Player, level: number): void {
+  private deployMine(weapon: WeaponInstance, player: Player): void {
+    const { config, level } = weapon;
+
     // Calculate damage with level
     const damageMultiplier = this.statsCalculator.getDamageMultiplier(level);
     const damage = config.damage * damageMultiplier * player.damageMultiplier;
@@ -175,13 +200,133 @@ export class WeaponManager {
       explosionDamage: damage,
       visualEffect: VisualEffect.STANDARD,
       armingTime: 0.5, // 500ms arming time
+      cluster: config.cluster,
     };
 
-    const mine = new Deployable(deployableConfig);
+    const mine = this.entityManager.createDeployable(deployableConfig);
     this.entityManager.addDeployable(mine);
 
     // Play mine deploy sound
-    EventBus.emit('weaponFired', { weaponType: WeaponType.MINES });
+    EventBus.emit('weaponFired', { weaponType: weapon.type });
+  }
+
+  /**
+   * Place a turret at the player's position - it shoots on its own until its lifetime runs out
+   */
+  private deployTurret(weapon: WeaponInstance, player: Player): void {
+    const { config, level } = weapon;
+    const turret = config.turret;
+    if (!turret) return;
+
+    const turretEntity = this.entityManager.createDeployable({
+      position: copyVector(player.position),
+      radius: config.bulletRadius ?? 14,
+      type: DeployableType.TURRET,
+      damage: config.damage * this.statsCalculator.getDamageMultiplier(level),
+      ownerId: player.id,
+      color: config.color,
+      lifetime: turret.lifetime,
+      armingTime: 1, // Setting up - range ring shown meanwhile
+      turret: {
+        fireRate: turret.fireRate / this.statsCalculator.getAttackSpeedMultiplier(level),
+        range: config.range * player.attackRange,
+        bulletSpeed: config.bulletSpeed,
+      },
+    });
+    this.entityManager.addDeployable(turretEntity);
+
+    EventBus.emit('weaponFired', { weaponType: weapon.type });
+  }
+
+  /**
+   * Place a trap at the player's position - snaps on enemies stepping in, a few times
+   */
+  private deployTrap(weapon: WeaponInstance, player: Player): void {
+    const { config, level } = weapon;
+    if (!config.trap) return;
+
+    const trap = this.entityManager.createDeployable({
+      position: copyVector(player.position),
+      radius: config.bulletRadius ?? 14,
+      type: DeployableType.TRAP,
+      damage:
+        config.damage * this.statsCalculator.getDamageMultiplier(level) * player.damageMultiplier,
+      ownerId: player.id,
+      color: config.color,
+      armingTime: 0.5,
+      trap: config.trap,
+    });
+    this.entityManager.addDeployable(trap);
+
+    EventBus.emit('weaponFired', { weaponType: weapon.type });
+  }
+
+  /**
+   * Place a lure at the player's position - enemies nearby go for it until they break it.
+   * Sturdier with level (scales like damage).
+   */
+  private deployLure(weapon: WeaponInstance, player: Player): void {
+    const { config, level } = weapon;
+    if (!config.lure) return;
+
+    const lure = this.entityManager.createDeployable({
+      position: copyVector(player.position),
+      radius: config.bulletRadius ?? 12,
+      type: DeployableType.LURE,
+      damage: 0,
+      ownerId: player.id,
+      color: config.color,
+      armingTime: 0,
+      lure: {
+        maxHp: config.lure.maxHp * this.statsCalculator.getDamageMultiplier(level),
+        radius: config.lure.radius,
+      },
+    });
+    this.entityManager.addDeployable(lure);
+
+    EventBus.emit('weaponFired', { weaponType: weapon.type });
+  }
+
+  /**
+   * Armed turrets shoot the nearest enemy in range.
+   * Shots are regular player projectiles - player damage multipliers and crits apply.
+   */
+  public fireTurrets(currentTime: number, player: Player): void {
+    const canvasBounds = this.configService.getCanvasBounds();
+
+    for (const deployable of this.entityManager.getArmedDeployables()) {
+      const turret = deployable.turret;
+      if (!turret || currentTime - turret.lastFireTime < turret.fireRate) continue;
+
+      const target = this.entityManager.getNearestEnemy(
+        deployable.position,
+        turret.range,
+        canvasBounds,
+      );
+      if (!target) continue;
+
+      turret.lastFireTime = currentTime;
+      turret.angle = Math.atan2(
+        target.position.y - deployable.position.y,
+        target.position.x - deployable.position.x,
+      );
+
+      const isCrit = this.random.combat.chance(player.critChance);
+      const projectile = this.entityManager.createProjectile({
+        position: copyVector(deployable.position),
+        radius: 4,
+        type: ProjectileType.STANDARD,
+        damage: isCrit ? deployable.damage * player.critDamage : deployable.damage,
+        ownerId: player.id,
+        color: deployable.color,
+        maxDistance: turret.range,
+      });
+      projectile.setVelocityVector(vectorFromAngle(turret.angle, turret.bulletSpeed));
+      projectile.isCrit = isCrit;
+
+      this.entityManager.addProjectile(projectile);
+      EventBus.emit('weaponFired', { weaponType: WeaponType.TURRET });
+    }
   }
 
   public addWeapon(type: WeaponType): void {
@@ -196,12 +341,57 @@ export class WeaponManager {
   }
 
   /**
-   * Upgrade weapon stats
+   * Upgrade weapon stats (up to the max level)
    */
   public upgradeWeapon(weapon: WeaponInstance): void {
+    if (this.isMaxLevel(weapon)) return;
     weapon.level++;
   }
 
+  public isMaxLevel(weapon: WeaponInstance): boolean {
+    return weapon.level >= this.configService.getWeaponsUpgrade().maxLevel;
+  }
+
+  /**
+   * Evolve every max-level weapon whose catalyst the player owns (see WEAPON_EVOLUTIONS).
+   * A catalyst weapon is fused in - its slot is freed.
+   * @returns Evolved weapons (already in their new form)
+   */
+  public evolveWeapons(): WeaponInstance[] {
+    const player = this.entityManager.getPlayer();
+    const evolved: WeaponInstance[] = [];
+
+    for (let i = 0; i < player.weapons.length; i++) {
+      const weapon = player.weapons[i]!;
+      const evolution = WEAPON_EVOLUTIONS[weapon.type];
+      if (!evolution || !this.isMaxLevel(weapon)) continue;
+      if (evolution.catalystItem && player.countItem(evolution.catalystItem) === 0) continue;
+
+      if (evolution.catalystWeapon) {
+        const catalystIndex = player.weapons.findIndex(
+          (w, index) => index !== i && w.type === evolution.catalystWeapon,
+        );
+        if (catalystIndex < 0) continue;
+        player.removeWeaponAt(catalystIndex);
+        if (catalystIndex < i) i--;
+      }
+
+      const from = weapon.type;
+      const config = WEAPON_TYPES[evolution.result];
+      weapon.type = evolution.result;
+      weapon.config = config;
+      weapon.name = config.name;
+      evolved.push(weapon);
+
+      EventBus.emit('weaponEvolved', { from, to: weapon.type });
+    }
+
+    if (evolved.length > 0) {
+      this.recalculateFireOffsets();
+    }
+    return evolved;
+  }
+
   /**
    * Spread shots evenly for weapons of the same type.
    * Assigns staggered offsets so weapons don't all fire at once.
@@ -1,5 +1,6 @@
-import { DeployableType, ProjectileType, VisualEffect } from '@/types/enums';
-import { WeaponCategory, WeaponConfig, WeaponType } from './type';
+import { StatusEffectType } from '@/domain/status/type';
+import { DamageType, DeployableType, ProjectileType, VisualEffect } from '@/types/enums';
+import { WeaponCategory, WeaponConfig, WeaponEvolution, WeaponType } from './type';
 
 export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
   [WeaponType.PISTOL]: {
@@ -75,6 +76,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     weaponCategory: WeaponCategory.GUN,
     knockbackMultiplier: 0.15,
     projectileType: ProjectileType.STANDARD,
+    obstacleHit: 'reflect',
   },
   [WeaponType.MINIGUN]: {
     name: 'Minigun',
@@ -108,6 +110,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     range: 310,
     weaponCategory: WeaponCategory.ROCKET,
     projectileType: ProjectileType.ROCKET,
+    damageType: DamageType.EXPLOSIVE,
   },
   [WeaponType.FLAMETHROWER]: {
     name: 'Miotacz Ognia',
@@ -126,6 +129,8 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     weaponCategory: WeaponCategory.SPECIAL,
     knockbackMultiplier: 0,
     projectileType: ProjectileType.FLAMETHROWER,
+    onHitEffects: [{ type: StatusEffectType.BURN, chance: 0.25 }],
+    damageType: DamageType.FIRE,
   },
   [WeaponType.MINES]: {
     name: 'Miny',
@@ -144,6 +149,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     range: 9999,
     weaponCategory: WeaponCategory.DEPLOYABLE,
     deployableType: DeployableType.MINE,
+    damageType: DamageType.EXPLOSIVE,
   },
   [WeaponType.NUKE]: {
     name: 'Wyrzutnia Nuklearna',
@@ -162,6 +168,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     range: 9999,
     weaponCategory: WeaponCategory.ROCKET,
     projectileType: ProjectileType.NUKE,
+    damageType: DamageType.EXPLOSIVE,
   },
   [WeaponType.SCYTHE]: {
     name: 'Kosa Kubusia',
@@ -180,6 +187,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     projectileType: ProjectileType.SCYTHE,
     // TODO projectile section?
     rotationSpeed: 4, // ~0.6 rotations per second
+    obstacleHit: 'reflect',
   },
   [WeaponType.SWORD]: {
     name: 'Miecz Kamilka',
@@ -198,6 +206,7 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     weaponCategory: WeaponCategory.MELEE,
     knockbackMultiplier: 0.3,
     projectileType: ProjectileType.SWORD,
+    obstacleHit: 'pass',
   },
   [WeaponType.HOLY_GRENADE]: {
     name: 'Święty Granat',
@@ -217,6 +226,9 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     weaponCategory: WeaponCategory.GRENADE,
     explosiveRange: 275,
     projectileType: ProjectileType.HOLY_GRENADE,
+    onHitEffects: [{ type: StatusEffectType.STUN, chance: 1, duration: 1.5 }],
+    damageType: DamageType.HOLY,
+    obstacleHit: 'reflect',
   },
   [WeaponType.BANANA]: {
     name: 'Banan z Worms',
@@ -237,6 +249,10 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     explosiveRange: 235,
     projectileType: ProjectileType.BANANA,
     rotationSpeed: 4, // ~0.6 rotations per second
+    // Slippery - enemies lose their footing
+    onHitEffects: [{ type: StatusEffectType.SLOW, chance: 1, duration: 3 }],
+    damageType: DamageType.EXPLOSIVE,
+    obstacleHit: 'reflect',
   },
   [WeaponType.CROSSBOW]: {
     name: 'Kusza Przebijająca',
@@ -254,6 +270,117 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     weaponCategory: WeaponCategory.GUN,
     projectileType: ProjectileType.CROSSBOW_BOLT,
   },
+  [WeaponType.TURRET]: {
+    name: 'Wieżyczka',
+    emoji: '🗼',
+    fireRate: 8000,
+    damage: 8,
+    bulletSpeed: 12,
+    bulletCount: 1,
+    spread: 0,
+    price: 160,
+    color: '#66ccff',
+    bulletRadius: 14,
+    range: 220,
+    weaponCategory: WeaponCategory.DEPLOYABLE,
+    deployableType: DeployableType.TURRET,
+    turret: { fireRate: 400, lifetime: 12 },
+  },
+  [WeaponType.TRAP]: {
+    name: 'Sidła',
+    emoji: '🪤',
+    fireRate: 5000,
+    damage: 15,
+    bulletSpeed: 0,
+    bulletCount: 1,
+    spread: 0,
+    price: 90,
+    color: '#8b4513',
+    bulletRadius: 14,
+    range: 9999,
+    weaponCategory: WeaponCategory.DEPLOYABLE,
+    deployableType: DeployableType.TRAP,
+    trap: {
+      radius: 60,
+      effects: [
+        { type: StatusEffectType.ROOT, chance: 1 },
+        { type: StatusEffectType.SLOW, chance: 1, duration: 4 },
+      ],
+      charges: 3,
+      rearmTime: 1.5,
+    },
+  },
+  [WeaponType.LURE]: {
+    name: 'Przynęta',
+    emoji: '🍖',
+    fireRate: 12000,
+    damage: 0,
+    bulletSpeed: 0,
+    bulletCount: 1,
+    spread: 0,
+    price: 110,
+    color: '#ff7f50',
+    bulletRadius: 12,
+    range: 9999,
+    weaponCategory: WeaponCategory.DEPLOYABLE,
+    deployableType: DeployableType.LURE,
+    lure: { maxHp: 120, radius: 250 },
+  },
+
+  // ============ Evolved weapons ============
+  [WeaponType.REVOLVER]: {
+    name: 'Rewolwer',
+    emoji: '🤠',
+    fireRate: 600,
+    damage: 24,
+    bulletSpeed: 17,
+    bulletCount: 1,
+    spread: 0,
+    price: 150,
+    color: '#ffcc66',
+    range: 300,
+    weaponCategory: WeaponCategory.GUN,
+    knockbackMultiplier: 0.8,
+    projectileType: ProjectileType.STANDARD,
+    ricochet: { bounces: 3, range: 180 },
+  },
+  [WeaponType.CLUSTER_MINES]: {
+    name: 'Miny Kasetowe',
+    emoji: '🧨',
+    fireRate: 4500,
+    damage: 70,
+    bulletSpeed: 0,
+    bulletCount: 1,
+    spread: 0,
+    explosive: true,
+    explosionRadius: 80,
+    explosionEffect: VisualEffect.STANDARD,
+    price: 300,
+    color: '#5a3d1e',
+    bulletRadius: 12,
+    range: 9999,
+    weaponCategory: WeaponCategory.DEPLOYABLE,
+    deployableType: DeployableType.MINE,
+    damageType: DamageType.EXPLOSIVE,
+    cluster: { count: 5, share: 0.5 },
+  },
+  [WeaponType.RAILGUN]: {
+    name: 'Railgun',
+    emoji: '🛰️',
+    fireRate: 1400,
+    damage: 90,
+    bulletSpeed: 25,
+    bulletCount: 1,
+    spread: 0,
+    pierceCount: 20,
+    price: 350,
+    color: '#66ffff',
+    bulletRadius: 5,
+    range: 450,
+    weaponCategory: WeaponCategory.GUN,
+    projectileType: ProjectileType.STANDARD,
+    obstacleHit: 'pass',
+  },
 
   // Internal type - mini banana spawned by main banana
   minibanana: {
@@ -275,5 +402,18 @@ export const WEAPON_TYPES: Record<WeaponType | 'minibanana', WeaponConfig> = {
     explosiveRange: 80,
     projectileType: ProjectileType.MINI_BANANA,
     rotationSpeed: 6, // ~0.8 rotations per second
+    onHitEffects: [{ type: StatusEffectType.SLOW, chance: 0.5 }],
+    damageType: DamageType.EXPLOSIVE,
+    obstacleHit: 'reflect',
   },
 } as const;
+
+/**
+ * Evolution recipes keyed by the weapon that evolves.
+ * The weapon has to reach GAME_BALANCE.weapons.upgrade.maxLevel first.
+ */
+export const WEAPON_EVOLUTIONS: Partial<Record<WeaponType, WeaponEvolution>> = {
+  [WeaponType.PISTOL]: { result: WeaponType.REVOLVER, catalystItem: 'critGloves' },
+  [WeaponType.MINES]: { result: WeaponType.CLUSTER_MINES, catalystItem: 'coldWar' },
+  [WeaponType.SNIPER]: { result: WeaponType.RAILGUN, catalystWeapon: WeaponType.LASER },
+};
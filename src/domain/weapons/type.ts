@@ -1,5 +1,14 @@
-import { Deployable, Projectile } from '@/entities';
-import { DeployableType, ProjectileType, VisualEffect } from '@/types';
+import { ObstacleHit } from '@/domain/arena/type';
+import { OnHitEffect } from '@/domain/status/type';
+import {
+  ClusterComponent,
+  Deployable,
+  LureComponent,
+  Projectile,
+  RicochetComponent,
+  TrapComponent,
+} from '@/entities';
+import { DamageType, DeployableType, ProjectileType, VisualEffect } from '@/types';
 
 export interface WeaponConfig {
   name: string;
@@ -32,6 +41,42 @@ export interface WeaponConfig {
 
   // Projectile behavior
   rotationSpeed?: number; // radians per second
+
+  /** Status effects rolled on every hit (explosions included) */
+  onHitEffects?: OnHitEffect[];
+  /** Damage type of hits and explosions (physical when omitted) */
+  damageType?: DamageType;
+  /** Projectile meeting an arena obstacle (stops when omitted) */
+  obstacleHit?: ObstacleHit;
+  /** Projectile bounces on to the nearest enemy it hasn't hit yet */
+  ricochet?: Omit<RicochetComponent, 'hitEnemies'>;
+  /** Deployable scatters smaller copies of itself when it explodes */
+  cluster?: ClusterComponent;
+  /** Turret placed by a turret weapon (fireRate is the placement interval, range its reach) */
+  turret?: TurretWeaponConfig;
+  /** Trap placed by a trap weapon */
+  trap?: TrapComponent;
+  /** Lure placed by a lure weapon (maxHp grows with level like damage) */
+  lure?: Omit<LureComponent, 'hp'>;
+}
+
+export interface TurretWeaponConfig {
+  /** Time between turret shots in ms */
+  fireRate: number;
+  /** Seconds before the turret breaks down */
+  lifetime: number;
+}
+
+/**
+ * Evolution recipe - a max-level weapon turns into its evolved form
+ * once the player owns the catalyst
+ */
+export interface WeaponEvolution {
+  result: WeaponType;
+  /** Shop item the player has to own (kept) */
+  catalystItem?: string;
+  /** Second weapon fused into the evolution (consumed) */
+  catalystWeapon?: WeaponType;
 }
 
 export interface WeaponInstance {
@@ -70,6 +115,14 @@ export enum WeaponType {
   HOLY_GRENADE = 'holyGrenade',
   BANANA = 'banana',
   CROSSBOW = 'crossbow',
+  TURRET = 'turret',
+  TRAP = 'trap',
+  LURE = 'lure',
+
+  // Evolved forms - not sold in the shop (see WEAPON_EVOLUTIONS)
+  REVOLVER = 'revolver',
+  CLUSTER_MINES = 'clusterMines',
+  RAILGUN = 'railgun',
 }
 
 /**
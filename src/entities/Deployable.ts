@@ -1,14 +1,62 @@
 /**
  * Deployable entity class.
- * Represents static objects placed in the world: mines, turrets, traps.
+ * Represents static objects placed in the world: mines, turrets, traps, lures.
  * Unlike Projectile, Deployable doesn't have velocity - it stays in place.
  */
 
-import { IExpirable, IExplosive } from '@/types/components';
+import { OnHitEffect } from '@/domain/status/type';
+import { IExpirable, IExplosive, IPoolable } from '@/types/components';
 import { DeployableType, VisualEffect } from '@/types/enums';
 import { randomInt } from '@/utils';
 import { Entity, EntityConfig } from './Entity';
 
+/**
+ * Cluster component - scatters smaller mines when it explodes
+ */
+export interface ClusterComponent {
+  count: number;
+  /** Bomblet damage and explosion radius as a share of the parent's */
+  share: number;
+}
+
+/**
+ * Turret component - shoots the nearest enemy in range on its own
+ */
+export interface TurretComponent {
+  /** Time between shots in ms */
+  fireRate: number;
+  /** Targeting range in px */
+  range: number;
+  bulletSpeed: number;
+  /** Sim time of the last shot (ms) */
+  lastFireTime: number;
+  /** Barrel angle in radians (last target) */
+  angle: number;
+}
+
+/**
+ * Trap component - snaps shut on enemies in its radius, rooting or slowing them
+ */
+export interface TrapComponent {
+  /** Snap radius in px */
+  radius: number;
+  effects: readonly OnHitEffect[];
+  /** Snaps left before the trap breaks */
+  charges: number;
+  /** Seconds to re-arm after a snap */
+  rearmTime: number;
+}
+
+/**
+ * Lure component - pulls enemies in its radius towards itself until they break it
+ */
+export interface LureComponent {
+  hp: number;
+  maxHp: number;
+  /** Attraction radius in px */
+  radius: number;
+}
+
 /**
  * Deployable configuration
  */
@@ -25,6 +73,14 @@ export interface DeployableConfig extends Omit<EntityConfig, 'vx' | 'vy'> {
   explosionRadius?: number;
   explosionDamage?: number;
   visualEffect?: VisualEffect;
+  cluster?: ClusterComponent;
+
+  // Turret settings
+  turret?: Omit<TurretComponent, 'lastFireTime' | 'angle'>;
+
+  // Crowd control settings
+  trap?: TrapComponent;
+  lure?: Omit<LureComponent, 'hp'>;
 
   // Trigger settings
   triggerRadius?: number;
@@ -35,54 +91,81 @@ export interface DeployableConfig extends Omit<EntityConfig, 'vx' | 'vy'> {
  * Deployable entity
  * Static objects that interact with enemies (mines explode, turrets shoot, etc.)
  */
-export class Deployable extends Entity implements IExpirable {
+export class Deployable extends Entity implements IExpirable, IPoolable<DeployableConfig> {
   /** Deployable type determines behavior */
-  public readonly type: DeployableType;
+  public type!: DeployableType;
 
   /** Damage dealt */
-  public damage: number;
+  public damage!: number;
 
   /** Owner entity ID (player) */
-  public readonly ownerId: number;
+  public ownerId!: number;
 
   /** Deployable color for rendering */
-  public color: string;
+  public color!: string;
 
   /** Remaining lifetime in seconds (Infinity = no limit) */
-  public lifetime: number;
+  public lifetime!: number;
 
   // ============ Explosion (for mines) ============
 
   /** Explosion radius (0 = not explosive) */
-  public explosionRadius: number;
+  public explosionRadius!: number;
 
   /** Explosion damage (may differ from contact damage) */
-  public explosionDamage: number;
+  public explosionDamage!: number;
 
   /** Visual effect for explosion */
-  public visualEffect: VisualEffect;
+  public visualEffect!: VisualEffect;
+
+  /** Bomblets scattered by the explosion (cluster mines) */
+  public cluster!: ClusterComponent | null;
+
+  // ============ Turret ============
+
+  /** Turret component (null = doesn't shoot) */
+  public turret!: TurretComponent | null;
+
+  // ============ Crowd Control ============
+
+  /** Trap component (null = not a trap) */
+  public trap!: TrapComponent | null;
+
+  /** Lure component (null = not a lure) */
+  public lure!: LureComponent | null;
 
   // ============ Trigger Settings ============
 
   /** Detection radius for triggering */
-  public triggerRadius: number;
+  public triggerRadius!: number;
 
   /** Time before deployable becomes active (seconds) */
-  public armingTime: number;
+  public armingTime!: number;
 
   /** Whether deployable is armed and ready */
-  public isArmed: boolean = false;
+  public isArmed!: boolean;
 
   /** Animation state */
-  public animationTime: number = 0;
+  public animationTime!: number;
 
   /** Blink offset for staggered blinking (based on creation time) */
-  public readonly blinkOffset: number;
+  public blinkOffset!: number;
 
   public constructor(config: DeployableConfig) {
     // Deployables don't have velocity
     super({ ...config, vx: undefined, vy: undefined });
+    this.applyConfig(config);
+  }
+
+  /**
+   * Reinitialize for reuse from a pool
+   */
+  public reset(config: DeployableConfig): void {
+    this.resetEntity({ position: config.position, radius: config.radius });
+    this.applyConfig(config);
+  }
 
+  private applyConfig(config: DeployableConfig): void {
     this.type = config.type;
     this.damage = config.damage;
     this.ownerId = config.ownerId;
@@ -93,6 +176,14 @@ export class Deployable extends Entity implements IExpirable {
     this.explosionRadius = config.explosionRadius ?? 0;
     this.explosionDamage = config.explosionDamage ?? config.damage;
     this.visualEffect = config.visualEffect ?? VisualEffect.STANDARD;
+    this.cluster = config.cluster ? { ...config.cluster } : null;
+
+    // Turret settings
+    this.turret = config.turret ? { ...config.turret, lastFireTime: 0, angle: 0 } : null;
+
+    // Crowd control settings
+    this.trap = config.trap ? { ...config.trap } : null;
+    this.lure = config.lure ? { ...config.lure, hp: config.lure.maxHp } : null;
 
     // Trigger settings
     this.triggerRadius = config.triggerRadius ?? config.radius * 2;
@@ -100,6 +191,7 @@ export class Deployable extends Entity implements IExpirable {
 
     // Start unarmed if arming time > 0
     this.isArmed = this.armingTime <= 0;
+    this.animationTime = 0;
 
     // Random offset for staggered blinking
     this.blinkOffset = randomInt(0, 1000);
@@ -151,6 +243,35 @@ export class Deployable extends Entity implements IExpirable {
     return null;
   }
 
+  /**
+   * Snaps a trap shut - re-arms after a while, breaks when out of charges
+   * @returns true if the trap snapped
+   */
+  public snap(): boolean {
+    if (!this.isArmed || !this.trap) return false;
+
+    this.trap.charges--;
+    if (this.trap.charges <= 0) {
+      this.destroy();
+    } else {
+      this.isArmed = false;
+      this.armingTime = this.trap.rearmTime;
+    }
+    return true;
+  }
+
+  /**
+   * Damages a lure - it breaks at 0 HP
+   */
+  public takeDamage(amount: number): void {
+    if (!this.lure) return;
+
+    this.lure.hp -= amount;
+    if (this.lure.hp <= 0) {
+      this.destroy();
+    }
+  }
+
   // ============ Update & Draw ============
 
   /**
@@ -4,7 +4,7 @@
  */
 
 import { ICircleCollider, ITransform, IVelocity } from '@/types/components';
-import { Vector2 } from '@/utils';
+import { lerp, Vector2 } from '@/utils';
 
 /**
  * Unique entity ID counter
@@ -41,10 +41,15 @@ export interface EntityConfig {
  * Uses composition - extend and add more components as needed.
  */
 export abstract class Entity implements ITransform, ICircleCollider {
-  /** Unique entity identifier */
-  public readonly id: number;
+  private entityId: number;
   public position: Vector2;
 
+  /** Position at the start of the current simulation tick */
+  public previousPosition: Vector2;
+
+  /** Position blended between ticks - renderers draw here */
+  public renderPosition: Vector2;
+
   /** Collision radius */
   public radius: number;
 
@@ -55,8 +60,10 @@ export abstract class Entity implements ITransform, ICircleCollider {
   protected velocity: IVelocity | null = null;
 
   public constructor(config: EntityConfig) {
-    this.id = generateEntityId();
+    this.entityId = generateEntityId();
     this.position = config.position;
+    this.previousPosition = { x: config.position.x, y: config.position.y };
+    this.renderPosition = { x: config.position.x, y: config.position.y };
     this.radius = config.radius;
 
     if (config.vx !== undefined || config.vy !== undefined) {
@@ -67,6 +74,35 @@ export abstract class Entity implements ITransform, ICircleCollider {
     }
   }
 
+  /**
+   * Unique entity identifier.
+   * Pooled entities get a new one on every reuse, so stale ids never match a recycled entity.
+   */
+  public get id(): number {
+    return this.entityId;
+  }
+
+  /**
+   * Reinitialize base components for reuse from a pool (see ObjectPool).
+   * Subclasses call this from their reset hook before restoring their own state.
+   */
+  protected resetEntity(config: EntityConfig): void {
+    this.entityId = generateEntityId();
+    this.position = config.position;
+    this.previousPosition.x = config.position.x;
+    this.previousPosition.y = config.position.y;
+    this.renderPosition.x = config.position.x;
+    this.renderPosition.y = config.position.y;
+    this.radius = config.radius;
+    this.isActive = true;
+
+    if (config.vx !== undefined || config.vy !== undefined) {
+      this.setVelocity(config.vx ?? 0, config.vy ?? 0);
+    } else {
+      this.velocity = null;
+    }
+  }
+
   /**
    * Gets velocity component (creates if needed)
    */
@@ -109,6 +145,26 @@ export abstract class Entity implements ITransform, ICircleCollider {
     this.position = position;
   }
 
+  // ============ Render Interpolation ============
+
+  /**
+   * Remembers current position as the tick start point.
+   * Call before each fixed simulation step, or after teleporting to avoid smearing.
+   */
+  public storePreviousPosition(): void {
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+  }
+
+  /**
+   * Updates render position between previous and current tick
+   * @param alpha Fraction of the next tick already elapsed (0-1)
+   */
+  public interpolate(alpha: number): void {
+    this.renderPosition.x = lerp(this.previousPosition.x, this.position.x, alpha);
+    this.renderPosition.y = lerp(this.previousPosition.y, this.position.y, alpha);
+  }
+
   /**
    * Moves entity by velocity * deltaTime
    * @param deltaTime Time since last frame in seconds
@@ -3,7 +3,7 @@
  * Represents collectible items dropped by enemies (gold, health, XP).
  */
 
-import { ICollectible, IExpirable } from '@/types/components';
+import { ICollectible, IExpirable, IPoolable } from '@/types/components';
 import { PickupType } from '@/types/enums';
 import { Vector2, distance, normalize, randomAngle } from '@/utils';
 import { Entity } from './Entity';
@@ -23,46 +23,57 @@ export interface PickupConfig {
  * Pickup entity
  * Collectible items that move towards player when in range.
  */
-export class Pickup extends Entity implements IExpirable, ICollectible {
+export class Pickup extends Entity implements IExpirable, ICollectible, IPoolable<PickupConfig> {
   /** Pickup type */
-  public readonly type: PickupType;
+  public type!: PickupType;
 
   /** Value (gold amount, heal amount, etc.) */
-  public value: number;
+  public value!: number;
 
   /** Remaining lifetime in seconds */
-  public lifetime: number;
+  public lifetime!: number;
 
   /** Shrink duration in seconds */
   private readonly shrinkDuration: number = 1;
 
   /** Whether pickup is being attracted to player */
-  public isAttracted: boolean = false;
+  public isAttracted!: boolean;
 
   /** Attraction speed multiplier */
   private attractionSpeed: number = 5; // magnetSpeed in original
 
-  /** Spawn time for animation */
-  private spawnTime: number = Date.now();
+  /** Seconds since spawn, for animation */
+  private age!: number;
 
-  /** Animation offset */
-  private animationOffset: number = randomAngle();
-
-  /** Base Y position for animation */
-  private baseY: number;
+  /** Animation offset (visual only - does not affect simulation) */
+  private animationOffset!: number;
 
   public constructor(config: PickupConfig) {
     super({
       position: config.position,
       radius: 8,
     });
+    this.applyConfig(config);
+  }
 
+  /**
+   * Reinitialize for reuse from a pool
+   */
+  public reset(config: PickupConfig): void {
+    this.resetEntity({ position: config.position, radius: 8 });
+    this.applyConfig(config);
+  }
+
+  private applyConfig(config: PickupConfig): void {
     this.type = config.type;
     this.value = config.value;
 
     // Gold: 3s, Health: 15s
     this.lifetime = config.lifetime ?? (this.type === PickupType.GOLD ? 3 : 15);
-    this.baseY = config.position.y;
+
+    this.isAttracted = false;
+    this.age = 0;
+    this.animationOffset = randomAngle();
   }
 
   // ============ IExpirable ============
@@ -90,6 +101,15 @@ export class Pickup extends Entity implements IExpirable, ICollectible {
     return Math.max(0, 1 - shrinkProgress);
   }
 
+  /**
+   * Vertical up-down animation offset for rendering (0 while being collected).
+   * Kept out of position so the bobbing never changes collisions.
+   */
+  public getBobOffset(): number {
+    if (this.isAttracted) return 0;
+    return Math.sin(this.age * 3 + this.animationOffset) * 1.5;
+  }
+
   // ============ ICollectible ============
 
   /**
@@ -109,12 +129,7 @@ export class Pickup extends Entity implements IExpirable, ICollectible {
    */
   public update(deltaTime: number): void {
     this.lifetime -= deltaTime;
-
-    // Up-down animation (only when not being collected)
-    if (!this.isAttracted) {
-      const time = (Date.now() - this.spawnTime) / 1000;
-      this.position.y = this.baseY + Math.sin(time * 3 + this.animationOffset) * 1.5;
-    }
+    this.age += deltaTime;
 
     if (this.isExpired()) {
       this.destroy();
@@ -127,7 +142,7 @@ export class Pickup extends Entity implements IExpirable, ICollectible {
    * @param pickupRange Player's pickup range
    * @param deltaTime Delta time in seconds
    */
-  public updateAttraction(player: Vector2, pickupRange: number, _deltaTime: number): void {
+  public updateAttraction(player: Vector2, pickupRange: number, deltaTime: number): void {
     const dist = distance(player, this.position);
 
     if (dist <= pickupRange || this.isAttracted) {
@@ -138,9 +153,10 @@ export class Pickup extends Entity implements IExpirable, ICollectible {
       const dy = player.y - this.position.y;
       const norm = normalize({ x: dx, y: dy });
 
-      this.position.x += norm.x * this.attractionSpeed;
-      this.position.y += norm.y * this.attractionSpeed;
-      this.baseY = this.position.y; // Update base position
+      // Attraction speed is px per 60fps frame
+      const step = this.attractionSpeed * deltaTime * 60;
+      this.position.x += norm.x * step;
+      this.position.y += norm.y * step;
     }
   }
 }
@@ -4,9 +4,12 @@
  * Uses composition with optional components for different behaviors.
  */
 
-import { IExpirable, IExplosive } from '@/types/components';
-import { ProjectileType, VisualEffect } from '@/types/enums';
+import { ObstacleHit } from '@/domain/arena/type';
+import { OnHitEffect } from '@/domain/status/type';
+import { IExpirable, IExplosive, IPoolable } from '@/types/components';
+import { DamageType, ProjectileType, VisualEffect } from '@/types/enums';
 import { Vector2, distance } from '@/utils';
+import { TWO_PI } from '@/utils/math';
 import { Entity, EntityConfig } from './Entity';
 
 /**
@@ -25,6 +28,59 @@ export interface PierceComponent {
   hitEnemies: Set<number>;
 }
 
+/**
+ * Sine component - weaves sideways around its straight flight line
+ */
+export interface SineComponent {
+  /** Max sideways offset in px */
+  amplitude: number;
+  /** Oscillation speed in radians/second */
+  frequency: number;
+  /** Starting phase in radians */
+  phase: number;
+  /** Seconds in flight */
+  time: number;
+}
+
+/**
+ * Homing component - turns towards a target (see steerTowards)
+ */
+export interface HomingComponent {
+  /** Max turn in radians/second */
+  turnRate: number;
+}
+
+/**
+ * Lob component - flies over everything and lands on a fixed spot
+ */
+export interface LobComponent {
+  target: Vector2;
+  /** Seconds from throw to landing */
+  flightTime: number;
+  /** Seconds in flight */
+  elapsed: number;
+  /** Peak height of the arc in px (visual only) */
+  arcHeight: number;
+}
+
+/**
+ * Ricochet component - bounces on to the next enemy after a hit
+ */
+export interface RicochetComponent {
+  bounces: number;
+  /** Max distance to the next target in px */
+  range: number;
+  /** Set of enemy IDs already hit (never bounces back to them) */
+  hitEnemies: Set<number>;
+}
+
+/**
+ * Shootable component - player projectiles can destroy it
+ */
+export interface ShootableComponent {
+  hp: number;
+}
+
 /**
  * Projectile configuration
  */
@@ -41,10 +97,21 @@ export interface ProjectileConfig extends EntityConfig {
   // Optional components
   explosive?: ExplosiveComponent;
   pierce?: PierceComponent;
+  sine?: Omit<SineComponent, 'time'>;
+  homing?: HomingComponent;
+  lob?: Omit<LobComponent, 'elapsed'>;
+  shootable?: ShootableComponent;
+  ricochet?: Omit<RicochetComponent, 'hitEnemies'>;
 
   // Special behaviors
   rotationSpeed?: number;
   returnToOwner?: boolean;
+  /** Status effects rolled on hit (weapon or enemy that fired it) */
+  onHitEffects?: readonly OnHitEffect[];
+  /** Physical when omitted - explosions inherit it */
+  damageType?: DamageType;
+  /** Stops at arena obstacles when omitted (lobbed projectiles always fly over) */
+  obstacleHit?: ObstacleHit;
 
   // Grenade behavior
   weaponCategory?: string;
@@ -56,80 +123,120 @@ export interface ProjectileConfig extends EntityConfig {
  * Projectile entity
  * Flying objects that deal damage to enemies.
  */
-export class Projectile extends Entity implements IExpirable {
+export class Projectile extends Entity implements IExpirable, IPoolable<ProjectileConfig> {
   /** Projectile type determines behavior */
-  public readonly type: ProjectileType;
+  public type!: ProjectileType;
 
   /** Damage dealt on hit */
-  public damage: number;
+  public damage!: number;
 
   /** Owner entity ID (player) */
-  public readonly ownerId: number;
+  public ownerId!: number;
 
   /** Projectile color for rendering */
-  public color: string;
+  public color!: string;
 
   /** Distance traveled */
-  public distanceTraveled: number = 0;
+  public distanceTraveled!: number;
 
   /** Maximum travel distance (0 = infinite) */
-  public maxDistance: number;
+  public maxDistance!: number;
 
   /** Remaining lifetime in seconds (Infinity = no limit) */
-  public lifetime: number;
+  public lifetime!: number;
 
   /** Whether this was a critical hit */
-  public isCrit: boolean = false;
+  public isCrit!: boolean;
 
   /** Knockback multiplier */
-  public knockbackMultiplier: number = 1;
+  public knockbackMultiplier!: number;
 
   /** Weapon category this projectile came from */
-  public weaponCategory: string = 'gun';
+  public weaponCategory!: string;
 
   /** Explosive range for grenades (distance at which they explode) */
-  public explosiveRange: number = 0;
+  public explosiveRange!: number;
 
   /** Base speed for grenade slowdown calculation */
-  public baseSpeed: number = 0;
+  public baseSpeed!: number;
 
   /** Whether grenade should explode when it expires (reached target distance) */
-  public shouldExplodeOnExpire: boolean = false;
+  public shouldExplodeOnExpire!: boolean;
 
   /** Spawn position for distance calculation */
-  public readonly spawnPosition: Vector2;
+  public spawnPosition!: Vector2;
 
   // ============ Optional Components ============
 
   /** Explosive component - causes area damage on impact */
-  public explosive: ExplosiveComponent | null = null;
+  public explosive!: ExplosiveComponent | null;
 
   /** Pierce component - passes through enemies */
-  public pierce: PierceComponent | null = null;
+  public pierce!: PierceComponent | null;
+
+  /** Sine component - wave-shaped flight path */
+  public sine!: SineComponent | null;
+
+  /** Homing component - steers towards a target */
+  public homing!: HomingComponent | null;
+
+  /** Lob component - arcs to a landing spot, can't be hit in flight */
+  public lob!: LobComponent | null;
+
+  /** Shootable component - can be shot down */
+  public shootable!: ShootableComponent | null;
+
+  /** Ricochet component - bounces between enemies */
+  public ricochet!: RicochetComponent | null;
 
   // ============ Special Behaviors ============
 
   /** Rotation angle (for scythe, etc.) */
-  public rotation: number = 0;
+  public rotation!: number;
 
   /** Rotation speed in radians/second */
-  public rotationSpeed: number = 0;
+  public rotationSpeed!: number;
 
   /** Whether projectile returns to owner (boomerang behavior) */
-  public returnToOwner: boolean = false;
+  public returnToOwner!: boolean;
 
   /** Whether projectile is returning */
-  public isReturning: boolean = false;
+  public isReturning!: boolean;
+
+  /** Status effects rolled on hit */
+  public onHitEffects!: readonly OnHitEffect[];
+
+  public damageType!: DamageType;
+
+  public obstacleHit!: ObstacleHit;
 
   public constructor(config: ProjectileConfig) {
     super(config);
+    this.applyConfig(config);
+  }
+
+  /**
+   * Reinitialize for reuse from a pool
+   */
+  public reset(config: ProjectileConfig): void {
+    this.resetEntity(config);
+    this.applyConfig(config);
+  }
 
+  /**
+   * Sets all projectile state from config (shared by constructor and reset)
+   */
+  private applyConfig(config: ProjectileConfig): void {
     this.type = config.type;
     this.damage = config.damage;
     this.ownerId = config.ownerId;
     this.color = config.color ?? '#ffff00';
+    this.distanceTraveled = 0;
     this.maxDistance = config.maxDistance ?? 0;
     this.lifetime = config.lifetime ?? Infinity;
+    this.isCrit = false;
+    this.knockbackMultiplier = 1;
+    this.shouldExplodeOnExpire = false;
     this.spawnPosition = { ...config.position };
 
     // Grenade behavior
@@ -139,20 +246,24 @@ export class Projectile extends Entity implements IExpirable {
     this.baseSpeed = config.bulletSpeed ?? 0;
 
     // Initialize optional components
-    if (config.explosive) {
-      this.explosive = { ...config.explosive };
-    }
-
-    if (config.pierce) {
-      this.pierce = {
-        pierceCount: config.pierce.pierceCount,
-        hitEnemies: new Set(),
-      };
-    }
+    this.explosive = config.explosive ? { ...config.explosive } : null;
+    this.pierce = config.pierce
+      ? { pierceCount: config.pierce.pierceCount, hitEnemies: new Set() }
+      : null;
+    this.sine = config.sine ? { ...config.sine, time: 0 } : null;
+    this.homing = config.homing ? { ...config.homing } : null;
+    this.lob = config.lob ? { ...config.lob, target: { ...config.lob.target }, elapsed: 0 } : null;
+    this.shootable = config.shootable ? { ...config.shootable } : null;
+    this.ricochet = config.ricochet ? { ...config.ricochet, hitEnemies: new Set() } : null;
 
     // Special behaviors
+    this.rotation = 0;
     this.rotationSpeed = config.rotationSpeed ?? 0;
     this.returnToOwner = config.returnToOwner ?? false;
+    this.isReturning = false;
+    this.onHitEffects = config.onHitEffects ?? [];
+    this.damageType = config.damageType ?? DamageType.PHYSICAL;
+    this.obstacleHit = config.obstacleHit ?? 'stop';
   }
 
   // ============ Component Helpers ============
@@ -187,6 +298,52 @@ export class Projectile extends Entity implements IExpirable {
     return true;
   }
 
+  /**
+   * Deals damage to a shootable projectile
+   * @returns true if it was shot down
+   */
+  public takeHit(damage: number): boolean {
+    if (!this.shootable) return false;
+
+    this.shootable.hp -= damage;
+    if (this.shootable.hp <= 0) {
+      this.destroy();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rotates velocity towards target, limited by the homing turn rate
+   */
+  public steerTowards(target: Vector2, deltaTime: number): void {
+    if (!this.homing) return;
+
+    const vel = this.getVelocity();
+    const speed = Math.sqrt(vel.vx * vel.vx + vel.vy * vel.vy);
+    if (speed === 0) return;
+
+    const current = Math.atan2(vel.vy, vel.vx);
+    const desired = Math.atan2(target.y - this.position.y, target.x - this.position.x);
+
+    // Shortest signed angle between headings
+    let diff = (desired - current) % TWO_PI;
+    if (diff > Math.PI) diff -= TWO_PI;
+    if (diff < -Math.PI) diff += TWO_PI;
+
+    const maxTurn = this.homing.turnRate * deltaTime;
+    const angle = current + Math.max(-maxTurn, Math.min(maxTurn, diff));
+    this.setVelocity(Math.cos(angle) * speed, Math.sin(angle) * speed);
+  }
+
+  /**
+   * Lob flight progress from 0 (thrown) to 1 (landed)
+   */
+  public getLobProgress(): number {
+    if (!this.lob) return 0;
+    return Math.min(1, this.lob.elapsed / this.lob.flightTime);
+  }
+
   // ============ Expirable Interface ============
 
   /**
@@ -219,9 +376,22 @@ export class Projectile extends Entity implements IExpirable {
       this.rotation += this.rotationSpeed * deltaTime;
     }
 
+    // Lobbed projectiles follow their arc instead of velocity
+    if (this.lob) {
+      this.updateLob(deltaTime);
+      if (this.isExpired()) {
+        this.destroy();
+      }
+      return;
+    }
+
     // Apply velocity first
     this.applyVelocity(deltaTime);
 
+    if (this.sine) {
+      this.applySine(deltaTime);
+    }
+
     // Calculate distance traveled
     if (this.weaponCategory === 'grenade' && this.explosiveRange > 0) {
       // Grenades: distance from spawn point
@@ -258,4 +428,39 @@ export class Projectile extends Entity implements IExpirable {
       this.destroy();
     }
   }
+
+  /**
+   * Moves along the throw line, landing exactly on target
+   */
+  private updateLob(deltaTime: number): void {
+    const lob = this.lob!;
+    lob.elapsed += deltaTime;
+
+    const progress = this.getLobProgress();
+    this.position.x = this.spawnPosition.x + (lob.target.x - this.spawnPosition.x) * progress;
+    this.position.y = this.spawnPosition.y + (lob.target.y - this.spawnPosition.y) * progress;
+
+    if (progress >= 1) {
+      this.shouldExplodeOnExpire = true;
+    }
+  }
+
+  /**
+   * Shifts position sideways by the change of the sine offset this step
+   */
+  private applySine(deltaTime: number): void {
+    const sine = this.sine!;
+    const vel = this.getVelocity();
+    const speed = Math.sqrt(vel.vx * vel.vx + vel.vy * vel.vy);
+    if (speed === 0) return;
+
+    const before = Math.sin(sine.time * sine.frequency + sine.phase);
+    sine.time += deltaTime;
+    const after = Math.sin(sine.time * sine.frequency + sine.phase);
+    const shift = (after - before) * sine.amplitude;
+
+    // Perpendicular to the flight direction
+    this.position.x += (-vel.vy / speed) * shift;
+    this.position.y += (vel.vx / speed) * shift;
+  }
 }
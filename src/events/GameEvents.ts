@@ -1,8 +1,11 @@
-import { Enemy } from '@/domain/enemies';
+import { ArenaType } from '@/domain/arena';
+import { Boss, Enemy } from '@/domain/enemies';
 import { WeaponType } from '@/domain/weapons';
 import { Pickup, Player, Projectile } from '@/entities';
-import { CharacterType, GameState, VisualEffect } from '@/types';
+import { ReplayData, ReplayMode } from '@/systems/ReplaySystem';
+import { CharacterType, DamageType, GameState, VisualEffect, WaveEventType } from '@/types';
 import { Vector2 } from '@/utils';
+import { ScreenSide } from '@/utils/random';
 
 /**
  * Event payload types for type-safe event handling
@@ -10,11 +13,28 @@ import { Vector2 } from '@/utils';
 export interface GameEvents {
   // Combat events
   enemyDeath: { enemy: Enemy; killer: 'player' | 'explosion' };
-  enemyDamaged: { enemy: Enemy; damage: number; source: Vector2 };
-  playerHit: { player: Player; damage: number; source: Enemy | Projectile | 'explosion' };
+  // `damage` after resistances - `multiplier` is the enemy's modifier for `damageType`
+  // (no damageType for damage over time, scaled when the effect landed)
+  enemyDamaged: {
+    enemy: Enemy;
+    damage: number;
+    source: Vector2;
+    damageType?: DamageType;
+    multiplier: number;
+  };
+  playerHit: {
+    player: Player;
+    damage: number;
+    source: Enemy | Projectile | 'explosion' | 'beam' | 'status' | 'hazard';
+  };
   playerDeath: { player: Player; killedBy: Enemy | null };
   playerDodged: void;
   thornsTriggered: void;
+  // Same-type cluster fused into `enemy` (`absorbed` enemies removed)
+  enemiesMerged: { enemy: Enemy; absorbed: number };
+  // Healer pulse (`healed` allies restored)
+  enemiesHealed: { position: Vector2; radius: number; healed: number };
+  enemiesSummoned: { position: Vector2; count: number };
 
   // Weapon events
   weaponFired: { weaponType: WeaponType };
@@ -22,12 +42,15 @@ export interface GameEvents {
   // Projectile events
   projectileHit: { projectile: Projectile; target: Enemy };
   projectileExpired: { projectile: Projectile };
+  // Reflective elite bounced a player projectile back (`projectile` is the new enemy bullet)
+  projectileReflected: { enemy: Enemy; projectile: Projectile };
   explosionTriggered: {
     position: Vector2;
     radius: number;
     damage: number;
     visualEffect: VisualEffect;
   };
+  trapSnapped: { position: Vector2; radius: number };
 
   // Pickup events
   goldCollected: { amount: number; position: Vector2 };
@@ -40,6 +63,27 @@ export interface GameEvents {
   waveEnd: { waveNumber: number; enemiesKilled: number };
   bossSpawned: { enemy: Enemy; bossName: string };
   bossDefeated: { enemy: Enemy; bossName: string };
+  // Throttled with hudUpdate - every boss alive, for the boss bars
+  bossHealthUpdate: {
+    bosses: Array<{
+      id: number;
+      hp: number;
+      maxHp: number;
+      phase: number;
+      enraged: boolean;
+      /** Seconds until enrage, null when the phase never enrages */
+      enrageIn: number | null;
+    }>;
+  };
+  // Boss crossed an HP threshold - `phase` is the new phase index (1 = second phase)
+  bossPhaseChanged: { boss: Boss; phase: number };
+  // Special event announced - enemies arrive from `sides` after `duration` seconds
+  waveEventWarning: {
+    type: WaveEventType;
+    warning: string;
+    sides: ScreenSide[];
+    duration: number;
+  };
 
   // Shop events
   shopOpened: {
@@ -62,12 +106,13 @@ export interface GameEvents {
   };
   weaponPurchased: { weaponType: string; cost: number };
   weaponSold: { weaponIndex: number; sellPrice: number };
+  weaponEvolved: { from: WeaponType; to: WeaponType };
   shopError: void;
 
   // Game state events
   gamePause: void;
   gameResume: void;
-  gameOver: { score: number; wave: number; time: number };
+  gameOver: { score: number; wave: number; time: number; seed: number };
 
   // UI events
   countdownTick: { seconds: number };
@@ -90,13 +135,21 @@ export interface GameEvents {
   };
 
   // State transition requests (triggers for StateManager)
-  characterSelected: { characterType: CharacterType };
+  characterSelected: { characterType: CharacterType; arena: ArenaType };
   startGameRequested: void;
   waveCleared: void;
   pauseRequested: void;
   resumeRequested: void;
   quitToMenuRequested: void;
   restartRequested: void;
+  replayRequested: { replay: ReplayData };
+  continueRequested: void;
+
+  // Saved run rebuilt - opens the shop (emitted by Game)
+  runRestored: { characterType: CharacterType; arena: ArenaType; waveNumber: number };
+
+  // Replay notifications (emitted by ReplaySystem)
+  replayModeChanged: { mode: ReplayMode };
 
   // State change notification (emitted by StateManager)
   stateEntered: { state: GameState; from: GameState };
@@ -1,18 +1,27 @@
 import { Pickup } from '@/entities';
+import { EntityManager } from '@/managers/EntityManager';
 import { PickupType } from '@/types';
-import { Vector2 } from '@/utils';
+import { copyVector, Vector2 } from '@/utils';
 
-export function createGoldPickup(position: Vector2, value: number): Pickup {
-  return new Pickup({
-    position,
+export function createGoldPickup(
+  entityManager: EntityManager,
+  position: Vector2,
+  value: number,
+): Pickup {
+  return entityManager.createPickup({
+    position: copyVector(position),
     type: PickupType.GOLD,
     value,
   });
 }
 
-export function createHealthPickup(position: Vector2, value: number): Pickup {
-  return new Pickup({
-    position,
+export function createHealthPickup(
+  entityManager: EntityManager,
+  position: Vector2,
+  value: number,
+): Pickup {
+  return entityManager.createPickup({
+    position: copyVector(position),
     type: PickupType.HEALTH,
     value,
   });
@@ -0,0 +1,114 @@
+// @vitest-environment node
+
+import 'reflect-metadata';
+
+import { bench, describe } from 'vitest';
+
+import { RandomService } from '@/core/RandomService';
+import { Enemy } from '@/domain/enemies';
+import { EnemyType } from '@/types/enums';
+import { Vector2 } from '@/utils';
+import { EntityManager } from './EntityManager';
+
+const BOUNDS = { width: 1600, height: 1200 };
+const ENEMY_COUNTS = [500, 1000];
+/** Query points per iteration - roughly the projectiles alive in a busy wave */
+const QUERIES = 200;
+const PROJECTILE_RADIUS = 5;
+const TARGETING_RANGE = 400;
+
+/**
+ * Arena with enemyCount enemies, some of them still off-screen like fresh spawns
+ */
+function createCrowd(enemyCount: number): { entityManager: EntityManager; points: Vector2[] } {
+  const random = new RandomService();
+  random.newRun(1);
+  const entityManager = new EntityManager(random);
+  const margin = 100;
+
+  for (let i = 0; i < enemyCount; i++) {
+    const enemy = entityManager.createEnemy({
+      position: {
+        x: random.spawns.range(-margin, BOUNDS.width + margin),
+        y: random.spawns.range(-margin, BOUNDS.height + margin),
+      },
+      type: EnemyType.BASIC,
+    });
+    entityManager.addEnemy(enemy);
+  }
+  entityManager.updateSpatialIndex();
+
+  const points = Array.from({ length: QUERIES }, () => ({
+    x: random.combat.range(0, BOUNDS.width),
+    y: random.combat.range(0, BOUNDS.height),
+  }));
+
+  return { entityManager, points };
+}
+
+// ============ Linear scans (before the spatial grid) ============
+
+function scanOverlapping(entityManager: EntityManager, position: Vector2, radius: number): Enemy[] {
+  return entityManager.getActiveEnemies().filter((enemy) => {
+    const dx = enemy.position.x - position.x;
+    const dy = enemy.position.y - position.y;
+    const combinedRadius = radius + enemy.radius;
+    return dx * dx + dy * dy < combinedRadius * combinedRadius;
+  });
+}
+
+function scanNearest(
+  entityManager: EntityManager,
+  position: Vector2,
+  maxDistance: number,
+): Enemy | null {
+  let nearest: Enemy | null = null;
+  let nearestDistSq = maxDistance * maxDistance;
+  for (const enemy of entityManager.getActiveEnemies()) {
+    const { x, y } = enemy.position;
+    if (x < 0 || x > BOUNDS.width || y < 0 || y > BOUNDS.height) continue;
+
+    const dx = x - position.x;
+    const dy = y - position.y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq < nearestDistSq) {
+      nearestDistSq = distSq;
+      nearest = enemy;
+    }
+  }
+  return nearest;
+}
+
+// ============ Benchmarks ============
+
+for (const enemyCount of ENEMY_COUNTS) {
+  const { entityManager, points } = createCrowd(enemyCount);
+
+  describe(`getEnemiesOverlapping, ${enemyCount} enemies`, () => {
+    bench('spatial grid', () => {
+      for (const point of points) {
+        entityManager.getEnemiesOverlapping(point, PROJECTILE_RADIUS);
+      }
+    });
+
+    bench('linear scan', () => {
+      for (const point of points) {
+        scanOverlapping(entityManager, point, PROJECTILE_RADIUS);
+      }
+    });
+  });
+
+  describe(`getNearestEnemy, ${enemyCount} enemies`, () => {
+    bench('spatial grid', () => {
+      for (const point of points) {
+        entityManager.getNearestEnemy(point, TARGETING_RANGE, BOUNDS);
+      }
+    });
+
+    bench('linear scan', () => {
+      for (const point of points) {
+        scanNearest(entityManager, point, TARGETING_RANGE);
+      }
+    });
+  });
+}
@@ -1,24 +1,36 @@
 /**
  * EntityManager - Centralized entity lifecycle management.
- * Handles adding, removing, and querying game entities.
+ * Handles creating, adding, removing, and querying game entities.
  *
- * Future: Object pooling can be added here to reduce GC pressure.
+ * Enemies, projectiles, deployables and pickups are pooled: create them with create*()
+ * and they return to the pool when removed. Do not keep references past removal.
+ * Bosses are created through createEnemy too, but never pooled.
  */
 
-import { Enemy } from '@/domain/enemies';
+import { RandomService } from '@/core/RandomService';
+import { createBoss, Enemy, EnemyEntityConfig, isBossType } from '@/domain/enemies';
 import { Player } from '@/domain/player/Player';
-import { Deployable } from '@/entities/Deployable';
+import { Deployable, DeployableConfig } from '@/entities/Deployable';
 import { Entity } from '@/entities/Entity';
-import { Pickup } from '@/entities/Pickup';
-import { Projectile } from '@/entities/Projectile';
-import { distanceSquared, pointInRect, Vector2 } from '@/utils';
+import { Pickup, PickupConfig } from '@/entities/Pickup';
+import { Projectile, ProjectileConfig } from '@/entities/Projectile';
+import { Rectangle, Vector2 } from '@/utils';
 import { singleton } from 'tsyringe';
+import { createPoolFor, PoolStats } from './ObjectPool';
+import { SpatialGrid } from './SpatialGrid';
 
 /**
  * Entity categories for typed retrieval
  */
 export type EntityCategory = 'player' | 'enemy' | 'projectile' | 'deployable' | 'pickup';
 
+/** Grid cell size - a few enemy diameters, so most queries touch 1-4 cells */
+const SPATIAL_CELL_SIZE = 64;
+
+function isEnemyAlive(enemy: Enemy): boolean {
+  return enemy.isActive && !enemy.isDead();
+}
+
 /**
  * Manages all game entities with typed collections.
  * Provides efficient add/remove/query operations.
@@ -32,10 +44,28 @@ export class EntityManager {
   private deployables = new Map<number, Deployable>();
   private pickups = new Map<number, Pickup>();
 
+  /** Spatial indexes for neighbourhood queries (see updateSpatialIndex) */
+  private enemyGrid = new SpatialGrid<Enemy>(SPATIAL_CELL_SIZE);
+  private pickupGrid = new SpatialGrid<Pickup>(SPATIAL_CELL_SIZE);
+
+  /** Recycled entities (see create* methods) */
+  private enemyPool = createPoolFor('enemy', (config: EnemyEntityConfig) => new Enemy(config));
+  private projectilePool = createPoolFor(
+    'projectile',
+    (config: ProjectileConfig) => new Projectile(config),
+  );
+  private deployablePool = createPoolFor(
+    'deployable',
+    (config: DeployableConfig) => new Deployable(config),
+  );
+  private pickupPool = createPoolFor('pickup', (config: PickupConfig) => new Pickup(config));
+
   /** Debug mode */
   // TODO - create better approach
   private debug: boolean = false;
 
+  public constructor(private random: RandomService) {}
+
   // ========== Player ==========
 
   /**
@@ -56,8 +86,20 @@ export class EntityManager {
 
   // ========== Enemies ==========
 
+  /**
+   * Get an enemy from the pool, or a new Boss for boss types (not added yet - see addEnemy)
+   */
+  public createEnemy(config: EnemyEntityConfig): Enemy {
+    const { type } = config;
+    if (isBossType(type)) {
+      return createBoss({ ...config, type, rng: this.random.spawns.next });
+    }
+    return this.enemyPool.acquire(config);
+  }
+
   public addEnemy(enemy: Enemy): void {
     this.enemies.set(enemy.id, enemy);
+    this.enemyGrid.insert(enemy);
     this.log(`Enemy added: ${enemy.id} (type: ${enemy.type})`);
   }
 
@@ -66,7 +108,7 @@ export class EntityManager {
   }
 
   public getActiveEnemies(): Enemy[] {
-    return this.getEnemies().filter((e) => e.isActive && !e.isDead());
+    return this.getEnemies().filter(isEnemyAlive);
   }
 
   public getEnemy(id: number): Enemy | undefined {
@@ -74,9 +116,14 @@ export class EntityManager {
   }
 
   public removeEnemy(id: number): boolean {
-    const removed = this.enemies.delete(id);
-    if (removed) this.log(`Enemy removed: ${id}`);
-    return removed;
+    const enemy = this.enemies.get(id);
+    if (!enemy) return false;
+
+    enemy.destroy();
+    this.enemies.delete(id);
+    this.releaseEnemy(enemy);
+    this.log(`Enemy removed: ${id}`);
+    return true;
   }
 
   public getEnemyCount(): number {
@@ -89,6 +136,13 @@ export class EntityManager {
 
   // ========== Projectiles ==========
 
+  /**
+   * Get a projectile from the pool (not added yet - see addProjectile)
+   */
+  public createProjectile(config: ProjectileConfig): Projectile {
+    return this.projectilePool.acquire(config);
+  }
+
   public addProjectile(projectile: Projectile): void {
     this.projectiles.set(projectile.id, projectile);
     this.log(`Projectile added: ${projectile.id} (type: ${projectile.type})`);
@@ -120,13 +174,24 @@ export class EntityManager {
   }
 
   public removeProjectile(id: number): boolean {
-    const removed = this.projectiles.delete(id);
-    if (removed) this.log(`Projectile removed: ${id}`);
-    return removed;
+    const projectile = this.projectiles.get(id);
+    if (!projectile) return false;
+
+    this.projectiles.delete(id);
+    this.projectilePool.release(projectile);
+    this.log(`Projectile removed: ${id}`);
+    return true;
   }
 
   // ========== Deployables ==========
 
+  /**
+   * Get a deployable from the pool (not added yet - see addDeployable)
+   */
+  public createDeployable(config: DeployableConfig): Deployable {
+    return this.deployablePool.acquire(config);
+  }
+
   /**
    * Add a deployable
    */
@@ -160,18 +225,30 @@ export class EntityManager {
    * Remove a deployable
    */
   public removeDeployable(id: number): boolean {
-    const removed = this.deployables.delete(id);
-    if (removed) this.log(`Deployable removed: ${id}`);
-    return removed;
+    const deployable = this.deployables.get(id);
+    if (!deployable) return false;
+
+    this.deployables.delete(id);
+    this.deployablePool.release(deployable);
+    this.log(`Deployable removed: ${id}`);
+    return true;
   }
 
   // ========== Pickups ==========
 
+  /**
+   * Get a pickup from the pool (not added yet - see addPickup)
+   */
+  public createPickup(config: PickupConfig): Pickup {
+    return this.pickupPool.acquire(config);
+  }
+
   /**
    * Add a pickup
    */
   public addPickup(pickup: Pickup): void {
     this.pickups.set(pickup.id, pickup);
+    this.pickupGrid.insert(pickup);
     this.log(`Pickup added: ${pickup.id} (type: ${pickup.type})`);
   }
 
@@ -193,9 +270,13 @@ export class EntityManager {
    * Remove a pickup
    */
   public removePickup(id: number): boolean {
-    const removed = this.pickups.delete(id);
-    if (removed) this.log(`Pickup removed: ${id}`);
-    return removed;
+    const pickup = this.pickups.get(id);
+    if (!pickup) return false;
+
+    this.pickups.delete(id);
+    this.pickupPool.release(pickup);
+    this.log(`Pickup removed: ${id}`);
+    return true;
   }
 
   // ========== Bulk Operations ==========
@@ -236,6 +317,36 @@ export class EntityManager {
     });
   }
 
+  /**
+   * Snapshot positions of all entities before a simulation tick.
+   * Renderers interpolate between this snapshot and the post-tick position.
+   */
+  public storePreviousPositions(): void {
+    this.player?.storePreviousPosition();
+    this.enemies.forEach((enemy) => {
+      enemy.storePreviousPosition();
+    });
+    this.projectiles.forEach((projectile) => {
+      projectile.storePreviousPosition();
+    });
+    this.deployables.forEach((deployable) => {
+      deployable.storePreviousPosition();
+    });
+    this.pickups.forEach((pickup) => {
+      pickup.storePreviousPosition();
+    });
+  }
+
+  /**
+   * Rebuild spatial indexes from current positions.
+   * Call after entities moved and before queries that rely on fresh positions.
+   * Entities added in between are indexed immediately at their spawn position.
+   */
+  public updateSpatialIndex(): void {
+    this.enemyGrid.rebuild(this.enemies.values());
+    this.pickupGrid.rebuild(this.pickups.values());
+  }
+
   /**
    * Remove all inactive entities (cleanup)
    * @returns Number of entities removed
@@ -247,6 +358,7 @@ export class EntityManager {
     this.enemies.forEach((enemy, id) => {
       if (!enemy.isActive) {
         this.enemies.delete(id);
+        this.releaseEnemy(enemy);
         removed++;
       }
     });
@@ -255,6 +367,7 @@ export class EntityManager {
     this.projectiles.forEach((projectile, id) => {
       if (!projectile.isActive) {
         this.projectiles.delete(id);
+        this.projectilePool.release(projectile);
         removed++;
       }
     });
@@ -263,6 +376,7 @@ export class EntityManager {
     this.deployables.forEach((deployable, id) => {
       if (!deployable.isActive) {
         this.deployables.delete(id);
+        this.deployablePool.release(deployable);
         removed++;
       }
     });
@@ -271,6 +385,7 @@ export class EntityManager {
     this.pickups.forEach((pickup, id) => {
       if (!pickup.isActive) {
         this.pickups.delete(id);
+        this.pickupPool.release(pickup);
         removed++;
       }
     });
@@ -331,10 +446,9 @@ export class EntityManager {
    */
   public clear(): void {
     this.player = null;
-    this.enemies.clear();
-    this.projectiles.clear();
-    this.deployables.clear();
-    this.pickups.clear();
+    this.releaseAll();
+    this.enemyGrid.clear();
+    this.pickupGrid.clear();
     this.log('All entities cleared');
   }
 
@@ -342,23 +456,79 @@ export class EntityManager {
    * Clear all except player
    */
   public clearExceptPlayer(): void {
+    this.releaseAll();
+    this.enemyGrid.clear();
+    this.pickupGrid.clear();
+    this.log('All entities except player cleared');
+  }
+
+  /**
+   * Empty all pooled collections, returning entities to their pools
+   */
+  private releaseAll(): void {
+    this.enemies.forEach((enemy) => {
+      this.releaseEnemy(enemy);
+    });
+    this.projectiles.forEach((projectile) => {
+      this.projectilePool.release(projectile);
+    });
+    this.deployables.forEach((deployable) => {
+      this.deployablePool.release(deployable);
+    });
+    this.pickups.forEach((pickup) => {
+      this.pickupPool.release(pickup);
+    });
+
     this.enemies.clear();
     this.projectiles.clear();
     this.deployables.clear();
     this.pickups.clear();
-    this.log('All entities except player cleared');
+  }
+
+  // ========== Pools ==========
+
+  /**
+   * Bosses are left to the GC - a pooled one would come back as a regular enemy
+   */
+  private releaseEnemy(enemy: Enemy): void {
+    if (!enemy.isBoss) {
+      this.enemyPool.release(enemy);
+    }
+  }
+
+  public getPoolStats(): PoolStats[] {
+    return [
+      this.enemyPool.getStats(),
+      this.projectilePool.getStats(),
+      this.deployablePool.getStats(),
+      this.pickupPool.getStats(),
+    ];
   }
 
   // ========== Query Helpers ==========
+  // Backed by the spatial grid - positions are as of the last updateSpatialIndex()
 
   /**
-   * Find enemies within radius of a point
+   * Find enemies within radius of a point (by enemy center)
    */
   public getEnemiesInRadius(position: Vector2, radius: number): Enemy[] {
-    const radiusSq = radius * radius;
-    return this.getActiveEnemies().filter((enemy) => {
-      return distanceSquared(enemy.position, position) <= radiusSq;
-    });
+    return this.enemyGrid.queryRadius(position, radius).filter(isEnemyAlive);
+  }
+
+  /**
+   * Find enemies whose body overlaps a circle (contact checks)
+   */
+  public getEnemiesOverlapping(position: Vector2, radius: number): Enemy[] {
+    return this.enemyGrid.queryOverlapping(position, radius).filter(isEnemyAlive);
+  }
+
+  /**
+   * Find enemies with center inside a rectangle
+   */
+  public getEnemiesInRect(rect: Rectangle): Enemy[] {
+    return this.enemyGrid
+      .queryRect(rect.position.x, rect.position.y, rect.width, rect.height)
+      .filter(isEnemyAlive);
   }
 
   /**
@@ -372,39 +542,30 @@ export class EntityManager {
     maxDistance?: number,
     canvasBounds?: { width: number; height: number },
   ): Enemy | null {
-    let nearest: Enemy | null = null;
-    let nearestDistSq = maxDistance ? maxDistance * maxDistance : Infinity;
+    return this.enemyGrid.findNearest(position, maxDistance ?? Infinity, (enemy) => {
+      if (!isEnemyAlive(enemy)) return false;
 
-    this.getActiveEnemies().forEach((enemy) => {
       // Filter out enemies outside the map bounds
       if (canvasBounds) {
-        const mapRect = {
-          position: { x: 0, y: 0 },
-          width: canvasBounds.width,
-          height: canvasBounds.height,
-        };
-        if (!pointInRect(enemy.position, mapRect)) return; // Skip enemies outside
-      }
-
-      const distSq = distanceSquared(enemy.position, position);
-
-      if (distSq < nearestDistSq) {
-        nearestDistSq = distSq;
-        nearest = enemy;
+        const { x, y } = enemy.position;
+        return x >= 0 && x <= canvasBounds.width && y >= 0 && y <= canvasBounds.height;
       }
+      return true;
     });
-
-    return nearest;
   }
 
   /**
    * Find pickups within radius of a point
    */
   public getPickupsInRadius(position: Vector2, radius: number): Pickup[] {
-    const radiusSq = radius * radius;
-    return this.getActivePickups().filter((pickup) => {
-      return distanceSquared(pickup.position, position) <= radiusSq;
-    });
+    return this.pickupGrid.queryRadius(position, radius).filter((pickup) => pickup.isActive);
+  }
+
+  /**
+   * Find pickups whose body overlaps a circle (collection checks)
+   */
+  public getPickupsOverlapping(position: Vector2, radius: number): Pickup[] {
+    return this.pickupGrid.queryOverlapping(position, radius).filter((pickup) => pickup.isActive);
   }
 
   // ========== Debug ==========
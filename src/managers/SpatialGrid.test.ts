@@ -0,0 +1,115 @@
+// @vitest-environment node
+
+import { describe, expect, it } from 'vitest';
+
+import { SpatialGrid, SpatialItem } from './SpatialGrid';
+
+interface Item extends SpatialItem {
+  id: string;
+}
+
+const item = (id: string, x: number, y: number, radius = 5): Item => ({
+  id,
+  position: { x, y },
+  radius,
+});
+
+const ids = (items: Item[]): string[] => items.map((i) => i.id).sort();
+
+describe('SpatialGrid', () => {
+  describe('queryRadius', () => {
+    it('returns items whose center lies within the radius', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.rebuild([item('near', 10, 0), item('edge', 30, 40), item('far', 200, 200)]);
+
+      expect(ids(grid.queryRadius({ x: 0, y: 0 }, 50))).toEqual(['edge', 'near']);
+      expect(ids(grid.queryRadius({ x: 0, y: 0 }, 49))).toEqual(['near']);
+    });
+
+    it('ignores item radius', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.insert(item('big', 60, 0, 30));
+
+      expect(grid.queryRadius({ x: 0, y: 0 }, 40)).toEqual([]);
+    });
+
+    it('returns nothing from an empty grid', () => {
+      const grid = new SpatialGrid<Item>(50);
+
+      expect(grid.queryRadius({ x: 0, y: 0 }, 1000)).toEqual([]);
+    });
+  });
+
+  describe('queryOverlapping', () => {
+    it('includes items whose circle reaches into the query circle', () => {
+      const grid = new SpatialGrid<Item>(50);
+      // Center is in another cell, only the large radius reaches back
+      grid.rebuild([item('big', 120, 0, 80), item('small', 120, 10, 5)]);
+
+      expect(ids(grid.queryOverlapping({ x: 0, y: 0 }, 50))).toEqual(['big']);
+    });
+
+    it('does not count touching circles', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.insert(item('touching', 20, 0, 10));
+
+      expect(grid.queryOverlapping({ x: 0, y: 0 }, 10)).toEqual([]);
+      expect(ids(grid.queryOverlapping({ x: 0, y: 0 }, 10.5))).toEqual(['touching']);
+    });
+  });
+
+  describe('findNearest', () => {
+    it('returns the closest item across cells', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.rebuild([item('a', 300, 0), item('b', 0, 140), item('c', -260, -260)]);
+
+      expect(grid.findNearest({ x: 0, y: 0 })?.id).toBe('b');
+    });
+
+    it('respects maxDistance', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.insert(item('a', 300, 0));
+
+      expect(grid.findNearest({ x: 0, y: 0 }, 299)).toBeNull();
+      expect(grid.findNearest({ x: 0, y: 0 }, 301)?.id).toBe('a');
+    });
+
+    it('skips items rejected by the predicate', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.rebuild([item('near', 10, 0), item('far', 100, 0)]);
+
+      expect(grid.findNearest({ x: 0, y: 0 }, Infinity, (i) => i.id !== 'near')?.id).toBe('far');
+    });
+
+    it('returns null from an empty grid', () => {
+      const grid = new SpatialGrid<Item>(50);
+
+      expect(grid.findNearest({ x: 0, y: 0 })).toBeNull();
+    });
+  });
+
+  describe('negative coordinates', () => {
+    it('keeps off-screen cells apart', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.rebuild([
+        item('top-left', -30, -30),
+        item('left', -30, 30),
+        item('top', 30, -30),
+        item('inside', 30, 30),
+      ]);
+
+      expect(ids(grid.queryRect(-50, -50, 49, 49))).toEqual(['top-left']);
+      expect(ids(grid.queryRadius({ x: -30, y: 30 }, 10))).toEqual(['left']);
+      expect(grid.findNearest({ x: -100, y: -10 })?.id).toBe('top-left');
+    });
+
+    it('finds items spawned far outside the arena', () => {
+      const grid = new SpatialGrid<Item>(50);
+      grid.rebuild([item('spawn', -400, -300), item('arena', 500, 500)]);
+
+      expect(ids(grid.queryRadius({ x: -380, y: -300 }, 25))).toEqual(['spawn']);
+      expect(ids(grid.queryOverlapping({ x: -420, y: -300 }, 20))).toEqual(['spawn']);
+      expect(grid.findNearest({ x: 0, y: 0 })?.id).toBe('spawn');
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * SpatialGrid - uniform grid (spatial hash) for neighbourhood queries.
+ * Items are bucketed by their center; queries only visit cells that can contain a match,
+ * which turns "every projectile vs every enemy" into "every projectile vs nearby enemies".
+ *
+ * The grid is a snapshot - positions change by direct mutation, so the owner
+ * rebuilds it once positions settle (EntityManager.updateSpatialIndex).
+ */
+
+import { Vector2 } from '@/utils/math';
+
+/**
+ * Anything with a position and a collision radius
+ */
+export interface SpatialItem {
+  position: Vector2;
+  radius: number;
+}
+
+/** Cell coordinates are offset so negative positions (off-screen spawns) get valid keys */
+const CELL_OFFSET = 1 << 15;
+const CELL_STRIDE = 1 << 16;
+
+export class SpatialGrid<T extends SpatialItem> {
+  private cells = new Map<number, T[]>();
+  private count: number = 0;
+
+  /** Largest radius inserted - overlap queries widen their search by it */
+  private maxItemRadius: number = 0;
+
+  // Occupied cell range - bounds nearest-neighbour search
+  private minCellX: number = Infinity;
+  private maxCellX: number = -Infinity;
+  private minCellY: number = Infinity;
+  private maxCellY: number = -Infinity;
+
+  public constructor(private cellSize: number) {}
+
+  public clear(): void {
+    this.cells.clear();
+    this.count = 0;
+    this.maxItemRadius = 0;
+    this.minCellX = Infinity;
+    this.maxCellX = -Infinity;
+    this.minCellY = Infinity;
+    this.maxCellY = -Infinity;
+  }
+
+  public insert(item: T): void {
+    const cx = this.toCell(item.position.x);
+    const cy = this.toCell(item.position.y);
+    const key = this.key(cx, cy);
+
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      this.cells.set(key, [item]);
+    }
+
+    this.count++;
+    this.maxItemRadius = Math.max(this.maxItemRadius, item.radius);
+    this.minCellX = Math.min(this.minCellX, cx);
+    this.maxCellX = Math.max(this.maxCellX, cx);
+    this.minCellY = Math.min(this.minCellY, cy);
+    this.maxCellY = Math.max(this.maxCellY, cy);
+  }
+
+  /**
+   * Rebuild from scratch
+   */
+  public rebuild(items: Iterable<T>): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  public size(): number {
+    return this.count;
+  }
+
+  // ============ Queries ============
+
+  /**
+   * Items whose center lies within radius of position
+   */
+  public queryRadius(position: Vector2, radius: number): T[] {
+    const radiusSq = radius * radius;
+    return this.collect(
+      position.x - radius,
+      position.y - radius,
+      position.x + radius,
+      position.y + radius,
+      (item) => {
+        const dx = item.position.x - position.x;
+        const dy = item.position.y - position.y;
+        return dx * dx + dy * dy <= radiusSq;
+      },
+    );
+  }
+
+  /**
+   * Items whose circle overlaps the given circle (strict, touching does not count)
+   */
+  public queryOverlapping(position: Vector2, radius: number): T[] {
+    const reach = radius + this.maxItemRadius;
+    return this.collect(
+      position.x - reach,
+      position.y - reach,
+      position.x + reach,
+      position.y + reach,
+      (item) => {
+        const dx = item.position.x - position.x;
+        const dy = item.position.y - position.y;
+        const combinedRadius = radius + item.radius;
+        return dx * dx + dy * dy < combinedRadius * combinedRadius;
+      },
+    );
+  }
+
+  /**
+   * Items whose center lies inside the rectangle
+   */
+  public queryRect(x: number, y: number, width: number, height: number): T[] {
+    return this.collect(
+      x,
+      y,
+      x + width,
+      y + height,
+      (item) =>
+        item.position.x >= x &&
+        item.position.x <= x + width &&
+        item.position.y >= y &&
+        item.position.y <= y + height,
+    );
+  }
+
+  /**
+   * Closest item (by center) searching outward ring by ring
+   * @param maxDistance Ignore items further than this
+   * @param predicate Extra filter (e.g. alive, inside the arena)
+   */
+  public findNearest(
+    position: Vector2,
+    maxDistance: number = Infinity,
+    predicate?: (item: T) => boolean,
+  ): T | null {
+    if (this.count === 0) return null;
+
+    const cx = this.toCell(position.x);
+    const cy = this.toCell(position.y);
+
+    // Rings needed to reach every occupied cell
+    const maxRing = Math.max(
+      Math.abs(cx - this.minCellX),
+      Math.abs(this.maxCellX - cx),
+      Math.abs(cy - this.minCellY),
+      Math.abs(this.maxCellY - cy),
+    );
+
+    let nearest: T | null = null;
+    let nearestDistSq = maxDistance * maxDistance;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Every cell of this ring is at least (ring - 1) cells away from position
+      const ringDistance = Math.max(0, ring - 1) * this.cellSize;
+      if (ringDistance * ringDistance > nearestDistSq) break;
+
+      for (let x = cx - ring; x <= cx + ring; x++) {
+        // Only the ring perimeter - inner cells were visited already
+        const onEdgeColumn = x === cx - ring || x === cx + ring;
+        const step = onEdgeColumn ? 1 : ring * 2;
+
+        for (let y = cy - ring; y <= cy + ring; y += step) {
+          const cell = this.cells.get(this.key(x, y));
+          if (!cell) continue;
+
+          for (const item of cell) {
+            const dx = item.position.x - position.x;
+            const dy = item.position.y - position.y;
+            const distSq = dx * dx + dy * dy;
+            if (distSq < nearestDistSq && (!predicate || predicate(item))) {
+              nearestDistSq = distSq;
+              nearest = item;
+            }
+          }
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  // ============ Internals ============
+
+  private collect(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    accept: (item: T) => boolean,
+  ): T[] {
+    const result: T[] = [];
+    if (this.count === 0) return result;
+
+    // Clamp to occupied range - huge radii must not walk empty cells
+    const startX = Math.max(this.toCell(minX), this.minCellX);
+    const endX = Math.min(this.toCell(maxX), this.maxCellX);
+    const startY = Math.max(this.toCell(minY), this.minCellY);
+    const endY = Math.min(this.toCell(maxY), this.maxCellY);
+
+    for (let x = startX; x <= endX; x++) {
+      for (let y = startY; y <= endY; y++) {
+        const cell = this.cells.get(this.key(x, y));
+        if (!cell) continue;
+
+        for (const item of cell) {
+          if (accept(item)) result.push(item);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private key(cx: number, cy: number): number {
+    return (cx + CELL_OFFSET) * CELL_STRIDE + (cy + CELL_OFFSET);
+  }
+}
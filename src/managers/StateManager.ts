@@ -29,7 +29,8 @@ export class StateManager {
    * Maps each state to the set of valid destination states.
    */
   private setupValidTransitions(): void {
-    this.validTransitions.set(GameState.MENU, new Set([GameState.PLAYING]));
+    // MENU → SHOP resumes a saved run
+    this.validTransitions.set(GameState.MENU, new Set([GameState.PLAYING, GameState.SHOP]));
     this.validTransitions.set(
       GameState.PLAYING,
       new Set([GameState.SHOP, GameState.PAUSED, GameState.GAME_OVER]),
@@ -50,6 +51,7 @@ export class StateManager {
     EventBus.on('quitToMenuRequested', () => this.transitionTo(GameState.MENU));
     EventBus.on('playerDeath', () => this.transitionTo(GameState.GAME_OVER));
     EventBus.on('restartRequested', () => this.transitionTo(GameState.MENU));
+    EventBus.on('runRestored', () => this.transitionTo(GameState.SHOP));
   }
 
   /**
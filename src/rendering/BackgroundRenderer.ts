@@ -1,12 +1,26 @@
-export function renderBackground(ctx: CanvasRenderingContext2D): void {
+import { HAZARDS } from '@/config/hazards.config';
+import { ArenaTheme } from '@/domain/arena';
+import { Hazard } from '@/systems/EffectsSystem';
+import { HazardType } from '@/types/enums';
+import { TWO_PI } from '@/utils/math';
+
+/** Pools fade out over their last half second */
+const HAZARD_FADE_TIME = 500; // ms
+/** Electric field flash after each pulse */
+const PULSE_FLASH_TIME = 250; // ms
+
+/**
+ * Arena ground - fill and grid in the arena's colors
+ */
+export function renderBackground(ctx: CanvasRenderingContext2D, theme: ArenaTheme): void {
   // Clear
-  ctx.fillStyle = '#16213e';
+  ctx.fillStyle = theme.background;
   ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
 
   // Grid pattern
-  ctx.strokeStyle = '#1a2744';
+  ctx.strokeStyle = theme.grid;
   ctx.lineWidth = 1;
-  const gridSize = 40;
+  const gridSize = theme.gridSize;
   for (let x = 0; x < ctx.canvas.width; x += gridSize) {
     ctx.beginPath();
     ctx.moveTo(x, 0);
@@ -20,3 +34,155 @@ export function renderBackground(ctx: CanvasRenderingContext2D): void {
     ctx.stroke();
   }
 }
+
+/**
+ * Renders hazards on the ground (over the background, under entities).
+ * While telegraphed a hazard is a dashed outline filling up towards activation.
+ */
+export function renderHazards(
+  ctx: CanvasRenderingContext2D,
+  hazards: readonly Hazard[],
+  currentTime: number,
+): void {
+  for (const hazard of hazards) {
+    ctx.save();
+
+    if (currentTime < hazard.activeAt) {
+      drawTelegraph(ctx, hazard, currentTime);
+    } else {
+      const fade = Math.min(1, (hazard.expiresAt - currentTime) / HAZARD_FADE_TIME);
+      ctx.globalAlpha = Math.max(0, fade);
+
+      switch (hazard.type) {
+        case HazardType.LAVA:
+        case HazardType.ACID:
+          drawPool(ctx, hazard, currentTime);
+          break;
+        case HazardType.ELECTRIC:
+          drawElectricField(ctx, hazard, currentTime);
+          break;
+        case HazardType.METEOR:
+          // Impact is drawn as an explosion
+          break;
+      }
+    }
+
+    ctx.restore();
+  }
+}
+
+function drawTelegraph(ctx: CanvasRenderingContext2D, hazard: Hazard, currentTime: number): void {
+  const { color } = HAZARDS[hazard.type];
+  const progress = (currentTime - hazard.created) / (hazard.activeAt - hazard.created);
+  const blink = 0.5 + 0.3 * Math.sin(currentTime / 60);
+
+  // Filling core
+  ctx.globalAlpha = 0.25;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(hazard.x, hazard.y, hazard.radius * progress, 0, TWO_PI);
+  ctx.fill();
+
+  // Dashed edge
+  ctx.globalAlpha = blink;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  ctx.arc(hazard.x, hazard.y, hazard.radius, 0, TWO_PI);
+  ctx.stroke();
+
+  // Meteor crosshair
+  if (hazard.type === HazardType.METEOR) {
+    const arm = hazard.radius * 0.4;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(hazard.x - arm, hazard.y);
+    ctx.lineTo(hazard.x + arm, hazard.y);
+    ctx.moveTo(hazard.x, hazard.y - arm);
+    ctx.lineTo(hazard.x, hazard.y + arm);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Lava or acid pool with slowly bubbling blobs
+ */
+function drawPool(ctx: CanvasRenderingContext2D, hazard: Hazard, currentTime: number): void {
+  const { color } = HAZARDS[hazard.type];
+
+  const gradient = ctx.createRadialGradient(
+    hazard.x,
+    hazard.y,
+    0,
+    hazard.x,
+    hazard.y,
+    hazard.radius,
+  );
+  gradient.addColorStop(0, color);
+  gradient.addColorStop(0.7, color + 'aa');
+  gradient.addColorStop(1, color + '00');
+
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(hazard.x, hazard.y, hazard.radius, 0, TWO_PI);
+  ctx.fill();
+
+  // Bubbles - fixed angles per pool, radius breathing with time
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  for (let i = 0; i < 5; i++) {
+    const angle = (i / 5) * TWO_PI + hazard.created;
+    const dist = hazard.radius * (0.25 + 0.1 * i);
+    const size = 3 + 2 * Math.sin(currentTime / 200 + i * 1.7);
+    if (size <= 1) continue;
+    ctx.beginPath();
+    ctx.arc(hazard.x + Math.cos(angle) * dist, hazard.y + Math.sin(angle) * dist, size, 0, TWO_PI);
+    ctx.fill();
+  }
+}
+
+/**
+ * Faint field, bright with arcs right after each pulse
+ */
+function drawElectricField(
+  ctx: CanvasRenderingContext2D,
+  hazard: Hazard,
+  currentTime: number,
+): void {
+  const { color } = HAZARDS[hazard.type];
+  const flash = Math.max(0, 1 - (currentTime - hazard.lastTickAt) / PULSE_FLASH_TIME);
+
+  ctx.fillStyle = color;
+  ctx.globalAlpha *= 0.15 + 0.35 * flash;
+  ctx.beginPath();
+  ctx.arc(hazard.x, hazard.y, hazard.radius, 0, TWO_PI);
+  ctx.fill();
+
+  ctx.globalAlpha = Math.min(1, ctx.globalAlpha * 3);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(hazard.x, hazard.y, hazard.radius, 0, TWO_PI);
+  ctx.stroke();
+
+  if (flash <= 0) return;
+
+  // Jagged arcs from the center - shape changes every frame of the flash
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1.5;
+  const seed = Math.floor(currentTime / 50);
+  for (let i = 0; i < 6; i++) {
+    const angle = (i / 6) * TWO_PI + seed;
+    ctx.beginPath();
+    ctx.moveTo(hazard.x, hazard.y);
+    for (let step = 1; step <= 4; step++) {
+      const dist = (hazard.radius * step) / 4;
+      const jitter = Math.sin(seed * 7 + i * 13 + step * 5) * 0.3;
+      ctx.lineTo(
+        hazard.x + Math.cos(angle + jitter) * dist,
+        hazard.y + Math.sin(angle + jitter) * dist,
+      );
+    }
+    ctx.stroke();
+  }
+}
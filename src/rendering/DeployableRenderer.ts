@@ -11,18 +11,21 @@ export function renderDeployable(
   currentTime: number,
 ): void {
   ctx.save();
-  ctx.translate(deployable.position.x, deployable.position.y);
+  ctx.translate(deployable.renderPosition.x, deployable.renderPosition.y);
 
   switch (deployable.type) {
     case DeployableType.MINE:
       drawMine(ctx, deployable, currentTime);
       break;
     case DeployableType.TURRET:
-      drawTurret(ctx, deployable);
+      drawTurret(ctx, deployable, currentTime);
       break;
     case DeployableType.TRAP:
       drawTrap(ctx, deployable);
       break;
+    case DeployableType.LURE:
+      drawLure(ctx, deployable, currentTime);
+      break;
     default:
       throw new Error(`Unknown deployable type: ${deployable.type as string}`);
   }
@@ -56,37 +59,66 @@ function drawMine(ctx: CanvasRenderingContext2D, d: Deployable, currentTime: num
 }
 
 /**
- * Turret - placeholder for future implementation
+ * Turret - base with a barrel aimed at its last target.
+ * Shows its range ring while being set up, blinks when about to break down.
  */
-function drawTurret(ctx: CanvasRenderingContext2D, d: Deployable): void {
+function drawTurret(ctx: CanvasRenderingContext2D, d: Deployable, currentTime: number): void {
+  if (!d.isArmed && d.turret) {
+    ctx.beginPath();
+    ctx.arc(0, 0, d.turret.range, 0, TWO_PI);
+    ctx.fillStyle = 'rgba(102, 204, 255, 0.08)';
+    ctx.fill();
+    ctx.setLineDash([6, 6]);
+    ctx.strokeStyle = 'rgba(102, 204, 255, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  if (d.lifetime < 2 && Math.floor((currentTime + d.blinkOffset) / 150) % 2) {
+    ctx.globalAlpha = 0.4;
+  }
+
   // Base
   ctx.beginPath();
   ctx.arc(0, 0, d.radius, 0, TWO_PI);
   ctx.fillStyle = '#555555';
   ctx.fill();
 
+  // Border
+  ctx.strokeStyle = d.isArmed ? d.color : '#888888';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
   // Gun barrel
+  ctx.rotate(d.turret?.angle ?? 0);
   ctx.beginPath();
   ctx.rect(0, -3, d.radius + 5, 6);
   ctx.fillStyle = '#333333';
   ctx.fill();
-
-  // Border
   ctx.strokeStyle = '#888888';
-  ctx.lineWidth = 2;
   ctx.stroke();
 }
 
 /**
- * Trap - placeholder for future implementation
+ * Trap - spiky jaws with a faint snap radius, closed while re-arming
  */
 function drawTrap(ctx: CanvasRenderingContext2D, d: Deployable): void {
-  // Spiky circle
+  if (d.trap) {
+    ctx.beginPath();
+    ctx.arc(0, 0, d.trap.radius, 0, TWO_PI);
+    ctx.strokeStyle = 'rgba(139, 69, 19, 0.3)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  // Spiky circle - spikes pulled in while closed
+  const spikeLength = d.isArmed ? 1 : 0.8;
   ctx.beginPath();
   const spikes = 8;
   for (let i = 0; i < spikes * 2; i++) {
     const angle = (i * Math.PI) / spikes;
-    const r = i % 2 === 0 ? d.radius : d.radius * 0.6;
+    const r = i % 2 === 0 ? d.radius * spikeLength : d.radius * 0.6;
     const x = Math.cos(angle) * r;
     const y = Math.sin(angle) * r;
     if (i === 0) {
@@ -96,9 +128,43 @@ function drawTrap(ctx: CanvasRenderingContext2D, d: Deployable): void {
     }
   }
   ctx.closePath();
-  ctx.fillStyle = '#8b4513';
+  ctx.fillStyle = d.isArmed ? d.color : '#5c3317';
   ctx.fill();
   ctx.strokeStyle = '#5c3317';
   ctx.lineWidth = 2;
   ctx.stroke();
 }
+
+/**
+ * Lure - bait with its attraction ring and an HP bar
+ */
+function drawLure(ctx: CanvasRenderingContext2D, d: Deployable, currentTime: number): void {
+  if (!d.lure) return;
+
+  // Attraction ring - slowly pulsing
+  const pulse = 0.15 + 0.1 * Math.sin((currentTime + d.blinkOffset) / 300);
+  ctx.beginPath();
+  ctx.arc(0, 0, d.lure.radius, 0, TWO_PI);
+  ctx.setLineDash([4, 8]);
+  ctx.strokeStyle = `rgba(255, 127, 80, ${pulse})`;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Bait
+  ctx.beginPath();
+  ctx.arc(0, 0, d.radius, 0, TWO_PI);
+  ctx.fillStyle = d.color;
+  ctx.fill();
+  ctx.strokeStyle = '#8b0000';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // HP bar
+  const barWidth = d.radius * 2;
+  const hpRatio = Math.max(0, d.lure.hp / d.lure.maxHp);
+  ctx.fillStyle = '#333';
+  ctx.fillRect(-barWidth / 2, -d.radius - 8, barWidth, 4);
+  ctx.fillStyle = '#4caf50';
+  ctx.fillRect(-barWidth / 2, -d.radius - 8, barWidth * hpRatio, 4);
+}
@@ -1,18 +1,28 @@
-import { Enemy } from '@/domain/enemies';
-import { TWO_PI } from '@/utils/math';
+import { Boss, ELITE_AFFIXES, EliteAffix, Enemy } from '@/domain/enemies';
+import { STATUS_EFFECTS, StatusEffects, StatusEffectType } from '@/domain/status';
+import { TWO_PI, Vector2 } from '@/utils/math';
 
 /**
  * Renders an enemy to the canvas.
  */
 export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
   ctx.save();
-  ctx.translate(enemy.position.x, enemy.position.y);
+  ctx.translate(enemy.renderPosition.x, enemy.renderPosition.y);
 
   // Ghost transparency
   if (enemy.phasing) {
     ctx.globalAlpha = 0.6 + Math.sin(Date.now() / 200) * 0.2;
   }
 
+  if (enemy.isElite()) {
+    drawEliteAuras(ctx, enemy);
+  }
+
+  const telegraph = enemy.getChargeTelegraph();
+  if (telegraph) {
+    drawChargeTelegraph(ctx, enemy, telegraph);
+  }
+
   // Body
   ctx.beginPath();
   ctx.arc(0, 0, enemy.radius, 0, TWO_PI);
@@ -31,11 +41,30 @@ export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
 
   drawEyes(ctx, enemy);
 
+  if (enemy.config.heal) {
+    drawHealerMark(ctx, enemy);
+  }
+  if (enemy.config.summon) {
+    drawSummonerMark(ctx, enemy);
+  }
+
+  if (!enemy.statusEffects.isEmpty()) {
+    drawStatusEffects(ctx, enemy.statusEffects, enemy.radius);
+  }
+
+  if (enemy.mergeCount > 1) {
+    drawMergedMarks(ctx, enemy);
+  }
+
   if (enemy.isBoss) {
     drawBossCrown(ctx, enemy);
     drawBossName(ctx, enemy);
   }
 
+  if (enemy instanceof Boss) {
+    drawBossState(ctx, enemy);
+  }
+
   // TODO: hmmm probably it does not work, or is not visible enough
   // Exploder warning glow
   if (enemy.explodeOnDeath) {
@@ -90,6 +119,38 @@ function drawBossCrown(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
   ctx.fill();
 }
 
+/**
+ * Phase transition shield, charge wind-up and enrage aura
+ */
+function drawBossState(ctx: CanvasRenderingContext2D, boss: Boss): void {
+  const pulse = Math.sin(Date.now() / 100);
+
+  if (boss.isTransitioning()) {
+    ctx.beginPath();
+    ctx.arc(0, 0, boss.radius + 12 + pulse * 3, 0, TWO_PI);
+    ctx.strokeStyle = 'rgba(120, 200, 255, 0.8)';
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    return;
+  }
+
+  if (boss.isWindingUp()) {
+    ctx.beginPath();
+    ctx.arc(0, 0, boss.radius + 6, 0, TWO_PI);
+    ctx.strokeStyle = `rgba(255, 255, 255, ${0.5 + pulse * 0.4})`;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  }
+
+  if (boss.isEnraged()) {
+    ctx.beginPath();
+    ctx.arc(0, 0, boss.radius + 4, 0, TWO_PI);
+    ctx.strokeStyle = `rgba(255, 40, 40, ${0.6 + pulse * 0.3})`;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  }
+}
+
 function drawBossName(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
   // TODO it shouldn't be necessary to check again
   if (!enemy.bossName) return;
@@ -102,3 +163,223 @@ function drawBossName(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
   ctx.fillStyle = '#ffd700';
   ctx.fillText(enemy.bossName, 0, -enemy.radius - 35);
 }
+
+/**
+ * Dashed line along the coming dash, brightening as the wind-up runs
+ */
+function drawChargeTelegraph(
+  ctx: CanvasRenderingContext2D,
+  enemy: Enemy,
+  telegraph: Vector2,
+): void {
+  const pulse = Math.sin(Date.now() / 60) * 0.5 + 0.5;
+
+  ctx.save();
+  ctx.strokeStyle = `rgba(255, 60, 60, ${0.35 + pulse * 0.4})`;
+  ctx.lineWidth = enemy.radius;
+  ctx.lineCap = 'round';
+  ctx.setLineDash([12, 10]);
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(telegraph.x, telegraph.y);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawHealerMark(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+  const size = enemy.radius * 0.3;
+  const y = enemy.radius * 0.35;
+
+  ctx.strokeStyle = '#27ae60';
+  ctx.lineWidth = Math.max(2, enemy.radius * 0.15);
+  ctx.beginPath();
+  ctx.moveTo(0, y - size);
+  ctx.lineTo(0, y + size);
+  ctx.moveTo(-size, y);
+  ctx.lineTo(size, y);
+  ctx.stroke();
+}
+
+/**
+ * Three sparks circling the summoner
+ */
+function drawSummonerMark(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+  const angle = Date.now() / 400;
+  const orbit = enemy.radius + 6;
+
+  ctx.fillStyle = '#d2b4de';
+  for (let i = 0; i < 3; i++) {
+    const a = angle + (TWO_PI * i) / 3;
+    ctx.beginPath();
+    ctx.arc(Math.cos(a) * orbit, Math.sin(a) * orbit, 2.5, 0, TWO_PI);
+    ctx.fill();
+  }
+}
+
+/**
+ * Merged enemy - pulsing double ring and member count
+ */
+function drawMergedMarks(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+  const pulse = Math.sin(Date.now() / 250) * 0.5 + 0.5;
+
+  ctx.strokeStyle = enemy.color;
+  ctx.globalAlpha = 0.4 + pulse * 0.4;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(0, 0, enemy.radius + 4 + pulse * 2, 0, TWO_PI);
+  ctx.stroke();
+
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.arc(0, 0, enemy.radius + 9 + pulse * 2, 0, TWO_PI);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = 'white';
+  ctx.font = `bold ${Math.max(10, Math.round(enemy.radius * 0.5))}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`×${enemy.mergeCount}`, 0, enemy.radius * 0.35);
+}
+
+/**
+ * Elite - one glowing aura ring per affix (behind the body), plus remaining shield charges
+ */
+function drawEliteAuras(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+  const time = Date.now();
+
+  ctx.save();
+  enemy.affixes.forEach((affix, index) => {
+    const { color } = ELITE_AFFIXES[affix];
+    const pulse = Math.sin(time / 200 + index * Math.PI) * 0.5 + 0.5;
+    const radius = enemy.radius + 5 + index * 6 + pulse * 2;
+
+    const glow = ctx.createRadialGradient(0, 0, enemy.radius, 0, 0, radius + 6);
+    glow.addColorStop(0, color);
+    glow.addColorStop(1, 'transparent');
+    ctx.globalAlpha = 0.25 + pulse * 0.15;
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius + 6, 0, TWO_PI);
+    ctx.fill();
+
+    ctx.globalAlpha = 0.7 + pulse * 0.3;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, TWO_PI);
+    ctx.stroke();
+  });
+
+  // Shield charges as arc segments around the body
+  if (enemy.shieldHits > 0) {
+    const { color, hits } = ELITE_AFFIXES[EliteAffix.SHIELDED];
+    const segment = TWO_PI / hits;
+    ctx.globalAlpha = 0.9;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 4;
+    for (let i = 0; i < enemy.shieldHits; i++) {
+      const start = -Math.PI / 2 + i * segment + 0.15;
+      ctx.beginPath();
+      ctx.arc(0, 0, enemy.radius + 2, start, start + segment - 0.3);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Status effect overlays - also used for the player (see PlayerRenderer)
+ */
+export function drawStatusEffects(
+  ctx: CanvasRenderingContext2D,
+  statusEffects: StatusEffects,
+  radius: number,
+): void {
+  const time = Date.now();
+
+  ctx.save();
+  for (const effect of statusEffects.getActive()) {
+    const { color } = STATUS_EFFECTS[effect.type];
+
+    switch (effect.type) {
+      case StatusEffectType.BURN:
+        // Flickering flame ring
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.5 + Math.sin(time / 60) * 0.3;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(0, 0, radius + 2 + Math.sin(time / 40) * 1.5, 0, TWO_PI);
+        ctx.stroke();
+        break;
+
+      case StatusEffectType.POISON: {
+        // Green tint, bubbles for each stack
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.25;
+        ctx.beginPath();
+        ctx.arc(0, 0, radius, 0, TWO_PI);
+        ctx.fill();
+
+        ctx.globalAlpha = 0.8;
+        for (let i = 0; i < effect.stacks; i++) {
+          const angle = (TWO_PI / effect.stacks) * i + time / 500;
+          ctx.beginPath();
+          ctx.arc(Math.cos(angle) * radius, Math.sin(angle) * radius, 2.5, 0, TWO_PI);
+          ctx.fill();
+        }
+        break;
+      }
+
+      case StatusEffectType.SLOW:
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.7;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([3, 5]);
+        ctx.beginPath();
+        ctx.arc(0, 0, radius + 4, 0, TWO_PI);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        break;
+
+      case StatusEffectType.FREEZE:
+        // Ice shell
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.55;
+        ctx.beginPath();
+        ctx.arc(0, 0, radius + 1, 0, TWO_PI);
+        ctx.fill();
+        ctx.strokeStyle = 'white';
+        ctx.globalAlpha = 0.9;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        break;
+
+      case StatusEffectType.STUN: {
+        // Stars circling above the head
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 1;
+        for (let i = 0; i < 3; i++) {
+          const angle = (TWO_PI / 3) * i + time / 200;
+          ctx.beginPath();
+          ctx.arc(Math.cos(angle) * radius * 0.6, -radius - 6 + Math.sin(angle) * 3, 3, 0, TWO_PI);
+          ctx.fill();
+        }
+        break;
+      }
+
+      case StatusEffectType.ROOT:
+        // Jaws clamped around the feet
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.9;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(0, radius * 0.5, radius * 0.8, 0, Math.PI);
+        ctx.stroke();
+        break;
+    }
+  }
+  ctx.restore();
+}
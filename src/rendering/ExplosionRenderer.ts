@@ -19,6 +19,9 @@ export function renderExplosion(ctx: CanvasRenderingContext2D, explosion: Explos
     case VisualEffect.BANANA:
       drawBananaExplosion(ctx, explosion);
       break;
+    case VisualEffect.HEAL:
+      drawHealPulse(ctx, explosion);
+      break;
     default:
       drawExplosion(ctx);
   }
@@ -81,3 +84,21 @@ function drawNukeExplosion(ctx: CanvasRenderingContext2D, explosion: Explosion):
   ctx.lineWidth = 5;
   ctx.stroke();
 }
+
+// Enemy healer - soft green ring with a cross
+function drawHealPulse(ctx: CanvasRenderingContext2D, explosion: Explosion): void {
+  ctx.fillStyle = 'rgba(46, 204, 113, 0.15)';
+  ctx.fill();
+  ctx.strokeStyle = '#2ecc71';
+  ctx.lineWidth = 3;
+  ctx.stroke();
+
+  const size = Math.min(20, explosion.radius * 0.2);
+  ctx.lineWidth = 6;
+  ctx.beginPath();
+  ctx.moveTo(0, -size);
+  ctx.lineTo(0, size);
+  ctx.moveTo(-size, 0);
+  ctx.lineTo(size, 0);
+  ctx.stroke();
+}
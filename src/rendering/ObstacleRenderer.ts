@@ -0,0 +1,124 @@
+import { BoxObstacle, Obstacle, ObstacleType, PillarObstacle } from '@/domain/arena';
+import { TWO_PI } from '@/utils/math';
+
+/**
+ * Renders static arena obstacles (drawn over the background, under everything else)
+ */
+export function renderObstacles(
+  ctx: CanvasRenderingContext2D,
+  obstacles: readonly Obstacle[],
+): void {
+  for (const obstacle of obstacles) {
+    ctx.save();
+
+    switch (obstacle.type) {
+      case ObstacleType.PILLAR:
+        drawPillar(ctx, obstacle);
+        break;
+      case ObstacleType.WALL:
+        drawWall(ctx, obstacle);
+        break;
+      case ObstacleType.CRATE:
+        drawCrate(ctx, obstacle);
+        break;
+    }
+
+    ctx.restore();
+  }
+}
+
+/**
+ * Pillar - stone column seen from above, lit from the top-left
+ */
+function drawPillar(ctx: CanvasRenderingContext2D, pillar: PillarObstacle): void {
+  // Shadow
+  ctx.beginPath();
+  ctx.arc(pillar.x + 4, pillar.y + 4, pillar.radius, 0, TWO_PI);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fill();
+
+  const gradient = ctx.createRadialGradient(
+    pillar.x - pillar.radius * 0.4,
+    pillar.y - pillar.radius * 0.4,
+    pillar.radius * 0.1,
+    pillar.x,
+    pillar.y,
+    pillar.radius,
+  );
+  gradient.addColorStop(0, '#8a93a8');
+  gradient.addColorStop(1, '#4a5166');
+
+  ctx.beginPath();
+  ctx.arc(pillar.x, pillar.y, pillar.radius, 0, TWO_PI);
+  ctx.fillStyle = gradient;
+  ctx.fill();
+  ctx.strokeStyle = '#2c3142';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Capital ring
+  ctx.beginPath();
+  ctx.arc(pillar.x, pillar.y, pillar.radius * 0.65, 0, TWO_PI);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.stroke();
+}
+
+/**
+ * Wall - dark brick strip
+ */
+function drawWall(ctx: CanvasRenderingContext2D, wall: BoxObstacle): void {
+  const { x, y, width, height } = wall;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fillRect(x + 4, y + 4, width, height);
+
+  ctx.fillStyle = '#3b4257';
+  ctx.fillRect(x, y, width, height);
+
+  // Brick joints along the long side
+  const horizontal = width >= height;
+  const length = horizontal ? width : height;
+  const brick = 24;
+  ctx.strokeStyle = '#262b3a';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let offset = brick; offset < length; offset += brick) {
+    if (horizontal) {
+      ctx.moveTo(x + offset, y);
+      ctx.lineTo(x + offset, y + height);
+    } else {
+      ctx.moveTo(x, y + offset);
+      ctx.lineTo(x + width, y + offset);
+    }
+  }
+  ctx.stroke();
+
+  ctx.strokeStyle = '#596079';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+}
+
+/**
+ * Crate - wooden box with cross planks
+ */
+function drawCrate(ctx: CanvasRenderingContext2D, crate: BoxObstacle): void {
+  const { x, y, width, height } = crate;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fillRect(x + 4, y + 4, width, height);
+
+  ctx.fillStyle = '#8b5a2b';
+  ctx.fillRect(x, y, width, height);
+
+  ctx.strokeStyle = '#5c3a1a';
+  ctx.lineWidth = 3;
+  ctx.strokeRect(x + 1.5, y + 1.5, width - 3, height - 3);
+
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x + 3, y + 3);
+  ctx.lineTo(x + width - 3, y + height - 3);
+  ctx.moveTo(x + width - 3, y + 3);
+  ctx.lineTo(x + 3, y + height - 3);
+  ctx.stroke();
+}
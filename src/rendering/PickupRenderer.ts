@@ -77,8 +77,8 @@ export function renderPickup(ctx: CanvasRenderingContext2D, pickup: Pickup): voi
   // Draw cached image scaled and centered
   ctx.drawImage(
     cached.canvas,
-    pickup.position.x - halfSize * scale,
-    pickup.position.y - halfSize * scale,
+    pickup.renderPosition.x - halfSize * scale,
+    pickup.renderPosition.y + pickup.getBobOffset() - halfSize * scale,
     cached.canvas.width * scale,
     cached.canvas.height * scale,
   );
@@ -1,5 +1,6 @@
 import { Player } from '@/domain/player/Player';
 import { TWO_PI } from '@/utils/math';
+import { drawStatusEffects } from './EnemyRenderer';
 
 /**
  * Renders the player to the canvas.
@@ -10,7 +11,7 @@ export function renderPlayer(
   currentTime: number,
 ): void {
   ctx.save();
-  ctx.translate(player.position.x, player.position.y);
+  ctx.translate(player.renderPosition.x, player.renderPosition.y);
 
   // Flash when invincible
   if (currentTime < player.invincibleUntil) {
@@ -43,6 +44,10 @@ export function renderPlayer(
   ctx.arc(eyeOffset, -3, 4, 0, TWO_PI);
   ctx.fill();
 
+  if (!player.statusEffects.isEmpty()) {
+    drawStatusEffects(ctx, player.statusEffects, player.radius);
+  }
+
   ctx.globalAlpha = 1; // TODO needed?
   ctx.restore();
 }
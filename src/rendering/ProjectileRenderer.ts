@@ -13,7 +13,7 @@ import { TWO_PI } from '@/utils/math';
  */
 export function renderProjectile(ctx: CanvasRenderingContext2D, projectile: Projectile): void {
   ctx.save();
-  ctx.translate(projectile.position.x, projectile.position.y);
+  ctx.translate(projectile.renderPosition.x, projectile.renderPosition.y);
 
   switch (projectile.type) {
     case ProjectileType.NUKE:
@@ -44,6 +44,18 @@ export function renderProjectile(ctx: CanvasRenderingContext2D, projectile: Proj
     case ProjectileType.ENEMY_BULLET:
       renderEnemyBullet(ctx, projectile);
       break;
+    case ProjectileType.ENEMY_SINE_BULLET:
+      renderEnemySineBullet(ctx, projectile);
+      break;
+    case ProjectileType.ENEMY_MISSILE:
+      renderEnemyMissile(ctx, projectile);
+      break;
+    case ProjectileType.ENEMY_GRENADE:
+      renderEnemyGrenade(ctx, projectile);
+      break;
+    case ProjectileType.ENEMY_ORB:
+      renderEnemyOrb(ctx, projectile);
+      break;
     default:
       renderStandardBullet(ctx, projectile);
   }
@@ -259,3 +271,128 @@ function renderEnemyBullet(ctx: CanvasRenderingContext2D, p: Projectile): void {
   ctx.fillStyle = '#000';
   ctx.fill();
 }
+
+/**
+ * Enemy Sine Bullet - glowing diamond weaving along its path
+ */
+function renderEnemySineBullet(ctx: CanvasRenderingContext2D, p: Projectile): void {
+  const vel = p.getVelocity();
+  ctx.rotate(Math.atan2(vel.vy, vel.vx));
+
+  ctx.shadowColor = p.color;
+  ctx.shadowBlur = 10;
+
+  ctx.beginPath();
+  ctx.moveTo(p.radius * 1.5, 0);
+  ctx.lineTo(0, -p.radius);
+  ctx.lineTo(-p.radius * 1.5, 0);
+  ctx.lineTo(0, p.radius);
+  ctx.closePath();
+  ctx.fillStyle = p.color;
+  ctx.fill();
+
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+}
+
+/**
+ * Enemy Missile - dark rocket pointing along its heading with exhaust
+ */
+function renderEnemyMissile(ctx: CanvasRenderingContext2D, p: Projectile): void {
+  const vel = p.getVelocity();
+  ctx.rotate(Math.atan2(vel.vy, vel.vx));
+
+  const length = p.radius * 2.5;
+
+  // Exhaust flicker
+  ctx.beginPath();
+  ctx.moveTo(-length / 2, -p.radius * 0.5);
+  ctx.lineTo(-length / 2 - p.radius * randomRange(1, 2), 0);
+  ctx.lineTo(-length / 2, p.radius * 0.5);
+  ctx.closePath();
+  ctx.fillStyle = '#ff8800';
+  ctx.fill();
+
+  // Body
+  ctx.beginPath();
+  ctx.moveTo(length / 2 + p.radius, 0);
+  ctx.lineTo(length / 2, -p.radius * 0.7);
+  ctx.lineTo(-length / 2, -p.radius * 0.7);
+  ctx.lineTo(-length / 2, p.radius * 0.7);
+  ctx.lineTo(length / 2, p.radius * 0.7);
+  ctx.closePath();
+  ctx.fillStyle = '#333';
+  ctx.fill();
+  ctx.strokeStyle = p.color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+/**
+ * Enemy Grenade - landing zone telegraph, ground shadow and the grenade up in its arc
+ */
+function renderEnemyGrenade(ctx: CanvasRenderingContext2D, p: Projectile): void {
+  const lob = p.lob;
+  if (!lob) return;
+
+  const progress = p.getLobProgress();
+
+  // Landing zone (fills up as the grenade falls)
+  const radius = p.explosive?.explosionRadius ?? 0;
+  const targetX = lob.target.x - p.renderPosition.x;
+  const targetY = lob.target.y - p.renderPosition.y;
+  ctx.beginPath();
+  ctx.arc(targetX, targetY, radius, 0, TWO_PI);
+  ctx.fillStyle = `rgba(255, 60, 0, ${0.1 + progress * 0.25})`;
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(255, 60, 0, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(targetX, targetY, radius * progress, 0, TWO_PI);
+  ctx.strokeStyle = 'rgba(255, 200, 0, 0.6)';
+  ctx.stroke();
+
+  // Ground shadow
+  ctx.beginPath();
+  ctx.ellipse(0, 0, p.radius, p.radius * 0.5, 0, 0, TWO_PI);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+  ctx.fill();
+
+  // Grenade, lifted by the arc
+  const height = Math.sin(progress * Math.PI) * lob.arcHeight;
+  ctx.beginPath();
+  ctx.arc(0, -height, p.radius, 0, TWO_PI);
+  ctx.fillStyle = '#2f4f2f';
+  ctx.fill();
+  ctx.strokeStyle = p.color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+/**
+ * Enemy Orb - big pulsing ball
+ */
+function renderEnemyOrb(ctx: CanvasRenderingContext2D, p: Projectile): void {
+  const pulse = 1 + Math.sin(Date.now() / 150) * 0.08;
+
+  ctx.shadowColor = p.color;
+  ctx.shadowBlur = 20;
+
+  ctx.beginPath();
+  ctx.arc(0, 0, p.radius * pulse, 0, TWO_PI);
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, p.radius * pulse);
+  gradient.addColorStop(0, '#ffffff');
+  gradient.addColorStop(0.4, p.color);
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.6)');
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
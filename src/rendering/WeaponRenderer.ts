@@ -15,7 +15,7 @@ export function renderWeapons(ctx: CanvasRenderingContext2D, player: Player): vo
 
   player.weapons.forEach((weapon, index) => {
     // Get weapon position with target aiming
-    const pos = player.getWeaponPosition(index, player.currentTarget);
+    const pos = player.getWeaponPosition(index, player.currentTarget, player.renderPosition);
 
     // Draw weapon icon
     drawWeapon(ctx, weapon.type, weapon.level, pos.x, pos.y, pos.angle);
@@ -96,6 +96,30 @@ function drawWeapon(
       drawCrossbow(ctx);
       break;
 
+    case WeaponType.TURRET:
+      drawTurret(ctx);
+      break;
+
+    case WeaponType.TRAP:
+      drawTrap(ctx);
+      break;
+
+    case WeaponType.LURE:
+      drawLure(ctx);
+      break;
+
+    case WeaponType.REVOLVER:
+      drawRevolver(ctx);
+      break;
+
+    case WeaponType.CLUSTER_MINES:
+      drawClusterMines(ctx);
+      break;
+
+    case WeaponType.RAILGUN:
+      drawRailgun(ctx);
+      break;
+
     default:
       throw new Error(`[WeaponRenderer] Unknown weapon type: ${type as string}`);
   }
@@ -115,6 +139,71 @@ function drawWeaponLevel(ctx: CanvasRenderingContext2D, level: number): void {
   ctx.fillText(`+${level - 1}`, 0, 14);
 }
 
+function drawLure(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#ff7f50';
+  ctx.beginPath();
+  ctx.arc(0, -2, 6, 0, TWO_PI);
+  ctx.fill();
+  ctx.fillStyle = '#f5f5dc';
+  ctx.fillRect(-1, 3, 2, 7);
+}
+
+function drawTrap(ctx: CanvasRenderingContext2D): void {
+  ctx.strokeStyle = '#8b4513';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, 7, 0, TWO_PI);
+  ctx.stroke();
+  ctx.beginPath();
+  for (let i = -2; i <= 2; i++) {
+    ctx.moveTo(i * 3, -7);
+    ctx.lineTo(i * 3, -3);
+  }
+  ctx.stroke();
+}
+
+function drawTurret(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#555';
+  ctx.beginPath();
+  ctx.arc(0, 2, 7, 0, TWO_PI);
+  ctx.fill();
+  ctx.fillStyle = '#66ccff';
+  ctx.fillRect(-2, -12, 4, 12);
+}
+
+function drawRailgun(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#555';
+  ctx.fillRect(-4, -16, 2, 22);
+  ctx.fillRect(2, -16, 2, 22);
+  ctx.fillStyle = '#66ffff';
+  ctx.fillRect(-2, -14, 4, 18);
+  ctx.fillRect(-4, 4, 8, 6);
+}
+
+function drawClusterMines(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#5a3d1e';
+  ctx.beginPath();
+  ctx.arc(0, 0, 8, 0, TWO_PI);
+  ctx.fill();
+  ctx.fillStyle = '#ff0000';
+  for (let i = 0; i < 3; i++) {
+    const angle = (TWO_PI / 3) * i;
+    ctx.beginPath();
+    ctx.arc(Math.cos(angle) * 4, Math.sin(angle) * 4, 2, 0, TWO_PI);
+    ctx.fill();
+  }
+}
+
+function drawRevolver(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#ffcc66';
+  ctx.fillRect(-2, -12, 4, 10);
+  ctx.beginPath();
+  ctx.arc(0, 0, 4, 0, TWO_PI);
+  ctx.fill();
+  ctx.fillStyle = '#8b4513';
+  ctx.fillRect(-3, 3, 6, 7);
+}
+
 function drawCrossbow(ctx: CanvasRenderingContext2D): void {
   ctx.fillStyle = '#8b4513';
   ctx.fillRect(-1, -10, 2, 16);
@@ -2,6 +2,7 @@ export * from './BackgroundRenderer';
 export * from './DeployableRenderer';
 export * from './EnemyRenderer';
 export * from './ExplosionRenderer';
+export * from './ObstacleRenderer';
 export * from './PickupRenderer';
 export * from './PlayerRenderer';
 export * from './ProjectileRenderer';
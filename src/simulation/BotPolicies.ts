@@ -0,0 +1,141 @@
+/**
+ * Scripted bot policies for headless balance runs.
+ * A policy turns the current arena state into movement input, like a player would.
+ */
+
+import { Player } from '@/domain/player/Player';
+import { InputState } from '@/domain/player/type';
+import { Enemy } from '@/domain/enemies/Enemy';
+import { CanvasBounds } from '@/utils/random';
+
+// ============ Types ============
+
+export interface BotContext {
+  player: Player;
+  enemies: readonly Enemy[];
+  bounds: CanvasBounds;
+  /** Simulation time in ms */
+  currentTime: number;
+}
+
+export interface BotPolicy {
+  readonly name: string;
+  getInput(context: BotContext): InputState;
+}
+
+export type BotPolicyName = 'standStill' | 'kite' | 'circle';
+
+// ============ Helpers ============
+
+/** Enemies further away than this are ignored by the kite policy */
+const KITE_THREAT_RANGE = 250;
+
+/** Distance from arena edge where bots start steering back inside */
+const WALL_MARGIN = 120;
+
+/** Orbit radius of the circle policy as a fraction of the smaller arena side */
+const CIRCLE_RADIUS_FACTOR = 0.35;
+
+/**
+ * Builds analog input from a direction vector (normalized to length 1)
+ */
+function toInput(dx: number, dy: number): InputState {
+  const length = Math.hypot(dx, dy);
+  if (length < 0.001) {
+    return { up: false, down: false, left: false, right: false };
+  }
+  return {
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    analogX: dx / length,
+    analogY: dy / length,
+  };
+}
+
+/**
+ * Push away from arena edges - grows linearly inside WALL_MARGIN
+ */
+function wallAvoidance(player: Player, bounds: CanvasBounds): { x: number; y: number } {
+  const { x, y } = player.position;
+  let fx = 0;
+  let fy = 0;
+
+  if (x < WALL_MARGIN) fx += (WALL_MARGIN - x) / WALL_MARGIN;
+  if (x > bounds.width - WALL_MARGIN) fx -= (x - (bounds.width - WALL_MARGIN)) / WALL_MARGIN;
+  if (y < WALL_MARGIN) fy += (WALL_MARGIN - y) / WALL_MARGIN;
+  if (y > bounds.height - WALL_MARGIN) fy -= (y - (bounds.height - WALL_MARGIN)) / WALL_MARGIN;
+
+  return { x: fx, y: fy };
+}
+
+// ============ Policies ============
+
+/**
+ * Never moves - baseline for raw weapon DPS
+ */
+const standStill: BotPolicy = {
+  name: 'standStill',
+  getInput: () => toInput(0, 0),
+};
+
+/**
+ * Runs away from nearby enemies (closer ones weigh more) while staying off the walls
+ */
+const kite: BotPolicy = {
+  name: 'kite',
+  getInput: ({ player, enemies, bounds }) => {
+    let fx = 0;
+    let fy = 0;
+
+    for (const enemy of enemies) {
+      const dx = player.position.x - enemy.position.x;
+      const dy = player.position.y - enemy.position.y;
+      const dist = Math.max(Math.hypot(dx, dy) - enemy.radius, 1);
+      if (dist > KITE_THREAT_RANGE) continue;
+
+      const weight = (KITE_THREAT_RANGE - dist) / KITE_THREAT_RANGE;
+      fx += (dx / dist) * weight;
+      fy += (dy / dist) * weight;
+    }
+
+    const wall = wallAvoidance(player, bounds);
+    fx += wall.x * 2;
+    fy += wall.y * 2;
+
+    return toInput(fx, fy);
+  },
+};
+
+/**
+ * Orbits the arena center, correcting drift back to the orbit radius
+ */
+const circle: BotPolicy = {
+  name: 'circle',
+  getInput: ({ player, bounds }) => {
+    const cx = bounds.width / 2;
+    const cy = bounds.height / 2;
+    const orbitRadius = Math.min(bounds.width, bounds.height) * CIRCLE_RADIUS_FACTOR;
+
+    const dx = player.position.x - cx;
+    const dy = player.position.y - cy;
+    const dist = Math.hypot(dx, dy);
+
+    // Start of the run - player spawns exactly in the center
+    if (dist < 1) return toInput(1, 0);
+
+    // Tangent (clockwise) plus radial correction towards the orbit
+    const radialError = (orbitRadius - dist) / orbitRadius;
+    const fx = -dy / dist + (dx / dist) * radialError * 2;
+    const fy = dx / dist + (dy / dist) * radialError * 2;
+
+    return toInput(fx, fy);
+  },
+};
+
+export const BOT_POLICIES: Record<BotPolicyName, BotPolicy> = {
+  standStill,
+  kite,
+  circle,
+};
@@ -0,0 +1,38 @@
+// @vitest-environment node
+
+import { bench, describe } from 'vitest';
+
+import { Simulation } from './Simulation';
+
+const ENEMY_COUNTS = [500, 1000];
+
+describe('GameWorld tick', () => {
+  for (const enemyCount of ENEMY_COUNTS) {
+    let simulation: Simulation | null = null;
+
+    bench(
+      `${enemyCount} enemies`,
+      () => {
+        // Only replaces last tick's kills - a handful of pooled enemies
+        simulation!.refillCrowd();
+        simulation!.benchmarkTick();
+      },
+      {
+        // Built once per benchmark - every iteration is one tick of the same crowded run.
+        // Disposed before the next one, so only one world listens on the EventBus.
+        setup: () => {
+          simulation = new Simulation();
+          simulation.prepareBenchmark({ enemyCount, seed: 1 });
+          simulation.refillCrowd();
+        },
+        teardown: () => {
+          simulation?.dispose();
+          simulation = null;
+        },
+        // A few seconds of play, past the first ticks that grow the pools
+        time: 2000,
+        warmupTime: 500,
+      },
+    );
+  }
+});
@@ -0,0 +1,67 @@
+// @vitest-environment node
+
+import { describe, expect, it } from 'vitest';
+
+import { BOT_POLICIES, BotPolicyName } from './BotPolicies';
+import { Simulation, SimulationReport } from './Simulation';
+
+const SEED = 12345;
+const MAX_WAVES = 2;
+
+const policies = Object.keys(BOT_POLICIES) as BotPolicyName[];
+
+function simulate(policy: BotPolicyName): SimulationReport {
+  const simulation = new Simulation();
+  try {
+    return simulation.run({ policy, seed: SEED, maxWaves: MAX_WAVES });
+  } finally {
+    simulation.dispose();
+  }
+}
+
+describe('Simulation', () => {
+  it.each(policies)('plays the %s policy until it dies or clears the waves', (policy) => {
+    const report = simulate(policy);
+
+    expect(report.seed).toBe(SEED);
+    expect(report.policy).toBe(policy);
+    expect(report.waves.length).toBeGreaterThan(0);
+    expect(report.waves.length).toBeLessThanOrEqual(MAX_WAVES);
+    expect(report.wavesSurvived).toBe(
+      report.waves.filter((wave) => wave.outcome === 'survived').length,
+    );
+
+    // The starting weapon fights back from the first wave
+    const [firstWave] = report.waves;
+    expect(firstWave!.kills).toBeGreaterThan(0);
+    expect(firstWave!.damageDealt).toBeGreaterThan(0);
+
+    let goldTotal = 0;
+    report.waves.forEach((wave, index) => {
+      expect(wave.wave).toBe(index + 1);
+      expect(wave.dps).toBeCloseTo(wave.damageDealt / wave.duration);
+
+      // No shop - gold only piles up
+      goldTotal += wave.goldEarned;
+      expect(wave.goldTotal).toBe(goldTotal);
+
+      if (wave.outcome === 'died') {
+        expect(wave.hpRemaining).toBe(0);
+        expect(index).toBe(report.waves.length - 1);
+      } else {
+        expect(wave.hpRemaining).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  it('kiting outlasts standing still', () => {
+    const standing = simulate('standStill');
+    const kiting = simulate('kite');
+
+    expect(kiting.wavesSurvived).toBeGreaterThan(standing.wavesSurvived);
+  });
+
+  it.each(policies)('is reproducible for a fixed seed (%s)', (policy) => {
+    expect(simulate(policy)).toEqual(simulate(policy));
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Simulation - headless runner for balance testing.
+ * Drives the same GameWorld (waves, collisions, combat, weapons) as the browser game,
+ * steered by a scripted bot instead of a player. No DOM, canvas or audio required,
+ * so it runs under plain Node / vitest.
+ *
+ * Systems are constructed directly (not through the DI container) so a simulation
+ * never shares state with a live Game. Do not run both in the same process at once -
+ * they still share the global EventBus. Call dispose() once a simulation is done,
+ * otherwise its systems keep reacting to the events of later ones.
+ */
+
+import 'reflect-metadata';
+
+import { ConfigService } from '@/config/ConfigService';
+import { FIXED_TIMESTEP, GameWorld } from '@/core/GameWorld';
+import { RandomService } from '@/core/RandomService';
+import { ArenaType } from '@/domain/arena';
+import { WeaponType } from '@/domain/weapons/type';
+import { WeaponManager } from '@/domain/weapons/WeaponManager';
+import { WeaponStatsCalculator } from '@/domain/weapons/WeaponStatsCalculator';
+import { EventBus } from '@/events/EventBus';
+import { EntityManager } from '@/managers/EntityManager';
+import { CollisionSystem } from '@/systems/CollisionSystem';
+import { CombatSystem } from '@/systems/CombatSystem';
+import { MergeSystem } from '@/systems/MergeSystem';
+import { ObstacleSystem } from '@/systems/ObstacleSystem';
+import { PickupSpawnSystem } from '@/systems/PickupSpawnSystem';
+import { RewardSystem } from '@/systems/RewardSystem';
+import { WaveManager } from '@/systems/WaveManager';
+import { CharacterType, EnemyType } from '@/types/enums';
+import { BOT_POLICIES, BotPolicy, BotPolicyName } from './BotPolicies';
+
+// ============ Types ============
+
+export interface SimulationOptions {
+  /** Bot steering the player */
+  policy: BotPolicyName | BotPolicy;
+  character?: CharacterType;
+  arena?: ArenaType;
+  /** Run seed (random when omitted) */
+  seed?: number;
+  /** Stop after this many cleared waves */
+  maxWaves?: number;
+  /** Safety limit for a single wave in seconds (boss waves can stall) */
+  maxWaveDuration?: number;
+}
+
+export type WaveOutcome = 'survived' | 'died' | 'timeout';
+
+export interface WaveReport {
+  wave: number;
+  outcome: WaveOutcome;
+  /** Wave length in seconds */
+  duration: number;
+  damageDealt: number;
+  dps: number;
+  kills: number;
+  goldEarned: number;
+  goldTotal: number;
+  /** Player HP when the wave ended (before the shop heal) */
+  hpRemaining: number;
+}
+
+export interface SimulationReport {
+  seed: number;
+  character: CharacterType;
+  arena: ArenaType;
+  policy: string;
+  waves: WaveReport[];
+  wavesSurvived: number;
+}
+
+export interface BenchmarkOptions {
+  /** Enemies kept alive on the arena (topped up every tick) */
+  enemyCount?: number;
+  ticks?: number;
+  seed?: number;
+  /** Player loadout - defaults to projectile spam plus mines */
+  weapons?: WeaponType[];
+}
+
+export interface BenchmarkReport {
+  enemyCount: number;
+  ticks: number;
+  /** Simulation time per tick in ms (no rendering) */
+  averageTickMs: number;
+  p95TickMs: number;
+  maxTickMs: number;
+  /** Enemy hits (projectiles, explosions, contact) per tick */
+  averageHits: number;
+}
+
+const DEFAULT_MAX_WAVES = 10;
+const DEFAULT_MAX_WAVE_DURATION = 300; // s
+
+const DEFAULT_BENCHMARK_WEAPONS: readonly WeaponType[] = [
+  WeaponType.MINIGUN,
+  WeaponType.MINIGUN,
+  WeaponType.SMG,
+  WeaponType.SHOTGUN,
+  WeaponType.FLAMETHROWER,
+  WeaponType.MINES,
+];
+
+/** Enemy types used to fill the arena - small, numerous ones like a real swarm */
+const BENCHMARK_ENEMIES: readonly EnemyType[] = [
+  EnemyType.BASIC,
+  EnemyType.FAST,
+  EnemyType.SWARM,
+  EnemyType.SPLITTER,
+];
+
+// ============ Simulation ============
+
+export class Simulation {
+  private entityManager: EntityManager;
+  private waveManager: WaveManager;
+  private weaponManager: WeaponManager;
+  private random: RandomService;
+  private world: GameWorld;
+  private pickupSpawnSystem: PickupSpawnSystem;
+  private rewardSystem: RewardSystem;
+
+  /** Benchmark run state (see prepareBenchmark) */
+  private crowdSize: number = 0;
+  private benchmarkTime: number = 0;
+
+  public constructor() {
+    const configService = new ConfigService();
+    const random = new RandomService();
+    this.random = random;
+    this.entityManager = new EntityManager(random);
+    const obstacleSystem = new ObstacleSystem(configService);
+    this.waveManager = new WaveManager(random, this.entityManager, obstacleSystem);
+
+    this.weaponManager = new WeaponManager(
+      this.entityManager,
+      configService,
+      new WeaponStatsCalculator(configService),
+      random,
+    );
+
+    this.pickupSpawnSystem = new PickupSpawnSystem(this.entityManager, random);
+    this.rewardSystem = new RewardSystem(this.entityManager);
+
+    this.world = new GameWorld(
+      this.entityManager,
+      this.waveManager,
+      new CollisionSystem(this.entityManager, obstacleSystem),
+      new CombatSystem(this.entityManager, random),
+      this.weaponManager,
+      random,
+      configService,
+      this.pickupSpawnSystem,
+      this.rewardSystem,
+      new MergeSystem(this.entityManager),
+      obstacleSystem,
+    );
+  }
+
+  /**
+   * Play one run until the player dies, a wave times out or maxWaves are cleared.
+   * The shop is skipped - the bot fights with the starting weapon only.
+   */
+  public run(options: SimulationOptions): SimulationReport {
+    const policy =
+      typeof options.policy === 'string' ? BOT_POLICIES[options.policy] : options.policy;
+    const character = options.character ?? CharacterType.NORMIK;
+    const arena = options.arena ?? ArenaType.CLASSIC;
+    const maxWaves = options.maxWaves ?? DEFAULT_MAX_WAVES;
+    const maxWaveTicks =
+      ((options.maxWaveDuration ?? DEFAULT_MAX_WAVE_DURATION) * 1000) / FIXED_TIMESTEP;
+
+    const seed = this.world.startRun(character, options.seed, arena);
+    const player = this.entityManager.getPlayer();
+    const bounds = this.world.getBounds();
+
+    // Per-wave counters fed by combat events
+    let damageDealt = 0;
+    let kills = 0;
+    const damageSub = EventBus.on('enemyDamaged', ({ damage }) => {
+      damageDealt += damage;
+    });
+    const deathSub = EventBus.on('enemyDeath', () => {
+      kills++;
+    });
+
+    const waves: WaveReport[] = [];
+    let currentTime = 0;
+
+    try {
+      for (;;) {
+        const wave = this.waveManager.waveNumber;
+        const goldAtStart = player.gold;
+        damageDealt = 0;
+        kills = 0;
+
+        let ticks = 0;
+        let outcome: WaveOutcome | null = null;
+        while (outcome === null) {
+          currentTime += FIXED_TIMESTEP;
+          ticks++;
+
+          const input = policy.getInput({
+            player,
+            enemies: this.entityManager.getActiveEnemies(),
+            bounds,
+            currentTime,
+          });
+          const waveEnded = this.world.update(FIXED_TIMESTEP, currentTime, input);
+
+          if (player.isDead()) outcome = 'died';
+          else if (waveEnded) outcome = 'survived';
+          else if (ticks >= maxWaveTicks) outcome = 'timeout';
+        }
+
+        const duration = (ticks * FIXED_TIMESTEP) / 1000;
+        waves.push({
+          wave,
+          outcome,
+          duration,
+          damageDealt,
+          dps: duration > 0 ? damageDealt / duration : 0,
+          kills,
+          goldEarned: player.gold - goldAtStart,
+          goldTotal: player.gold,
+          hpRemaining: Math.max(0, player.hp),
+        });
+
+        if (outcome !== 'survived' || waves.length >= maxWaves) break;
+
+        this.world.endWave();
+        this.waveManager.startWave();
+      }
+    } finally {
+      damageSub.unsubscribe();
+      deathSub.unsubscribe();
+    }
+
+    return {
+      seed,
+      character,
+      arena,
+      policy: policy.name,
+      waves,
+      wavesSurvived: waves.filter((w) => w.outcome === 'survived').length,
+    };
+  }
+
+  /**
+   * Measure tick cost with a crowded arena.
+   * Invulnerable player stands still while enemies are refilled up to enemyCount every tick.
+   */
+  public benchmark(options: BenchmarkOptions = {}): BenchmarkReport {
+    const ticks = options.ticks ?? 600;
+    this.prepareBenchmark(options);
+
+    const tickTimes: number[] = [];
+    let hits = 0;
+    const hitSub = EventBus.on('enemyDamaged', () => {
+      hits++;
+    });
+
+    for (let tick = 0; tick < ticks; tick++) {
+      // Outside the timed section
+      this.refillCrowd();
+
+      const start = performance.now();
+      this.benchmarkTick();
+      tickTimes.push(performance.now() - start);
+    }
+    hitSub.unsubscribe();
+
+    tickTimes.sort((a, b) => a - b);
+    const total = tickTimes.reduce((sum, time) => sum + time, 0);
+
+    return {
+      enemyCount: this.crowdSize,
+      ticks,
+      averageTickMs: total / ticks,
+      p95TickMs: tickTimes[Math.floor(ticks * 0.95)] ?? 0,
+      maxTickMs: tickTimes[ticks - 1] ?? 0,
+      averageHits: hits / ticks,
+    };
+  }
+
+  /**
+   * Start a benchmark run - invulnerable player with the benchmark loadout.
+   * Drive it with refillCrowd and benchmarkTick (benchmark does both).
+   */
+  public prepareBenchmark(options: BenchmarkOptions = {}): void {
+    this.crowdSize = options.enemyCount ?? 600;
+    this.benchmarkTime = 0;
+
+    this.world.startRun(CharacterType.NORMIK, options.seed);
+    const player = this.entityManager.getPlayer();
+    player.godMode = true;
+    const loadout = options.weapons ?? DEFAULT_BENCHMARK_WEAPONS;
+    player.maxWeapons = Math.max(player.maxWeapons, player.weapons.length + loadout.length);
+    for (const type of loadout) {
+      this.weaponManager.addWeapon(type);
+    }
+  }
+
+  /**
+   * Top the arena up to the benchmark enemy count
+   */
+  public refillCrowd(): void {
+    const { width, height } = this.world.getBounds();
+    const missing = this.crowdSize - this.entityManager.getActiveEnemyCount();
+    for (let i = 0; i < missing; i++) {
+      const enemy = this.entityManager.createEnemy({
+        position: {
+          x: this.random.spawns.range(0, width),
+          y: this.random.spawns.range(0, height),
+        },
+        type: this.random.spawns.elementStrict(BENCHMARK_ENEMIES),
+      });
+      this.entityManager.addEnemy(enemy);
+    }
+  }
+
+  /**
+   * Advance the benchmark run by one tick, player standing still
+   */
+  public benchmarkTick(): void {
+    this.benchmarkTime += FIXED_TIMESTEP;
+    const input = BOT_POLICIES.standStill.getInput({
+      player: this.entityManager.getPlayer(),
+      enemies: [],
+      bounds: this.world.getBounds(),
+      currentTime: this.benchmarkTime,
+    });
+
+    const waveEnded = this.world.update(FIXED_TIMESTEP, this.benchmarkTime, input);
+    if (waveEnded) this.waveManager.startWave();
+  }
+
+  /**
+   * Unsubscribe the systems from the global EventBus
+   */
+  public dispose(): void {
+    this.pickupSpawnSystem.dispose();
+    this.rewardSystem.dispose();
+    this.world.effects.dispose();
+  }
+}
+
+// ============ Reporting ============
+
+/**
+ * Formats report as a plain text table (one row per wave)
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines = [
+    `seed=${report.seed} character=${report.character} arena=${report.arena} policy=${report.policy} survived=${report.wavesSurvived}`,
+    'wave  outcome   time(s)  damage     dps  kills  gold(+)  gold   hp',
+  ];
+
+  for (const w of report.waves) {
+    lines.push(
+      [
+        String(w.wave).padStart(4),
+        w.outcome.padEnd(8),
+        w.duration.toFixed(1).padStart(8),
+        Math.round(w.damageDealt).toString().padStart(7),
+        w.dps.toFixed(1).padStart(7),
+        String(w.kills).padStart(6),
+        String(w.goldEarned).padStart(8),
+        String(w.goldTotal).padStart(5),
+        Math.round(w.hpRemaining).toString().padStart(4),
+      ].join('  '),
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats benchmark as one line, with the share of a 60 FPS frame budget used
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const budget = (report.averageTickMs / FIXED_TIMESTEP) * 100;
+  return (
+    `enemies=${report.enemyCount} ticks=${report.ticks} ` +
+    `avg=${report.averageTickMs.toFixed(3)}ms p95=${report.p95TickMs.toFixed(3)}ms ` +
+    `max=${report.maxTickMs.toFixed(3)}ms hits/tick=${report.averageHits.toFixed(1)} ` +
+    `(${budget.toFixed(1)}% of frame budget)`
+  );
+}
@@ -0,0 +1,2 @@
+export * from './BotPolicies';
+export * from './Simulation';
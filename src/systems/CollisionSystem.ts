@@ -1,6 +1,7 @@
 /**
  * CollisionSystem - Handles collision detection between entities.
  * Emits events when collisions are detected for other systems to handle.
+ * Also keeps enemy bodies solid - apart from each other, out of the player and obstacles.
  */
 
 import { singleton } from 'tsyringe';
@@ -9,8 +10,15 @@ import { Deployable } from '@/entities/Deployable';
 import { Pickup } from '@/entities/Pickup';
 import { Projectile } from '@/entities/Projectile';
 import { EntityManager } from '@/managers/EntityManager';
+import { ObstacleSystem } from '@/systems/ObstacleSystem';
 import { distanceSquared, Vector2 } from '@/utils';
 
+/** Contact reach past the player's edge - enemies stop at the edge, so touching must count */
+const CONTACT_MARGIN = 2;
+
+/** Spreads enemies sitting on the exact same pixel in deterministic directions */
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
 /**
  * Collision detection result
  */
@@ -19,6 +27,8 @@ export interface CollisionResult {
   playerEnemyCollisions: Enemy[];
   /** Player hit by enemy projectile */
   playerProjectileCollisions: Projectile[];
+  /** Player projectiles hitting shootable enemy projectiles (orbs) */
+  projectileShootableCollisions: Array<{ projectile: Projectile; target: Projectile }>;
   /** Player projectiles hitting enemies */
   projectileEnemyCollisions: Array<{ projectile: Projectile; enemy: Enemy }>;
   /** Pickups in player collection range */
@@ -29,7 +39,8 @@ export interface CollisionResult {
 
 /**
  * Handles all collision detection in the game.
- * Uses spatial queries from EntityManager for efficiency.
+ * Uses spatial queries from EntityManager for efficiency -
+ * call EntityManager.updateSpatialIndex() after movement, before checkAll().
  */
 @singleton()
 export class CollisionSystem {
@@ -37,7 +48,10 @@ export class CollisionSystem {
   private pickupRadius: number = 25;
   private attractionRadius: number = 100;
 
-  public constructor(private entityManager: EntityManager) {
+  public constructor(
+    private entityManager: EntityManager,
+    private obstacleSystem: ObstacleSystem,
+  ) {
     // Config values use defaults - can add setters if needed
   }
 
@@ -48,6 +62,7 @@ export class CollisionSystem {
     const result: CollisionResult = {
       playerEnemyCollisions: [],
       playerProjectileCollisions: [],
+      projectileShootableCollisions: [],
       projectileEnemyCollisions: [],
       pickupCollisions: [],
       deployableCollisions: [],
@@ -64,6 +79,9 @@ export class CollisionSystem {
     // Check player-projectile collisions (enemy bullets)
     result.playerProjectileCollisions = this.checkPlayerProjectileCollisions();
 
+    // Check player bullets hitting enemy orbs
+    result.projectileShootableCollisions = this.checkProjectileShootableCollisions();
+
     // Check projectile-enemy collisions (player bullets)
     result.projectileEnemyCollisions = this.checkProjectileEnemyCollisions();
 
@@ -82,20 +100,10 @@ export class CollisionSystem {
   private checkPlayerEnemyCollisions(): Enemy[] {
     const player = this.entityManager.getPlayer();
 
-    const collisions: Enemy[] = [];
-    const enemies = this.entityManager.getActiveEnemies();
-
-    for (const enemy of enemies) {
-      // Skip phasing enemies
-      if (enemy.phasing) continue;
-
-      const combinedRadius = player.radius + enemy.radius;
-      if (distanceSquared(player.position, enemy.position) < combinedRadius * combinedRadius) {
-        collisions.push(enemy);
-      }
-    }
-
-    return collisions;
+    // Skip phasing enemies
+    return this.entityManager
+      .getEnemiesOverlapping(player.position, player.radius + CONTACT_MARGIN)
+      .filter((enemy) => !enemy.phasing);
   }
 
   /**
@@ -108,6 +116,9 @@ export class CollisionSystem {
     const enemyProjectiles = this.entityManager.getEnemyProjectiles();
 
     for (const projectile of enemyProjectiles) {
+      // Lobbed grenades fly over the player - they only hurt on landing
+      if (projectile.lob) continue;
+
       const combinedRadius = player.radius + projectile.radius;
       if (distanceSquared(player.position, projectile.position) < combinedRadius * combinedRadius) {
         collisions.push(projectile);
@@ -117,34 +128,63 @@ export class CollisionSystem {
     return collisions;
   }
 
+  /**
+   * Check player projectiles hitting shootable enemy projectiles.
+   * Few shootables are alive at once, so a plain pair check is enough.
+   */
+  private checkProjectileShootableCollisions(): Array<{
+    projectile: Projectile;
+    target: Projectile;
+  }> {
+    const collisions: Array<{ projectile: Projectile; target: Projectile }> = [];
+    const targets = this.entityManager.getEnemyProjectiles().filter((p) => p.shootable);
+    if (targets.length === 0) return collisions;
+
+    const playerProjectiles = this.entityManager.getPlayerProjectiles();
+    for (const target of targets) {
+      for (const projectile of playerProjectiles) {
+        const combinedRadius = target.radius + projectile.radius;
+        if (
+          distanceSquared(target.position, projectile.position) <
+          combinedRadius * combinedRadius
+        ) {
+          collisions.push({ projectile, target });
+        }
+      }
+    }
+
+    return collisions;
+  }
+
   /**
    * Check player projectiles hitting enemies
    */
   private checkProjectileEnemyCollisions(): Array<{ projectile: Projectile; enemy: Enemy }> {
     const collisions: Array<{ projectile: Projectile; enemy: Enemy }> = [];
     const playerProjectiles = this.entityManager.getPlayerProjectiles();
-    const enemies = this.entityManager.getActiveEnemies();
 
     for (const projectile of playerProjectiles) {
+      const enemies = this.entityManager.getEnemiesOverlapping(
+        projectile.position,
+        projectile.radius,
+      );
+
       for (const enemy of enemies) {
-        const combinedRadius = projectile.radius + enemy.radius;
-        if (
-          distanceSquared(projectile.position, enemy.position) <
-          combinedRadius * combinedRadius
-        ) {
-          // For piercing projectiles, check if already hit
-          if (projectile.canPierce()) {
-            if (!projectile.registerHit(enemy.id)) {
-              continue; // Already hit this enemy
-            }
+        // Ricochets never bounce back into an enemy they already hit
+        if (projectile.ricochet?.hitEnemies.has(enemy.id)) continue;
+
+        // For piercing projectiles, check if already hit
+        if (projectile.canPierce()) {
+          if (!projectile.registerHit(enemy.id)) {
+            continue; // Already hit this enemy
           }
+        }
 
-          collisions.push({ projectile, enemy });
+        collisions.push({ projectile, enemy });
 
-          // Non-piercing projectiles stop after first hit
-          if (!projectile.canPierce()) {
-            break;
-          }
+        // Non-piercing projectiles stop after first hit
+        if (!projectile.canPierce()) {
+          break;
         }
       }
     }
@@ -157,18 +197,7 @@ export class CollisionSystem {
    */
   private checkPickupCollisions(): Pickup[] {
     const player = this.entityManager.getPlayer();
-
-    const collisions: Pickup[] = [];
-    const pickups = this.entityManager.getActivePickups();
-
-    for (const pickup of pickups) {
-      const combinedRadius = this.pickupRadius + pickup.radius;
-      if (distanceSquared(player.position, pickup.position) < combinedRadius * combinedRadius) {
-        collisions.push(pickup);
-      }
-    }
-
-    return collisions;
+    return this.entityManager.getPickupsOverlapping(player.position, this.pickupRadius);
   }
 
   /**
@@ -177,21 +206,15 @@ export class CollisionSystem {
   private checkDeployableCollisions(): Array<{ deployable: Deployable; enemies: Enemy[] }> {
     const collisions: Array<{ deployable: Deployable; enemies: Enemy[] }> = [];
     const deployables = this.entityManager.getArmedDeployables();
-    const enemies = this.entityManager.getActiveEnemies();
 
     for (const deployable of deployables) {
-      const triggerRadius = deployable.triggerRadius;
-      const triggeredBy: Enemy[] = [];
+      // Only mines and traps go off when stepped on
+      if (!deployable.isExplosive() && !deployable.trap) continue;
 
-      for (const enemy of enemies) {
-        const combinedRadius = triggerRadius + enemy.radius;
-        if (
-          distanceSquared(deployable.position, enemy.position) <
-          combinedRadius * combinedRadius
-        ) {
-          triggeredBy.push(enemy);
-        }
-      }
+      const triggeredBy = this.entityManager.getEnemiesOverlapping(
+        deployable.position,
+        deployable.triggerRadius,
+      );
 
       if (triggeredBy.length > 0) {
         collisions.push({ deployable, enemies: triggeredBy });
@@ -201,6 +224,83 @@ export class CollisionSystem {
     return collisions;
   }
 
+  /**
+   * Push overlapping enemies apart (heavier ones give way less), out of the player's body
+   * and out of obstacles.
+   * Call after enemy movement with a fresh spatial index. Phasing enemies pass through.
+   */
+  public resolveEnemyBodies(canvasWidth: number, canvasHeight: number): void {
+    const enemies = this.entityManager.getActiveEnemies();
+
+    for (const enemy of enemies) {
+      if (enemy.phasing) continue;
+
+      for (const other of this.entityManager.getEnemiesOverlapping(enemy.position, enemy.radius)) {
+        // Each pair once
+        if (other.id <= enemy.id || other.phasing) continue;
+        this.separateEnemies(enemy, other);
+      }
+    }
+
+    // Player is an immovable body - enemies stop at its edge
+    const player = this.entityManager.getPlayer();
+    if (player.isActive) {
+      for (const enemy of this.entityManager.getEnemiesOverlapping(
+        player.position,
+        player.radius,
+      )) {
+        if (enemy.phasing) continue;
+
+        const { x: nx, y: ny } = this.getSeparationAxis(player.position, enemy);
+        const minDistance = player.radius + enemy.radius;
+        enemy.position.x = player.position.x + nx * minDistance;
+        enemy.position.y = player.position.y + ny * minDistance;
+      }
+    }
+
+    // Pushes must not move anyone through the arena edge or into obstacles
+    for (const enemy of enemies) {
+      if (!enemy.phasing) {
+        this.obstacleSystem.pushOut(enemy.position, enemy.radius);
+      }
+      enemy.constrainToArena(canvasWidth, canvasHeight);
+    }
+  }
+
+  /**
+   * Move two overlapping enemies apart, split by mass
+   */
+  private separateEnemies(a: Enemy, b: Enemy): void {
+    const dist = Math.sqrt(distanceSquared(a.position, b.position));
+    const overlap = a.radius + b.radius - dist;
+    if (overlap <= 0) return;
+
+    const { x: nx, y: ny } = this.getSeparationAxis(a.position, b);
+    const totalMass = a.mass + b.mass;
+    const pushA = (overlap * b.mass) / totalMass;
+    const pushB = (overlap * a.mass) / totalMass;
+
+    a.position.x -= nx * pushA;
+    a.position.y -= ny * pushA;
+    b.position.x += nx * pushB;
+    b.position.y += ny * pushB;
+  }
+
+  /**
+   * Unit vector from origin to the enemy (id-based direction when centers coincide)
+   */
+  private getSeparationAxis(origin: Vector2, enemy: Enemy): Vector2 {
+    const dx = enemy.position.x - origin.x;
+    const dy = enemy.position.y - origin.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (dist === 0) {
+      const angle = enemy.id * GOLDEN_ANGLE;
+      return { x: Math.cos(angle), y: Math.sin(angle) };
+    }
+    return { x: dx / dist, y: dy / dist };
+  }
+
   /**
    * Update pickup attraction (moves pickups toward player)
    */
@@ -225,17 +325,7 @@ export class CollisionSystem {
    * Check if point is inside any enemy
    */
   public isPointInEnemy(position: Vector2): Enemy | null {
-    const enemies = this.entityManager.getActiveEnemies();
-
-    for (const enemy of enemies) {
-      const dx = position.x - enemy.position.x;
-      const dy = position.y - enemy.position.y;
-      if (dx * dx + dy * dy <= enemy.radius * enemy.radius) {
-        return enemy;
-      }
-    }
-
-    return null;
+    return this.entityManager.getEnemiesOverlapping(position, 0)[0] ?? null;
   }
 
   /**
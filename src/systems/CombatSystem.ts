@@ -4,16 +4,36 @@
  */
 import { singleton } from 'tsyringe';
 import { GAME_BALANCE } from '@/config/balance.config';
+import { HAZARDS } from '@/config/hazards.config';
+import { RandomService } from '@/core/RandomService';
 import { EventBus } from '@/events/EventBus';
-import { Enemy } from '@/domain/enemies';
+import { ELITE_AFFIXES, EliteAffix, Enemy } from '@/domain/enemies';
+import { OnHitEffect } from '@/domain/status';
 import { WEAPON_TYPES } from '@/domain/weapons/config';
+import { Deployable } from '@/entities/Deployable';
 import { Pickup } from '@/entities/Pickup';
 import { Projectile } from '@/entities/Projectile';
 import { EntityManager } from '@/managers/EntityManager';
-import { EnemyType, PickupType, ProjectileType, VisualEffect } from '@/types/enums';
+import {
+  DamageType,
+  DeployableType,
+  EnemyType,
+  HazardType,
+  PickupType,
+  ProjectileType,
+  VisualEffect,
+} from '@/types/enums';
+import { segmentCircleCollision } from '@/utils/collision';
 import { distance, TWO_PI, Vector2 } from '@/utils/math';
-import { randomChance, randomInt, randomRange } from '@/utils/random';
 import { CollisionResult } from './CollisionSystem';
+import { Beam, getBeamEnd, Hazard } from './EffectsSystem';
+
+/** Minimum time between two hits of the same beam (ms) */
+const BEAM_HIT_INTERVAL = 500;
+
+/** Cluster bomblets arm quickly and fizzle out if nothing steps on them (s) */
+const BOMBLET_ARMING_TIME = 0.3;
+const BOMBLET_LIFETIME = 8;
 
 /**
  * Explosion event data
@@ -29,6 +49,10 @@ export interface ExplosionEvent {
   isMini?: boolean;
   /** If true, explosion damages player (enemy explosions only) */
   isEnemyExplosion?: boolean;
+  /** Status effects rolled for every enemy caught in the blast */
+  onHitEffects?: readonly OnHitEffect[];
+  /** Explosive when omitted */
+  damageType?: DamageType;
 }
 
 /**
@@ -61,6 +85,7 @@ export interface CombatRuntimeConfig {
 @singleton()
 export class CombatSystem {
   private entityManager: EntityManager;
+  private random: RandomService;
 
   /** Pending explosions to process */
   private pendingExplosions: ExplosionEvent[] = [];
@@ -72,8 +97,9 @@ export class CombatSystem {
     knockback: 0,
   };
 
-  public constructor(entityManager: EntityManager) {
+  public constructor(entityManager: EntityManager, random: RandomService) {
     this.entityManager = entityManager;
+    this.random = random;
   }
 
   /**
@@ -97,7 +123,7 @@ export class CombatSystem {
     // Process player-enemy collisions
     for (const enemy of collisions.playerEnemyCollisions) {
       // Dodge chance
-      if (randomChance(player.dodge)) {
+      if (this.random.combat.chance(player.dodge)) {
         EventBus.emit('playerDodged', undefined);
         continue;
       }
@@ -108,7 +134,15 @@ export class CombatSystem {
         damage *= GAME_BALANCE.boss.contactDamageMultiplier;
       }
 
+      const hpBefore = player.hp;
       const isDead = player.takeDamage(damage, currentTime);
+      this.applyPlayerStatus(enemy.onHitEffects);
+
+      // Vampiric elites heal from damage that got through (not during invincibility frames)
+      const dealt = hpBefore - player.hp;
+      if (dealt > 0 && enemy.hasAffix(EliteAffix.VAMPIRIC)) {
+        enemy.heal(dealt * ELITE_AFFIXES[EliteAffix.VAMPIRIC].healMultiplier);
+      }
 
       EventBus.emit('playerHit', {
         player,
@@ -119,7 +153,13 @@ export class CombatSystem {
       // Thorns damage - applied after player takes damage
       if (player.thorns > 0) {
         EventBus.emit('thornsTriggered', undefined);
-        const thornsKilled = enemy.takeDamage(player.thorns, enemy.position, player.knockback);
+        const thornsKilled = this.damageEnemy(
+          enemy,
+          player.thorns,
+          enemy.position,
+          DamageType.PHYSICAL,
+          player.knockback,
+        );
         if (thornsKilled) {
           this.handleEnemyDeath(enemy, 'player', currentTime);
         }
@@ -133,13 +173,14 @@ export class CombatSystem {
     // Process player-projectile collisions (enemy bullets)
     for (const projectile of collisions.playerProjectileCollisions) {
       // Dodge chance for projectiles too
-      if (randomChance(player.dodge)) {
+      if (this.random.combat.chance(player.dodge)) {
         EventBus.emit('playerDodged', undefined);
         projectile.destroy();
         continue;
       }
 
       const isDead = player.takeDamage(projectile.damage, currentTime);
+      this.applyPlayerStatus(projectile.onHitEffects);
       projectile.destroy();
 
       EventBus.emit('playerHit', {
@@ -153,6 +194,11 @@ export class CombatSystem {
       }
     }
 
+    // Process player projectiles shooting down enemy orbs (before enemy hits - spends the shot)
+    for (const { projectile, target } of collisions.projectileShootableCollisions) {
+      this.processShootableHit(projectile, target);
+    }
+
     // Process projectile-enemy collisions
     for (const { projectile, enemy } of collisions.projectileEnemyCollisions) {
       this.processProjectileHit(projectile, enemy, currentTime);
@@ -165,6 +211,11 @@ export class CombatSystem {
 
     // Process deployable triggers
     for (const { deployable } of collisions.deployableCollisions) {
+      if (deployable.trap) {
+        this.snapTrap(deployable, currentTime);
+        continue;
+      }
+
       const explosionData = deployable.trigger();
       if (explosionData) {
         this.queueExplosion({
@@ -174,6 +225,9 @@ export class CombatSystem {
           visualEffect: explosionData.visualEffect ?? VisualEffect.STANDARD,
           sourceId: deployable.id,
         });
+        if (deployable.cluster) {
+          this.scatterBomblets(deployable);
+        }
       }
     }
 
@@ -191,19 +245,34 @@ export class CombatSystem {
       return;
     }
 
+    // Spent on a shootable enemy projectile earlier this tick
+    if (!projectile.isActive) {
+      return;
+    }
+
+    // Boss phase transition or elite shield - the shot is spent without effect
+    if (enemy.isInvulnerable() || enemy.absorbHit()) {
+      projectile.destroy();
+      return;
+    }
+
+    if (this.tryReflect(projectile, enemy)) {
+      return;
+    }
+
     const { damageMultiplier, explosionRadius, knockback } = this.runtimeConfig;
     const player = this.entityManager.getPlayer();
     const finalDamage = projectile.damage * damageMultiplier;
 
     // Apply damage with knockback (using player knockback * projectile knockback multiplier)
     const totalKnockback = knockback * projectile.knockbackMultiplier;
-    const isDead = enemy.takeDamage(finalDamage, projectile.position, totalKnockback);
-
-    EventBus.emit('enemyDamaged', {
+    const isDead = this.damageEnemy(
       enemy,
-      damage: finalDamage,
-      source: projectile.position,
-    });
+      finalDamage,
+      projectile.position,
+      projectile.damageType,
+      totalKnockback,
+    );
 
     // Lifesteal - explicitly check > 0 for clarity
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -216,6 +285,10 @@ export class CombatSystem {
     // Handle enemy death
     if (isDead) {
       this.handleEnemyDeath(enemy, 'player', currentTime);
+    } else {
+      // Weapon effects, then item effects
+      this.applyEnemyStatus(enemy, projectile.onHitEffects);
+      this.applyEnemyStatus(enemy, player.onHitEffects);
     }
 
     // Handle explosive projectiles
@@ -233,11 +306,15 @@ export class CombatSystem {
         sourceId: projectile.id,
         isBanana,
         isMini,
+        onHitEffects: projectile.onHitEffects,
+        damageType: projectile.damageType,
       });
     }
 
-    // Destroy non-piercing projectiles
-    if (!projectile.canPierce()) {
+    // Destroy non-piercing projectiles (a ricochet keeps it flying)
+    if (this.tryRicochet(projectile, enemy)) {
+      // Bounced on to the next enemy
+    } else if (!projectile.canPierce()) {
       projectile.destroy();
     } else if (projectile.pierce && projectile.pierce.pierceCount <= 0) {
       projectile.destroy();
@@ -246,6 +323,275 @@ export class CombatSystem {
     EventBus.emit('projectileHit', { projectile, target: enemy });
   }
 
+  /**
+   * Deal typed damage - the enemy's resistance or weakness scales it
+   * @returns true if the enemy died
+   */
+  private damageEnemy(
+    enemy: Enemy,
+    amount: number,
+    source: Vector2,
+    damageType: DamageType,
+    knockbackMultiplier: number = 1,
+  ): boolean {
+    const multiplier = enemy.getDamageMultiplier(damageType);
+    const damage = amount * multiplier;
+    const isDead = enemy.takeDamage(damage, source, knockbackMultiplier);
+
+    EventBus.emit('enemyDamaged', { enemy, damage, source, damageType, multiplier });
+    return isDead;
+  }
+
+  /**
+   * Reflective elites may send a non-explosive projectile back at the player
+   * @returns true if the projectile was reflected (and spent)
+   */
+  private tryReflect(projectile: Projectile, enemy: Enemy): boolean {
+    if (!enemy.hasAffix(EliteAffix.REFLECTIVE) || projectile.isExplosive()) return false;
+
+    const { chance, damageShare, bulletSpeed, color } = ELITE_AFFIXES[EliteAffix.REFLECTIVE];
+    if (!this.random.combat.chance(chance)) return false;
+
+    const player = this.entityManager.getPlayer();
+    const dx = player.position.x - projectile.position.x;
+    const dy = player.position.y - projectile.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    projectile.destroy();
+    if (dist === 0) return true;
+
+    const reflected = this.entityManager.createProjectile({
+      position: { x: projectile.position.x, y: projectile.position.y },
+      vx: (dx / dist) * bulletSpeed,
+      vy: (dy / dist) * bulletSpeed,
+      radius: projectile.radius,
+      type: ProjectileType.ENEMY_BULLET,
+      damage: projectile.damage * damageShare,
+      ownerId: enemy.id,
+      color,
+      maxDistance: 1000,
+    });
+    this.entityManager.addProjectile(reflected);
+
+    EventBus.emit('projectileReflected', { enemy, projectile: reflected });
+    return true;
+  }
+
+  /**
+   * Ricocheting projectiles bounce on to the nearest enemy they haven't hit yet
+   * @returns true if the projectile bounced (and keeps flying)
+   */
+  private tryRicochet(projectile: Projectile, enemy: Enemy): boolean {
+    const ricochet = projectile.ricochet;
+    if (!projectile.isActive || !ricochet || ricochet.bounces <= 0) return false;
+
+    ricochet.hitEnemies.add(enemy.id);
+
+    let next: Enemy | null = null;
+    let nearestDist = Infinity;
+    const candidates = this.entityManager.getEnemiesInRadius(projectile.position, ricochet.range);
+    for (const candidate of candidates) {
+      if (candidate.isDead() || ricochet.hitEnemies.has(candidate.id)) continue;
+      const dist = distance(candidate.position, projectile.position);
+      if (dist > 0 && dist < nearestDist) {
+        nearestDist = dist;
+        next = candidate;
+      }
+    }
+    if (!next) return false;
+
+    const velocity = projectile.getVelocity();
+    const speed = Math.sqrt(velocity.vx * velocity.vx + velocity.vy * velocity.vy);
+    projectile.setVelocity(
+      ((next.position.x - projectile.position.x) / nearestDist) * speed,
+      ((next.position.y - projectile.position.y) / nearestDist) * speed,
+    );
+    ricochet.bounces--;
+    return true;
+  }
+
+  /**
+   * Damage the player standing in a firing beam.
+   * A beam hits at most once per BEAM_HIT_INTERVAL, so a long beam is not a dodge roll every tick.
+   */
+  public processBeamHits(beams: readonly Beam[], currentTime: number): void {
+    const player = this.entityManager.getPlayer();
+    if (!player.isActive) return;
+
+    for (const beam of beams) {
+      if (currentTime - beam.lastHitTime < BEAM_HIT_INTERVAL) continue;
+
+      const hitArea = {
+        x: player.position.x,
+        y: player.position.y,
+        radius: player.radius + beam.width / 2,
+      };
+      if (!segmentCircleCollision(beam, getBeamEnd(beam), hitArea)) continue;
+
+      beam.lastHitTime = currentTime;
+
+      if (this.random.combat.chance(player.dodge)) {
+        EventBus.emit('playerDodged', undefined);
+        continue;
+      }
+
+      const isDead = player.takeDamage(beam.damage, currentTime);
+
+      EventBus.emit('playerHit', {
+        player,
+        damage: beam.damage,
+        source: 'beam',
+      });
+
+      if (isDead) {
+        EventBus.emit('playerDeath', { player, killedBy: null });
+      }
+    }
+  }
+
+  /**
+   * Damage ticks of environmental hazards - everything standing inside is hit.
+   * Enemies take the hazard's enemy multiplier on top of their resistances.
+   */
+  public processHazardHits(hazards: readonly Hazard[], currentTime: number): void {
+    const player = this.entityManager.getPlayer();
+
+    for (const hazard of hazards) {
+      const config = HAZARDS[hazard.type];
+      const position = { x: hazard.x, y: hazard.y };
+
+      if (player.isActive && distance(player.position, position) <= hazard.radius) {
+        if (this.random.combat.chance(player.dodge)) {
+          EventBus.emit('playerDodged', undefined);
+        } else {
+          const isDead = player.takeDamage(hazard.damage, currentTime);
+          if (config.onHitEffects) this.applyPlayerStatus(config.onHitEffects);
+
+          EventBus.emit('playerHit', {
+            player,
+            damage: hazard.damage,
+            source: 'hazard',
+          });
+
+          if (isDead) {
+            EventBus.emit('playerDeath', { player, killedBy: null });
+          }
+        }
+      }
+
+      // Only the meteor impact pushes enemies around
+      const knockback = hazard.type === HazardType.METEOR ? 1 : 0;
+      for (const enemy of this.entityManager.getEnemiesInRadius(position, hazard.radius)) {
+        if (enemy.isInvulnerable()) continue;
+
+        const isDead = this.damageEnemy(
+          enemy,
+          hazard.damage * hazard.enemyDamageMultiplier,
+          position,
+          config.damageType,
+          knockback,
+        );
+
+        if (isDead) {
+          this.handleEnemyDeath(enemy, 'explosion', currentTime);
+        } else if (config.onHitEffects) {
+          this.applyEnemyStatus(enemy, config.onHitEffects);
+        }
+      }
+
+      if (hazard.type === HazardType.METEOR) {
+        EventBus.emit('explosionTriggered', {
+          position,
+          radius: hazard.radius,
+          damage: hazard.damage,
+          visualEffect: VisualEffect.FIRE,
+        });
+      }
+    }
+  }
+
+  // ============ Status Effects ============
+
+  /**
+   * Advance status effects of all enemies and the player, deal damage over time
+   * @param deltaTime Seconds
+   */
+  public processStatusEffects(deltaTime: number, currentTime: number): void {
+    for (const enemy of this.entityManager.getActiveEnemies()) {
+      const damage = enemy.statusEffects.update(deltaTime);
+      if (damage <= 0 || enemy.isInvulnerable()) continue;
+
+      // No knockback from ticks, resistances were applied when the effect landed
+      const isDead = enemy.takeDamage(damage, enemy.position, 0);
+
+      EventBus.emit('enemyDamaged', {
+        enemy,
+        damage,
+        source: enemy.position,
+        multiplier: 1,
+      });
+
+      if (isDead) {
+        this.handleEnemyDeath(enemy, 'player', currentTime);
+      }
+    }
+
+    const player = this.entityManager.getPlayer();
+    if (!player.isActive) return;
+
+    const damage = player.statusEffects.update(deltaTime);
+    if (damage <= 0) return;
+
+    const isDead = player.takeStatusDamage(damage);
+
+    EventBus.emit('playerHit', {
+      player,
+      damage,
+      source: 'status',
+    });
+
+    if (isDead) {
+      EventBus.emit('playerDeath', { player, killedBy: null });
+    }
+  }
+
+  /**
+   * Roll each effect's proc chance against an enemy
+   */
+  private applyEnemyStatus(enemy: Enemy, effects: readonly OnHitEffect[]): void {
+    for (const effect of effects) {
+      if (this.random.combat.chance(effect.chance)) {
+        enemy.applyStatus(effect);
+      }
+    }
+  }
+
+  /**
+   * Roll each effect's proc chance against the player (enemy contact and bullets)
+   */
+  private applyPlayerStatus(effects: readonly OnHitEffect[]): void {
+    const player = this.entityManager.getPlayer();
+    if (player.godMode) return;
+
+    for (const effect of effects) {
+      if (this.random.combat.chance(effect.chance)) {
+        player.statusEffects.apply(effect);
+      }
+    }
+  }
+
+  /**
+   * Process a player projectile hitting a shootable enemy projectile (orb)
+   */
+  private processShootableHit(projectile: Projectile, target: Projectile): void {
+    if (!projectile.isActive || !target.isActive) return;
+
+    target.takeHit(projectile.damage * this.runtimeConfig.damageMultiplier);
+
+    if (!projectile.canPierce()) {
+      projectile.destroy();
+    }
+  }
+
   /**
    * Queue an explosion for processing
    */
@@ -276,8 +622,17 @@ export class CombatSystem {
     damageMultiplier: number,
     currentTime: number,
   ): void {
-    const { position, radius, damage, visualEffect, isBanana, isMini, isEnemyExplosion } =
-      explosion;
+    const {
+      position,
+      radius,
+      damage,
+      visualEffect,
+      isBanana,
+      isMini,
+      isEnemyExplosion,
+      onHitEffects,
+      damageType = DamageType.EXPLOSIVE,
+    } = explosion;
 
     // Damage player if this is an enemy explosion
     if (isEnemyExplosion) {
@@ -303,22 +658,20 @@ export class CombatSystem {
     const enemies = this.entityManager.getEnemiesInRadius(position, radius);
 
     for (const enemy of enemies) {
-      const isDead = enemy.takeDamage(damage * damageMultiplier, position);
+      if (enemy.isInvulnerable() || enemy.absorbHit()) continue;
 
-      EventBus.emit('enemyDamaged', {
-        enemy,
-        damage: damage * damageMultiplier,
-        source: position,
-      });
+      const isDead = this.damageEnemy(enemy, damage * damageMultiplier, position, damageType);
 
       if (isDead) {
         this.handleEnemyDeath(enemy, 'explosion', currentTime);
+      } else if (onHitEffects) {
+        this.applyEnemyStatus(enemy, onHitEffects);
       }
     }
 
     // Banana (not mini) - spawn mini bananas
     if (isBanana && !isMini) {
-      this.spawnMiniBananas(position.x, position.y, randomInt(4, 6), damageMultiplier);
+      this.spawnMiniBananas(position.x, position.y, this.random.combat.int(4, 6), damageMultiplier);
     }
 
     // Emit explosion event for audio and other listeners
@@ -390,6 +743,10 @@ export class CombatSystem {
       killer,
     });
 
+    if (enemy.isBoss) {
+      EventBus.emit('bossDefeated', { enemy, bossName: enemy.bossName ?? 'Boss' });
+    }
+
     enemy.destroy();
   }
 
@@ -404,7 +761,7 @@ export class CombatSystem {
       const offsetX = Math.cos(angle) * 30;
       const offsetY = Math.sin(angle) * 30;
 
-      const splitEnemy = new Enemy({
+      const splitEnemy = this.entityManager.createEnemy({
         position: {
           x: enemy.position.x + offsetX,
           y: enemy.position.y + offsetY,
@@ -445,6 +802,7 @@ export class CombatSystem {
     position: Vector2,
     radius: number,
     damage: number,
+    currentTime: number,
     visualEffect: VisualEffect = VisualEffect.STANDARD,
   ): void {
     this.queueExplosion({
@@ -454,7 +812,28 @@ export class CombatSystem {
       visualEffect,
       sourceId: -1,
     });
-    this.processExplosions(performance.now());
+    this.processExplosions(currentTime);
+  }
+
+  /**
+   * Explosion of an enemy attack (lobbed grenades) - hurts the player
+   */
+  public triggerEnemyExplosion(
+    position: Vector2,
+    radius: number,
+    damage: number,
+    currentTime: number,
+    sourceId: number,
+  ): void {
+    this.queueExplosion({
+      position,
+      radius,
+      damage,
+      visualEffect: VisualEffect.FIRE,
+      sourceId,
+      isEnemyExplosion: true,
+    });
+    this.processExplosions(currentTime);
   }
 
   /**
@@ -465,8 +844,11 @@ export class CombatSystem {
     position: Vector2,
     radius: number,
     damage: number,
+    currentTime: number,
     visualEffect: VisualEffect = VisualEffect.STANDARD,
     isMini: boolean = false,
+    onHitEffects: readonly OnHitEffect[] = [],
+    damageType: DamageType = DamageType.EXPLOSIVE,
   ): void {
     const isBanana = visualEffect === VisualEffect.BANANA;
     this.queueExplosion({
@@ -477,8 +859,61 @@ export class CombatSystem {
       sourceId: -1,
       isBanana,
       isMini,
+      onHitEffects,
+      damageType,
     });
-    this.processExplosions(performance.now());
+    this.processExplosions(currentTime);
+  }
+
+  /**
+   * Snap a trap on every enemy in its radius - damage, then root/slow the survivors
+   */
+  private snapTrap(trap: Deployable, currentTime: number): void {
+    const { radius, effects } = trap.trap!;
+    if (!trap.snap()) return;
+
+    for (const enemy of this.entityManager.getEnemiesInRadius(trap.position, radius)) {
+      if (enemy.isInvulnerable() || enemy.absorbHit()) continue;
+
+      const isDead = this.damageEnemy(enemy, trap.damage, trap.position, DamageType.PHYSICAL, 0);
+      if (isDead) {
+        this.handleEnemyDeath(enemy, 'player', currentTime);
+      } else {
+        this.applyEnemyStatus(enemy, effects);
+      }
+    }
+
+    EventBus.emit('trapSnapped', { position: trap.position, radius });
+  }
+
+  /**
+   * Scatter bomblets around an exploded cluster mine - small mines of their own
+   */
+  private scatterBomblets(mine: Deployable): void {
+    const { count, share } = mine.cluster!;
+
+    for (let i = 0; i < count; i++) {
+      const angle = (TWO_PI / count) * i + this.random.combat.range(-0.3, 0.3);
+      const dist = mine.explosionRadius * this.random.combat.range(0.6, 1.2);
+
+      const bomblet = this.entityManager.createDeployable({
+        position: {
+          x: mine.position.x + Math.cos(angle) * dist,
+          y: mine.position.y + Math.sin(angle) * dist,
+        },
+        radius: mine.radius * share,
+        type: DeployableType.MINE,
+        damage: mine.damage * share,
+        ownerId: mine.ownerId,
+        color: mine.color,
+        lifetime: BOMBLET_LIFETIME,
+        explosionRadius: mine.explosionRadius * share,
+        explosionDamage: mine.explosionDamage * share,
+        visualEffect: mine.visualEffect,
+        armingTime: BOMBLET_ARMING_TIME,
+      });
+      this.entityManager.addDeployable(bomblet);
+    }
   }
 
   /**
@@ -491,13 +926,13 @@ export class CombatSystem {
     const playerId = player.id;
 
     for (let i = 0; i < count; i++) {
-      const angle = (TWO_PI / count) * i + randomRange(-0.25, 0.25);
+      const angle = (TWO_PI / count) * i + this.random.combat.range(-0.25, 0.25);
 
       // Random speed (6-10) and distance (60-100px) for each mini banana
-      const speed = randomInt(6, 10);
-      const range = randomInt(60, 100);
+      const speed = this.random.combat.int(6, 10);
+      const range = this.random.combat.int(60, 100);
 
-      const projectile = new Projectile({
+      const projectile = this.entityManager.createProjectile({
         position: {
           x,
           y,
@@ -518,6 +953,9 @@ export class CombatSystem {
           explosionDamage: config.damage * damageMultiplier,
           visualEffect: VisualEffect.BANANA,
         },
+        onHitEffects: config.onHitEffects,
+        damageType: config.damageType,
+        obstacleHit: config.obstacleHit,
       });
 
       this.entityManager.addProjectile(projectile);
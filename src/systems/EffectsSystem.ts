@@ -5,10 +5,14 @@
 
 import { Enemy } from '@/domain/enemies';
 import { EventBus } from '@/events/EventBus';
+import { Subscription } from '@/events/type';
+import { ObjectPool, PoolStats } from '@/managers/ObjectPool';
 import { renderExplosion } from '@/rendering';
-import { EnemyType, VisualEffect } from '@/types';
+import { HAZARDS } from '@/config/hazards.config';
+import { EnemyType, HazardType, VisualEffect } from '@/types';
 import { distance, randomAngle, randomChance, randomRange } from '@/utils';
 import { TWO_PI, Vector2 } from '@/utils/math';
+import { RandomGenerator } from '@/utils/random';
 
 // ============ Effect Interfaces ============
 
@@ -47,12 +51,88 @@ export interface Shockwave {
   alpha: number;
 }
 
+export interface Beam {
+  /** Origin - follows the owner */
+  x: number;
+  y: number;
+  /** Direction when firing starts */
+  angle: number;
+  /** Radians turned over the firing time */
+  sweep: number;
+  length: number;
+  width: number;
+  damage: number;
+  color: string;
+  ownerId: number;
+  created: number;
+  warningTime: number;
+  duration: number;
+  /** Current direction */
+  currentAngle: number;
+  /** False while the warning line is shown */
+  firing: boolean;
+  /** Firing progress 0-1 */
+  progress: number;
+  /** Last time this beam damaged the player (ms) */
+  lastHitTime: number;
+}
+
+/**
+ * Floating number over an enemy hit by a damage type it resists or is weak to
+ */
+export interface DamageNumber {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  fontSize: number;
+  created: number;
+}
+
+/**
+ * Environmental hazard on the ground - telegraph, then active until it expires.
+ * Damage is dealt by CombatSystem (see updateHazards).
+ */
+export interface Hazard {
+  type: HazardType;
+  x: number;
+  y: number;
+  radius: number;
+  /** Damage per tick */
+  damage: number;
+  enemyDamageMultiplier: number;
+  created: number;
+  /** Telegraph ends (ms) */
+  activeAt: number;
+  expiresAt: number;
+  nextTickAt: number;
+  /** Last damage tick (ms) - pulse visuals */
+  lastTickAt: number;
+}
+
 // ============ Effects Storage ============
 
 export interface EffectsState {
   explosions: Explosion[];
   deathEffects: DeathParticle[];
   shockwaves: Shockwave[];
+  beams: Beam[];
+  damageNumbers: DamageNumber[];
+  hazards: Hazard[];
+}
+
+/** Shotgun spam on a resistant crowd would flood the screen */
+const MAX_DAMAGE_NUMBERS = 40;
+const DAMAGE_NUMBER_DURATION = 700; // ms
+
+/**
+ * Far end of the beam in its current direction
+ */
+export function getBeamEnd(beam: Beam): Vector2 {
+  return {
+    x: beam.x + Math.cos(beam.currentAngle) * beam.length,
+    y: beam.y + Math.sin(beam.currentAngle) * beam.length,
+  };
 }
 
 // ============ Effects System ============
@@ -61,18 +141,52 @@ export class EffectsSystem {
   // TODO analyse if these should be in entity manager
   private effects: EffectsState = this.createEffectsState();
 
-  public constructor() {
+  /** Death particles are spawned in bursts of 5-50 - recycle them */
+  private particlePool = new ObjectPool<DeathParticle, DeathParticle>(
+    'particle',
+    (config) => ({ ...config }),
+    (particle, config) => {
+      Object.assign(particle, config);
+    },
+  );
+
+  /** Seeded generator for gameplay rolls (shockwave dodge) */
+  private rng: RandomGenerator;
+
+  private subscriptions: Subscription[] = [];
+
+  public constructor(rng: RandomGenerator) {
+    this.rng = rng;
     this.connectToEventBus();
   }
 
-  private connectToEventBus(): void {
-    EventBus.on('explosionTriggered', (data) => {
-      this.createExplosion(data.position, data.radius, data.visualEffect);
+  /**
+   * Stop listening - for owners that outlive this system (headless simulations)
+   */
+  public dispose(): void {
+    this.subscriptions.forEach((sub) => {
+      sub.unsubscribe();
     });
+    this.subscriptions = [];
+  }
 
-    EventBus.on('enemyDeath', (data) => {
-      this.createDeathEffect(data.enemy);
-    });
+  private connectToEventBus(): void {
+    this.subscriptions = [
+      EventBus.on('explosionTriggered', (data) => {
+        this.createExplosion(data.position, data.radius, data.visualEffect);
+      }),
+      EventBus.on('enemyDeath', (data) => {
+        this.createDeathEffect(data.enemy);
+      }),
+      EventBus.on('enemiesHealed', (data) => {
+        this.createExplosion(data.position, data.radius, VisualEffect.HEAL);
+      }),
+      EventBus.on('enemyDamaged', (data) => {
+        if (data.multiplier !== 1) {
+          this.createDamageNumber(data.enemy, data.damage, data.multiplier);
+        }
+      }),
+    ];
   }
 
   /**
@@ -83,6 +197,9 @@ export class EffectsSystem {
       explosions: [],
       deathEffects: [],
       shockwaves: [],
+      beams: [],
+      damageNumbers: [],
+      hazards: [],
     };
   }
 
@@ -102,7 +219,7 @@ export class EffectsSystem {
   ): boolean {
     for (let i = this.effects.shockwaves.length - 1; i >= 0; i--) {
       const sw = this.effects.shockwaves[i]!;
-      const age = Date.now() - sw.created;
+      const age = currentTime - sw.created;
       const duration = 400; // ms
 
       // Expand ring
@@ -114,7 +231,7 @@ export class EffectsSystem {
         const distToPlayer = distance({ x: sw.x, y: sw.y }, player);
         if (distToPlayer <= sw.currentRadius && distToPlayer >= sw.currentRadius - 30) {
           // Player in wave range
-          if (randomChance(player.dodge)) {
+          if (randomChance(player.dodge, this.rng)) {
             onDodge();
           } else {
             const isDead = player.takeDamage(sw.damage, currentTime);
@@ -133,6 +250,87 @@ export class EffectsSystem {
     return false;
   }
 
+  /**
+   * Update beams (enemy laser attack) - warning, then firing and sweeping.
+   * Damage is dealt by CombatSystem (see getFiringBeams).
+   * @param getOwnerPosition Position of the shooting enemy, null when it is gone
+   */
+  public updateBeams(
+    currentTime: number,
+    getOwnerPosition: (ownerId: number) => Vector2 | null,
+  ): void {
+    const beams = this.effects.beams;
+    for (let i = beams.length - 1; i >= 0; i--) {
+      const beam = beams[i]!;
+      const owner = getOwnerPosition(beam.ownerId);
+      const age = currentTime - beam.created;
+      const progress = (age - beam.warningTime) / beam.duration;
+
+      // Shooter died or beam finished (swap-and-pop for O(1) removal)
+      if (!owner || progress >= 1) {
+        beams[i] = beams[beams.length - 1]!;
+        beams.pop();
+        continue;
+      }
+
+      beam.x = owner.x;
+      beam.y = owner.y;
+      beam.firing = progress >= 0;
+      beam.progress = Math.max(0, progress);
+      beam.currentAngle = beam.angle + beam.sweep * beam.progress;
+    }
+  }
+
+  /**
+   * Beams currently able to deal damage
+   */
+  public getFiringBeams(): Beam[] {
+    return this.effects.beams.filter((beam) => beam.firing);
+  }
+
+  /**
+   * Advance hazards on the game clock and drop expired ones
+   * @returns Hazards dealing a damage tick this update
+   */
+  public updateHazards(currentTime: number): Hazard[] {
+    const hazards = this.effects.hazards;
+    const ticking: Hazard[] = [];
+
+    for (let i = hazards.length - 1; i >= 0; i--) {
+      const hazard = hazards[i]!;
+
+      if (currentTime >= hazard.nextTickAt && hazard.nextTickAt <= hazard.expiresAt) {
+        ticking.push(hazard);
+        hazard.lastTickAt = currentTime;
+        // Single-strike hazards (meteor) tick once
+        const { tickInterval } = HAZARDS[hazard.type];
+        hazard.nextTickAt = tickInterval > 0 ? hazard.nextTickAt + tickInterval * 1000 : Infinity;
+      }
+
+      // Swap-and-pop for O(1) removal
+      if (currentTime >= hazard.expiresAt) {
+        hazards[i] = hazards[hazards.length - 1]!;
+        hazards.pop();
+      }
+    }
+
+    return ticking;
+  }
+
+  /**
+   * Hazards on the ground (BackgroundRenderer draws them under entities)
+   */
+  public getHazards(): readonly Hazard[] {
+    return this.effects.hazards;
+  }
+
+  /**
+   * Remove hazards left from the last wave
+   */
+  public clearHazards(): void {
+    this.effects.hazards = [];
+  }
+
   // TODO move to rendering
   /**
    * Render explosions
@@ -175,6 +373,7 @@ export class EffectsSystem {
       if (p.life <= 0) {
         deathEffects[i] = deathEffects[deathEffects.length - 1]!;
         deathEffects.pop();
+        this.particlePool.release(p);
         continue;
       }
 
@@ -225,6 +424,85 @@ export class EffectsSystem {
     }
   }
 
+  /**
+   * Render beams - thin warning line, then a thick glowing laser
+   */
+  private renderBeams(ctx: CanvasRenderingContext2D): void {
+    for (const beam of this.effects.beams) {
+      const end = getBeamEnd(beam);
+
+      ctx.save();
+      ctx.lineCap = 'round';
+      ctx.strokeStyle = beam.color;
+
+      if (!beam.firing) {
+        // Warning line (flickers faster than the player can ignore)
+        ctx.globalAlpha = 0.4 + Math.sin(Date.now() / 50) * 0.2;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([12, 8]);
+        ctx.beginPath();
+        ctx.moveTo(beam.x, beam.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        ctx.restore();
+        continue;
+      }
+
+      // Fade out over the last 20% of firing
+      ctx.globalAlpha = Math.min(1, (1 - beam.progress) * 5);
+
+      ctx.shadowColor = beam.color;
+      ctx.shadowBlur = 25;
+      ctx.lineWidth = beam.width;
+      ctx.beginPath();
+      ctx.moveTo(beam.x, beam.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+
+      // White-hot core
+      ctx.shadowBlur = 0;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = beam.width * 0.35;
+      ctx.stroke();
+
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Render resistance/weakness numbers - rise and fade
+   */
+  private renderDamageNumbers(ctx: CanvasRenderingContext2D): void {
+    const numbers = this.effects.damageNumbers;
+    const now = Date.now();
+
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 3;
+
+    for (let i = numbers.length - 1; i >= 0; i--) {
+      const number = numbers[i]!;
+      const progress = (now - number.created) / DAMAGE_NUMBER_DURATION;
+
+      if (progress >= 1) {
+        numbers[i] = numbers[numbers.length - 1]!;
+        numbers.pop();
+        continue;
+      }
+
+      const y = number.y - progress * 30;
+      ctx.globalAlpha = 1 - progress * progress;
+      ctx.font = `bold ${number.fontSize}px Arial`;
+      ctx.strokeText(number.text, number.x, y);
+      ctx.fillStyle = number.color;
+      ctx.fillText(number.text, number.x, y);
+    }
+
+    ctx.restore();
+  }
+
   /**
    * Create death particle effect for enemy
    */
@@ -250,7 +528,7 @@ export class EffectsSystem {
       const angle = (TWO_PI / particleCount) * i + randomRange(0, 0.5);
       const speed = randomRange(2, 6);
 
-      this.effects.deathEffects.push({
+      this.spawnParticle({
         x: enemy.position.x,
         y: enemy.position.y,
         vx: Math.cos(angle) * speed,
@@ -270,7 +548,7 @@ export class EffectsSystem {
         const angle = randomAngle();
         const speed = randomRange(1, 3);
 
-        this.effects.deathEffects.push({
+        this.spawnParticle({
           x: enemy.position.x,
           y: enemy.position.y,
           vx: Math.cos(angle) * speed,
@@ -286,6 +564,10 @@ export class EffectsSystem {
     }
   }
 
+  private spawnParticle(config: DeathParticle): void {
+    this.effects.deathEffects.push(this.particlePool.acquire(config));
+  }
+
   /**
    * Create explosion visual effect
    */
@@ -300,16 +582,37 @@ export class EffectsSystem {
     });
   }
 
+  /**
+   * Create floating damage number - weaknesses big and hot, resistances small and grey
+   */
+  private createDamageNumber(enemy: Enemy, damage: number, multiplier: number): void {
+    if (this.effects.damageNumbers.length >= MAX_DAMAGE_NUMBERS) return;
+
+    const isWeakness = multiplier > 1;
+    this.effects.damageNumbers.push({
+      x: enemy.position.x + randomRange(-8, 8),
+      y: enemy.position.y - enemy.radius - 6,
+      text: isWeakness ? `${Math.round(damage)}!` : String(Math.round(damage)),
+      color: isWeakness ? '#ff5a1f' : '#9e9e9e',
+      fontSize: isWeakness ? 18 : 12,
+      created: Date.now(),
+    });
+  }
+
   /**
    * Create shockwave effect (boss attack)
+   * @param currentTime Simulation time (ms) - shockwave expands on the game clock
    */
-  public createShockwave(shockwave: {
-    x: number;
-    y: number;
-    radius: number;
-    damage: number;
-    color?: string;
-  }): void {
+  public createShockwave(
+    shockwave: {
+      x: number;
+      y: number;
+      radius: number;
+      damage: number;
+      color?: string;
+    },
+    currentTime: number,
+  ): void {
     this.effects.shockwaves.push({
       x: shockwave.x,
       y: shockwave.y,
@@ -317,12 +620,97 @@ export class EffectsSystem {
       currentRadius: 0,
       damage: shockwave.damage,
       color: shockwave.color ?? '#ff4444',
-      created: Date.now(),
+      created: currentTime,
       damageDealt: false,
       alpha: 1,
     });
   }
 
+  /**
+   * Create beam effect (enemy laser)
+   * @param currentTime Simulation time (ms) - warning and firing run on the game clock
+   */
+  public createBeam(
+    beam: {
+      x: number;
+      y: number;
+      angle: number;
+      sweep: number;
+      length: number;
+      width: number;
+      damage: number;
+      color: string;
+      warningTime: number;
+      duration: number;
+      ownerId: number;
+    },
+    currentTime: number,
+  ): void {
+    this.effects.beams.push({
+      x: beam.x,
+      y: beam.y,
+      angle: beam.angle,
+      sweep: beam.sweep,
+      length: beam.length,
+      width: beam.width,
+      damage: beam.damage,
+      color: beam.color,
+      ownerId: beam.ownerId,
+      created: currentTime,
+      warningTime: beam.warningTime,
+      duration: beam.duration,
+      currentAngle: beam.angle,
+      firing: false,
+      progress: 0,
+      lastHitTime: -Infinity,
+    });
+  }
+
+  /**
+   * Create hazard (wave schedule) - harmless until its telegraph runs out
+   * @param currentTime Simulation time (ms) - hazards run on the game clock
+   */
+  public createHazard(
+    hazard: {
+      type: HazardType;
+      position: Vector2;
+      damage: number;
+      enemyDamageMultiplier: number;
+    },
+    currentTime: number,
+  ): void {
+    const config = HAZARDS[hazard.type];
+    const activeAt = currentTime + config.warningTime * 1000;
+
+    this.effects.hazards.push({
+      type: hazard.type,
+      x: hazard.position.x,
+      y: hazard.position.y,
+      radius: config.radius,
+      damage: hazard.damage,
+      enemyDamageMultiplier: hazard.enemyDamageMultiplier,
+      created: currentTime,
+      activeAt,
+      expiresAt: activeAt + config.duration * 1000,
+      nextTickAt: activeAt,
+      lastTickAt: -Infinity,
+    });
+  }
+
+  /**
+   * Remove all active effects (new run)
+   */
+  public clear(): void {
+    for (const particle of this.effects.deathEffects) {
+      this.particlePool.release(particle);
+    }
+    this.effects = this.createEffectsState();
+  }
+
+  public getPoolStats(): PoolStats {
+    return this.particlePool.getStats();
+  }
+
   /**
    * Render all effects
    */
@@ -331,5 +719,7 @@ export class EffectsSystem {
     this.renderExplosions(ctx);
     this.renderDeathEffects(ctx);
     this.renderShockwaves(ctx);
+    this.renderBeams(ctx);
+    this.renderDamageNumbers(ctx);
   }
 }
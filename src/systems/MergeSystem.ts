@@ -0,0 +1,96 @@
+/**
+ * MergeSystem - fuses tight clusters of same-type enemies into one stronger enemy.
+ * Gives a reason to thin swarms early and keeps entity counts down in late waves.
+ */
+
+import { singleton } from 'tsyringe';
+import { GAME_BALANCE } from '@/config/balance.config';
+import { Enemy } from '@/domain/enemies';
+import { EventBus } from '@/events/EventBus';
+import { EntityManager } from '@/managers/EntityManager';
+
+/**
+ * Bosses, elites, phasing enemies and enemies still walking in from off-screen never merge
+ */
+function canMerge(enemy: Enemy): boolean {
+  return (
+    !enemy.isBoss &&
+    !enemy.isElite() &&
+    !enemy.phasing &&
+    enemy.hasEnteredArena &&
+    !enemy.isDead() &&
+    enemy.mergeCount < GAME_BALANCE.merge.maxMembers
+  );
+}
+
+@singleton()
+export class MergeSystem {
+  private lastCheckTime: number = 0;
+
+  /** Enemies found in a cluster by the previous check */
+  private clustered = new Set<number>();
+
+  public constructor(private entityManager: EntityManager) {}
+
+  /**
+   * New run - restart the check timer
+   */
+  public reset(): void {
+    this.lastCheckTime = 0;
+    this.clustered.clear();
+  }
+
+  /**
+   * Merge clusters that held together since the previous check
+   * (checked every GAME_BALANCE.merge.checkInterval, passing contacts don't fuse).
+   * Call after enemy movement with a fresh spatial index, before bodies are pushed apart.
+   */
+  public update(currentTime: number): void {
+    const { touchMargin, checkInterval, clusterSize, maxMembers, damageShare } = GAME_BALANCE.merge;
+    if (currentTime - this.lastCheckTime < checkInterval) return;
+    this.lastCheckTime = currentTime;
+
+    const wasClustered = this.clustered;
+    this.clustered = new Set<number>();
+    const absorbedIds = new Set<number>();
+
+    for (const enemy of this.entityManager.getActiveEnemies()) {
+      if (absorbedIds.has(enemy.id) || !canMerge(enemy)) continue;
+
+      const cluster = this.entityManager
+        .getEnemiesOverlapping(enemy.position, enemy.radius + touchMargin)
+        .filter(
+          (other) =>
+            other !== enemy &&
+            other.type === enemy.type &&
+            !absorbedIds.has(other.id) &&
+            canMerge(other),
+        );
+      if (cluster.length + 1 < clusterSize) continue;
+
+      // New cluster - merge on the next check if it holds
+      if (!wasClustered.has(enemy.id)) {
+        this.clustered.add(enemy.id);
+        for (const other of cluster) {
+          this.clustered.add(other.id);
+        }
+        continue;
+      }
+
+      let absorbed = 0;
+      for (const other of cluster) {
+        if (enemy.mergeCount + other.mergeCount > maxMembers) continue;
+
+        enemy.absorb(other, damageShare);
+        absorbedIds.add(other.id);
+        // Released with the other inactive entities at the end of the tick
+        other.destroy();
+        absorbed++;
+      }
+
+      if (absorbed > 0) {
+        EventBus.emit('enemiesMerged', { enemy, absorbed });
+      }
+    }
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * ObstacleSystem - static arena obstacles.
+ * Keeps bodies out of them, stops or bounces projectiles, and steers enemies
+ * around them with a flow field towards the player.
+ */
+
+import { singleton } from 'tsyringe';
+import { ConfigService } from '@/config/ConfigService';
+import { ArenaLayout, Obstacle, ObstacleType } from '@/domain/arena';
+import { Projectile } from '@/entities/Projectile';
+import { clamp, Vector2 } from '@/utils/math';
+
+/** Flow field cell size (px) */
+const CELL_SIZE = 20;
+
+/** Cells closer than this to an obstacle are not walkable - typical enemy radius (px) */
+const NAV_MARGIN = 12;
+
+/** Cells followed down the flow field before aiming - smooths the path */
+const WAYPOINT_LOOKAHEAD = 2;
+
+const UNREACHED = -1;
+
+/** Neighbor offsets - orthogonal first, diagonals only when both sides are free */
+const NEIGHBORS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+/**
+ * Push-out direction and depth of the last overlap found
+ */
+interface Contact {
+  nx: number;
+  ny: number;
+  depth: number;
+}
+
+@singleton()
+export class ObstacleSystem {
+  private obstacles: Obstacle[] = [];
+  /** Bounding box per obstacle (minX, minY, maxX, maxY) - cheap rejects */
+  private boxes: Float64Array = new Float64Array(0);
+
+  // Flow field over the arena grid - BFS distances (in cells) to the target cell
+  private cols: number = 0;
+  private rows: number = 0;
+  private blocked: Uint8Array = new Uint8Array(0);
+  private distances: Int32Array = new Int32Array(0);
+  private queue: Int32Array = new Int32Array(0);
+  /** Cell the field currently leads to (-1 = not built) */
+  private fieldCell: number = -1;
+
+  /** Reused results - callers read them right away */
+  private contact: Contact = { nx: 0, ny: 0, depth: 0 };
+  private waypoint: Vector2 = { x: 0, y: 0 };
+
+  public constructor(private configService: ConfigService) {
+    this.setLayout(configService.getArena().layout);
+  }
+
+  /**
+   * Replace the arena obstacles (new run) - the grid follows the current arena size
+   */
+  public setLayout(layout: ArenaLayout): void {
+    this.resizeGrid();
+
+    this.obstacles = layout.obstacles.map((obstacle) => ({ ...obstacle }));
+
+    this.boxes = new Float64Array(this.obstacles.length * 4);
+    this.obstacles.forEach((obstacle, i) => {
+      const isPillar = obstacle.type === ObstacleType.PILLAR;
+      this.boxes[i * 4] = isPillar ? obstacle.x - obstacle.radius : obstacle.x;
+      this.boxes[i * 4 + 1] = isPillar ? obstacle.y - obstacle.radius : obstacle.y;
+      this.boxes[i * 4 + 2] = isPillar ? obstacle.x + obstacle.radius : obstacle.x + obstacle.width;
+      this.boxes[i * 4 + 3] = isPillar
+        ? obstacle.y + obstacle.radius
+        : obstacle.y + obstacle.height;
+    });
+
+    this.rebuildGrid();
+  }
+
+  public getObstacles(): readonly Obstacle[] {
+    return this.obstacles;
+  }
+
+  // ============ Bodies ============
+
+  /**
+   * Move a circle out of every obstacle it overlaps (slides along surfaces)
+   * @returns true if the position changed
+   */
+  public pushOut(position: Vector2, radius: number): boolean {
+    let moved = false;
+
+    for (const obstacle of this.obstacles) {
+      if (!this.findContact(obstacle, position.x, position.y, radius)) continue;
+
+      position.x += this.contact.nx * this.contact.depth;
+      position.y += this.contact.ny * this.contact.depth;
+      moved = true;
+    }
+
+    return moved;
+  }
+
+  /**
+   * Whether a circle at position would overlap an obstacle
+   */
+  public isBlocked(position: Vector2, radius: number): boolean {
+    return this.obstacles.some((obstacle) =>
+      this.findContact(obstacle, position.x, position.y, radius),
+    );
+  }
+
+  // ============ Projectiles ============
+
+  /**
+   * Stop or bounce a projectile that flew into an obstacle (see ObstacleHit).
+   * Stopped explosives are flagged to detonate - GameWorld handles them like expired grenades.
+   */
+  public collideProjectile(projectile: Projectile): void {
+    if (projectile.lob || projectile.obstacleHit === 'pass') return;
+
+    for (const obstacle of this.obstacles) {
+      if (
+        !this.findContact(obstacle, projectile.position.x, projectile.position.y, projectile.radius)
+      )
+        continue;
+
+      const { nx, ny, depth } = this.contact;
+
+      if (projectile.obstacleHit === 'reflect') {
+        const { vx, vy } = projectile.getVelocity();
+        const dot = vx * nx + vy * ny;
+        // Only when moving into the surface - a bounce already on its way out keeps going
+        if (dot < 0) {
+          projectile.setVelocity(vx - 2 * dot * nx, vy - 2 * dot * ny);
+        }
+        projectile.position.x += nx * depth;
+        projectile.position.y += ny * depth;
+        continue;
+      }
+
+      if (projectile.isExplosive()) {
+        projectile.shouldExplodeOnExpire = true;
+      }
+      projectile.destroy();
+      return;
+    }
+  }
+
+  // ============ Steering ============
+
+  /**
+   * Point an enemy should head for to reach target.
+   * The target itself while the way is clear, otherwise a waypoint down the flow field.
+   * The returned vector is reused - read it before the next call.
+   */
+  public getSteeringTarget(position: Vector2, radius: number, target: Vector2): Vector2 {
+    if (this.obstacles.length === 0 || !this.isLineBlocked(position, target, radius)) {
+      return target;
+    }
+
+    // Still outside the arena - walk in first
+    const start = this.getCell(position);
+    if (start === UNREACHED) return target;
+
+    this.updateFlowField(target);
+
+    let cell = start;
+    for (let step = 0; step < WAYPOINT_LOOKAHEAD; step++) {
+      const next = this.getNextCell(cell);
+      if (next === cell) break;
+      cell = next;
+    }
+    if (cell === start && this.distances[cell] === UNREACHED) return target;
+
+    this.waypoint.x = ((cell % this.cols) + 0.5) * CELL_SIZE;
+    this.waypoint.y = (Math.floor(cell / this.cols) + 0.5) * CELL_SIZE;
+    return this.waypoint;
+  }
+
+  /**
+   * Whether a circle of given radius moving from start to end would hit an obstacle
+   */
+  public isLineBlocked(start: Vector2, end: Vector2, radius: number): boolean {
+    const minX = Math.min(start.x, end.x) - radius;
+    const minY = Math.min(start.y, end.y) - radius;
+    const maxX = Math.max(start.x, end.x) + radius;
+    const maxY = Math.max(start.y, end.y) + radius;
+    const boxes = this.boxes;
+
+    for (let i = 0; i < this.obstacles.length; i++) {
+      const b = i * 4;
+      if (
+        boxes[b]! > maxX ||
+        boxes[b + 1]! > maxY ||
+        boxes[b + 2]! < minX ||
+        boxes[b + 3]! < minY
+      ) {
+        continue;
+      }
+
+      const obstacle = this.obstacles[i]!;
+      if (obstacle.type === ObstacleType.PILLAR) {
+        const reach = obstacle.radius + radius;
+        if (this.segmentDistanceSquared(obstacle, start, end) < reach * reach) return true;
+      } else if (
+        this.segmentHitsBox(
+          start,
+          end,
+          obstacle.x - radius,
+          obstacle.y - radius,
+          obstacle.x + obstacle.width + radius,
+          obstacle.y + obstacle.height + radius,
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // ============ Geometry ============
+
+  /**
+   * Overlap of a circle with an obstacle, written to this.contact
+   * @returns true if they overlap
+   */
+  private findContact(obstacle: Obstacle, x: number, y: number, radius: number): boolean {
+    const contact = this.contact;
+
+    if (obstacle.type === ObstacleType.PILLAR) {
+      const dx = x - obstacle.x;
+      const dy = y - obstacle.y;
+      const minDistance = obstacle.radius + radius;
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= minDistance * minDistance) return false;
+
+      const dist = Math.sqrt(distSq);
+      contact.nx = dist > 0 ? dx / dist : 1;
+      contact.ny = dist > 0 ? dy / dist : 0;
+      contact.depth = minDistance - dist;
+      return true;
+    }
+
+    const right = obstacle.x + obstacle.width;
+    const bottom = obstacle.y + obstacle.height;
+    const dx = x - clamp(x, obstacle.x, right);
+    const dy = y - clamp(y, obstacle.y, bottom);
+    const distSq = dx * dx + dy * dy;
+
+    if (distSq > 0) {
+      if (distSq >= radius * radius) return false;
+      const dist = Math.sqrt(distSq);
+      contact.nx = dx / dist;
+      contact.ny = dy / dist;
+      contact.depth = radius - dist;
+      return true;
+    }
+
+    // Center inside the box - out through the nearest face
+    const toLeft = x - obstacle.x;
+    const toRight = right - x;
+    const toTop = y - obstacle.y;
+    const toBottom = bottom - y;
+    const nearest = Math.min(toLeft, toRight, toTop, toBottom);
+
+    contact.nx = nearest === toLeft ? -1 : nearest === toRight ? 1 : 0;
+    contact.ny = contact.nx !== 0 ? 0 : nearest === toTop ? -1 : 1;
+    contact.depth = nearest + radius;
+    return true;
+  }
+
+  private segmentDistanceSquared(point: Vector2, start: Vector2, end: Vector2): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : clamp(((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq, 0, 1);
+
+    const px = start.x + dx * t - point.x;
+    const py = start.y + dy * t - point.y;
+    return px * px + py * py;
+  }
+
+  /**
+   * Slab test - does the segment cross the box
+   */
+  private segmentHitsBox(
+    start: Vector2,
+    end: Vector2,
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+  ): boolean {
+    let tMin = 0;
+    let tMax = 1;
+
+    const dx = end.x - start.x;
+    if (dx === 0) {
+      if (start.x < minX || start.x > maxX) return false;
+    } else {
+      const t1 = (minX - start.x) / dx;
+      const t2 = (maxX - start.x) / dx;
+      tMin = Math.max(tMin, Math.min(t1, t2));
+      tMax = Math.min(tMax, Math.max(t1, t2));
+      if (tMin > tMax) return false;
+    }
+
+    const dy = end.y - start.y;
+    if (dy === 0) {
+      return start.y >= minY && start.y <= maxY;
+    }
+    const t1 = (minY - start.y) / dy;
+    const t2 = (maxY - start.y) / dy;
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    return tMin <= tMax;
+  }
+
+  // ============ Flow Field ============
+
+  /**
+   * Mark cells too close to an obstacle for an average enemy
+   */
+  /**
+   * Reallocate the grid when the arena size changed
+   */
+  private resizeGrid(): void {
+    const { width, height } = this.configService.getCanvasBounds();
+    const cols = Math.ceil(width / CELL_SIZE);
+    const rows = Math.ceil(height / CELL_SIZE);
+    if (cols === this.cols && rows === this.rows) return;
+
+    this.cols = cols;
+    this.rows = rows;
+    const cellCount = cols * rows;
+    this.blocked = new Uint8Array(cellCount);
+    this.distances = new Int32Array(cellCount);
+    this.queue = new Int32Array(cellCount);
+  }
+
+  private rebuildGrid(): void {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        const x = (col + 0.5) * CELL_SIZE;
+        const y = (row + 0.5) * CELL_SIZE;
+        this.blocked[row * this.cols + col] = this.obstacles.some((obstacle) =>
+          this.findContact(obstacle, x, y, NAV_MARGIN),
+        )
+          ? 1
+          : 0;
+      }
+    }
+    this.fieldCell = -1;
+  }
+
+  /**
+   * Breadth-first distances to the target's cell - rebuilt only when it moves to another cell
+   */
+  private updateFlowField(target: Vector2): void {
+    const targetCell = this.getCell(target);
+    if (targetCell === UNREACHED || targetCell === this.fieldCell) return;
+    this.fieldCell = targetCell;
+
+    this.distances.fill(UNREACHED);
+    this.distances[targetCell] = 0;
+    this.queue[0] = targetCell;
+    let head = 0;
+    let tail = 1;
+
+    while (head < tail) {
+      const cell = this.queue[head++]!;
+      const col = cell % this.cols;
+      const row = Math.floor(cell / this.cols);
+      const distance = this.distances[cell]! + 1;
+
+      for (let i = 0; i < 4; i++) {
+        const [dx, dy] = NEIGHBORS[i]!;
+        const next = this.getWalkableCell(col + dx, row + dy);
+        if (next === UNREACHED || this.distances[next] !== UNREACHED) continue;
+
+        this.distances[next] = distance;
+        this.queue[tail++] = next;
+      }
+    }
+  }
+
+  /**
+   * Neighbor closest to the target (diagonals can't cut obstacle corners)
+   * @returns cell itself when no neighbor is closer
+   */
+  private getNextCell(cell: number): number {
+    const col = cell % this.cols;
+    const row = Math.floor(cell / this.cols);
+    const current = this.distances[cell]!;
+
+    let best = cell;
+    let bestDistance = current === UNREACHED ? Infinity : current;
+
+    for (const [dx, dy] of NEIGHBORS) {
+      const next = this.getWalkableCell(col + dx, row + dy);
+      if (next === UNREACHED) continue;
+      if (
+        dx !== 0 &&
+        dy !== 0 &&
+        (this.getWalkableCell(col + dx, row) === UNREACHED ||
+          this.getWalkableCell(col, row + dy) === UNREACHED)
+      ) {
+        continue;
+      }
+
+      const distance = this.distances[next]!;
+      if (distance !== UNREACHED && distance < bestDistance) {
+        best = next;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Cell index of a position, or UNREACHED outside the arena
+   */
+  private getCell(position: Vector2): number {
+    const col = Math.floor(position.x / CELL_SIZE);
+    const row = Math.floor(position.y / CELL_SIZE);
+    if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) return UNREACHED;
+    return row * this.cols + col;
+  }
+
+  private getWalkableCell(col: number, row: number): number {
+    if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) return UNREACHED;
+    const cell = row * this.cols + col;
+    return this.blocked[cell] ? UNREACHED : cell;
+  }
+}
@@ -1,18 +1,23 @@
 import { GAME_BALANCE } from '@/config';
-import { Enemy } from '@/domain/enemies';
+import { RandomService } from '@/core/RandomService';
+import { ELITE_STATS, Enemy } from '@/domain/enemies';
 import { EventBus } from '@/events/EventBus';
+import { Subscription } from '@/events/type';
 import { createGoldPickup, createHealthPickup } from '@/factories';
 import { EntityManager } from '@/managers';
-import { randomChance, randomInt, randomPointInCircle, vectorFromAngle } from '@/utils';
+import { vectorFromAngle } from '@/utils';
 import { addVectors, TWO_PI } from '@/utils/math';
 import { singleton } from 'tsyringe';
 
 @singleton()
 export class PickupSpawnSystem {
   private entityManager: EntityManager;
+  private random: RandomService;
+  private subscription: Subscription | null = null;
 
-  public constructor(entityManager: EntityManager) {
+  public constructor(entityManager: EntityManager, random: RandomService) {
     this.entityManager = entityManager;
+    this.random = random;
     this.connectToEventBus();
   }
 
@@ -20,24 +25,41 @@ export class PickupSpawnSystem {
     // Drop gold - bosses drop multiple bags for satisfying effect
     if (enemy.isBoss) {
       // One large bag (50% of value) in center
-      const bigPickup = createGoldPickup(enemy.position, Math.floor(enemy.goldValue * 0.5));
+      const bigPickup = createGoldPickup(
+        this.entityManager,
+        enemy.position,
+        Math.floor(enemy.goldValue * 0.5),
+      );
       this.entityManager.addPickup(bigPickup);
 
       // 6-8 small bags scattered around
-      const smallBags = randomInt(6, 8);
+      const smallBags = this.random.drops.int(6, 8);
       const smallValue = Math.floor((enemy.goldValue * 0.5) / smallBags);
       for (let i = 0; i < smallBags; i++) {
         const angle = (TWO_PI / smallBags) * i;
-        const dist = randomInt(20, 50);
+        const dist = this.random.drops.int(20, 50);
         const offset = vectorFromAngle(angle, dist);
-        const smallPickup = createGoldPickup(addVectors(enemy.position, offset), smallValue);
+        const smallPickup = createGoldPickup(
+          this.entityManager,
+          addVectors(enemy.position, offset),
+          smallValue,
+        );
         this.entityManager.addPickup(smallPickup);
       }
+    } else if (enemy.isElite()) {
+      // Elite - a few bags scattered around
+      const bagValue = Math.floor(enemy.goldValue / ELITE_STATS.goldBags);
+      if (bagValue <= 0) return;
+      for (let i = 0; i < ELITE_STATS.goldBags; i++) {
+        const goldPosition = this.random.drops.pointInCircle(enemy.position, 30);
+        const goldPickup = createGoldPickup(this.entityManager, goldPosition, bagValue);
+        this.entityManager.addPickup(goldPickup);
+      }
     } else {
       // Normal enemy - one bag with random offset
       if (enemy.goldValue > 0) {
-        const goldPosition = randomPointInCircle(enemy.position, 10);
-        const goldPickup = createGoldPickup(goldPosition, enemy.goldValue);
+        const goldPosition = this.random.drops.pointInCircle(enemy.position, 10);
+        const goldPickup = createGoldPickup(this.entityManager, goldPosition, enemy.goldValue);
         this.entityManager.addPickup(goldPickup);
       }
     }
@@ -46,12 +68,15 @@ export class PickupSpawnSystem {
   private spawnHealthPickup(enemy: Enemy): void {
     const player = this.entityManager.getPlayer();
 
-    // Chance for health drop (base + luck bonus)
+    // Chance for health drop (base + luck bonus + elite bonus)
     const healthDropChance =
-      player.healthDropChance + player.luck * player.healthDropLuckMultiplier;
+      player.healthDropChance +
+      player.luck * player.healthDropLuckMultiplier +
+      (enemy.isElite() ? ELITE_STATS.healthDropBonus : 0);
 
-    if (randomChance(healthDropChance)) {
+    if (this.random.drops.chance(healthDropChance)) {
       const healthPickup = createHealthPickup(
+        this.entityManager,
         // TODO random offset
         { x: enemy.position.x + 20, y: enemy.position.y },
         GAME_BALANCE.drops.healthDropValue,
@@ -60,8 +85,16 @@ export class PickupSpawnSystem {
     }
   }
 
+  /**
+   * Stop listening - for owners that outlive this system (headless simulations)
+   */
+  public dispose(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
   private connectToEventBus(): void {
-    EventBus.on('enemyDeath', ({ enemy, killer: _killer }) => {
+    this.subscription = EventBus.on('enemyDeath', ({ enemy, killer: _killer }) => {
       this.spawnGoldPickups(enemy);
       this.spawnHealthPickup(enemy);
     });
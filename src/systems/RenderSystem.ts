@@ -1,25 +1,37 @@
+import { ConfigService } from '@/config/ConfigService';
 import { EntityManager } from '@/managers';
 import {
   renderDeployable,
+  renderObstacles,
   renderPickup,
   renderPlayer,
   renderProjectile,
   renderWeapons,
 } from '@/rendering';
-import { renderBackground } from '@/rendering/BackgroundRenderer';
+import { renderBackground, renderHazards } from '@/rendering/BackgroundRenderer';
 import { renderEnemy } from '@/rendering/EnemyRenderer';
 import { singleton } from 'tsyringe';
+import { Hazard } from './EffectsSystem';
 import { HUD } from './HUD';
+import { ObstacleSystem } from './ObstacleSystem';
 
 @singleton()
 export class RenderSystem {
   private entityManager: EntityManager;
+  private obstacleSystem: ObstacleSystem;
+  private configService: ConfigService;
 
   // Debug display flags
   private showEnemyCount: boolean = false;
 
-  public constructor(entityManager: EntityManager) {
+  public constructor(
+    entityManager: EntityManager,
+    obstacleSystem: ObstacleSystem,
+    configService: ConfigService,
+  ) {
     this.entityManager = entityManager;
+    this.obstacleSystem = obstacleSystem;
+    this.configService = configService;
   }
 
   /**
@@ -30,14 +42,27 @@ export class RenderSystem {
     this.showEnemyCount = show;
   }
 
-  public renderAll(ctx: CanvasRenderingContext2D, currentTime: number): void {
-    renderBackground(ctx);
+  /**
+   * Render all entities
+   * @param currentTime Simulation time in ms
+   * @param alpha Fraction of the next simulation tick elapsed (0-1), for interpolation
+   * @param hazards Ground hazards (owned by EffectsSystem)
+   */
+  public renderAll(
+    ctx: CanvasRenderingContext2D,
+    currentTime: number,
+    alpha: number = 1,
+    hazards: readonly Hazard[] = [],
+  ): void {
+    renderBackground(ctx, this.configService.getArena().theme);
+    renderHazards(ctx, hazards, currentTime);
+    renderObstacles(ctx, this.obstacleSystem.getObstacles());
     // TODO render effects
-    this.renderPickups(ctx);
-    this.renderDeployables(ctx, currentTime);
-    this.renderProjectiles(ctx);
-    this.renderEnemies(ctx);
-    this.renderPlayer(ctx, currentTime);
+    this.renderPickups(ctx, alpha);
+    this.renderDeployables(ctx, currentTime, alpha);
+    this.renderProjectiles(ctx, alpha);
+    this.renderEnemies(ctx, alpha);
+    this.renderPlayer(ctx, currentTime, alpha);
 
     // Debug overlays
     if (this.showEnemyCount) {
@@ -45,32 +70,41 @@ export class RenderSystem {
     }
   }
 
-  private renderPlayer(ctx: CanvasRenderingContext2D, currentTime: number): void {
+  private renderPlayer(ctx: CanvasRenderingContext2D, currentTime: number, alpha: number): void {
     const player = this.entityManager.getPlayer();
+    player.interpolate(alpha);
     renderPlayer(ctx, player, currentTime);
     renderWeapons(ctx, player);
   }
 
-  private renderEnemies(ctx: CanvasRenderingContext2D): void {
+  private renderEnemies(ctx: CanvasRenderingContext2D, alpha: number): void {
     for (const enemy of this.entityManager.getActiveEnemies()) {
+      enemy.interpolate(alpha);
       renderEnemy(ctx, enemy);
     }
   }
 
-  private renderProjectiles(ctx: CanvasRenderingContext2D): void {
+  private renderProjectiles(ctx: CanvasRenderingContext2D, alpha: number): void {
     for (const projectile of this.entityManager.getActiveProjectiles()) {
+      projectile.interpolate(alpha);
       renderProjectile(ctx, projectile);
     }
   }
 
-  private renderDeployables(ctx: CanvasRenderingContext2D, currentTime: number): void {
+  private renderDeployables(
+    ctx: CanvasRenderingContext2D,
+    currentTime: number,
+    alpha: number,
+  ): void {
     for (const deployable of this.entityManager.getActiveDeployables()) {
+      deployable.interpolate(alpha);
       renderDeployable(ctx, deployable, currentTime);
     }
   }
 
-  private renderPickups(ctx: CanvasRenderingContext2D): void {
+  private renderPickups(ctx: CanvasRenderingContext2D, alpha: number): void {
     for (const pickup of this.entityManager.getActivePickups()) {
+      pickup.interpolate(alpha);
       renderPickup(ctx, pickup);
     }
   }
@@ -0,0 +1,352 @@
+/**
+ * ReplaySystem - records and plays back runs.
+ * A replay is the run seed, the character and arena, per-tick input and shop actions.
+ * Combined with the seeded RandomService and the fixed timestep this reproduces a run exactly.
+ */
+
+import { ArenaType } from '@/domain/arena';
+import { EventBus } from '@/events/EventBus';
+import { CharacterType, GameState } from '@/types/enums';
+import toast from 'react-hot-toast';
+import { singleton } from 'tsyringe';
+import { ExtendedInputState } from './InputSystem';
+
+// ============ Types ============
+
+export type ReplayMode = 'idle' | 'recording' | 'playback';
+
+/**
+ * Run of identical ticks: [count, directionMask] or [count, directionMask, analogX, analogY].
+ * Analog values are quantized to integers in range -127..127.
+ */
+export type ReplayInputRun = [number, number] | [number, number, number, number];
+
+/**
+ * Shop action, replayed when the shop opens after the given tick
+ */
+export type ReplayShopEvent =
+  | { tick: number; type: 'itemPurchased'; itemId: string; cost: number }
+  | { tick: number; type: 'weaponSold'; weaponIndex: number; sellPrice: number }
+  | { tick: number; type: 'shopClosed' };
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  character: CharacterType;
+  /** Missing in replays recorded before arenas were selectable (classic arena) */
+  arena?: ArenaType;
+  ticks: number;
+  inputs: ReplayInputRun[];
+  events: ReplayShopEvent[];
+}
+
+// ============ Encoding ============
+
+const REPLAY_VERSION = 1;
+
+/** Delay between replayed shop actions so they can be followed on screen */
+const SHOP_EVENT_DELAY = 400; // ms
+
+const ANALOG_SCALE = 127;
+
+const DIRECTION_BITS = {
+  up: 1,
+  down: 2,
+  left: 4,
+  right: 8,
+} as const;
+
+function encodeMask(input: ExtendedInputState): number {
+  return (
+    (input.up ? DIRECTION_BITS.up : 0) |
+    (input.down ? DIRECTION_BITS.down : 0) |
+    (input.left ? DIRECTION_BITS.left : 0) |
+    (input.right ? DIRECTION_BITS.right : 0)
+  );
+}
+
+function decodeRun(run: ReplayInputRun): ExtendedInputState {
+  const mask = run[1];
+  const input: ExtendedInputState = {
+    up: (mask & DIRECTION_BITS.up) !== 0,
+    down: (mask & DIRECTION_BITS.down) !== 0,
+    left: (mask & DIRECTION_BITS.left) !== 0,
+    right: (mask & DIRECTION_BITS.right) !== 0,
+  };
+  if (run.length === 4) {
+    input.analogX = run[2] / ANALOG_SCALE;
+    input.analogY = run[3] / ANALOG_SCALE;
+  }
+  return input;
+}
+
+/**
+ * Parses replay file contents
+ * @throws Error if the file is not a supported replay
+ */
+export function parseReplay(text: string): ReplayData {
+  const data = JSON.parse(text) as Partial<ReplayData>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.ticks !== 'number' ||
+    !Object.values(CharacterType).includes(data.character!) ||
+    (data.arena !== undefined && !Object.values(ArenaType).includes(data.arena)) ||
+    !Array.isArray(data.inputs) ||
+    !Array.isArray(data.events)
+  ) {
+    throw new Error('Malformed replay file');
+  }
+  return data as ReplayData;
+}
+
+/**
+ * Serializes replay to compact JSON
+ */
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+// ============ Replay System ============
+
+@singleton()
+export class ReplaySystem {
+  private mode: ReplayMode = 'idle';
+
+  /** Replay being recorded or played */
+  private current: ReplayData | null = null;
+
+  /** Last finished recording - available for download / rewatch */
+  private lastReplay: ReplayData | null = null;
+
+  /** Simulation ticks processed in this run */
+  private tick: number = 0;
+
+  // Playback cursor
+  private runIndex: number = 0;
+  private runOffset: number = 0;
+  private eventIndex: number = 0;
+  private shopTimer: number | null = null;
+
+  public constructor() {
+    this.connectToEventBus();
+  }
+
+  public getMode(): ReplayMode {
+    return this.mode;
+  }
+
+  public getLastReplay(): ReplayData | null {
+    return this.lastReplay;
+  }
+
+  /**
+   * Replay armed for playback (seed, character and arena for the next run)
+   */
+  public getActiveReplay(): ReplayData | null {
+    return this.mode === 'playback' ? this.current : null;
+  }
+
+  /**
+   * Arm playback - the next started run uses the replay seed, character, arena and inputs
+   */
+  public startPlayback(replay: ReplayData): void {
+    this.cancelShopTimer();
+    this.current = replay;
+    this.setMode('playback');
+  }
+
+  /**
+   * Called when a new run starts.
+   * Starts recording, or rewinds the cursor when playback is armed.
+   */
+  public beginRun(seed: number, character: CharacterType, arena: ArenaType): void {
+    this.tick = 0;
+    this.runIndex = 0;
+    this.runOffset = 0;
+    this.eventIndex = 0;
+
+    if (this.mode === 'playback') return;
+
+    this.current = {
+      version: REPLAY_VERSION,
+      seed,
+      character,
+      arena,
+      ticks: 0,
+      inputs: [],
+      events: [],
+    };
+    this.setMode('recording');
+  }
+
+  /**
+   * Process input for one simulation tick.
+   * Recording: stores (quantized) live input. Playback: replaces it with the recorded one.
+   * @returns Input the simulation should use this tick
+   */
+  public processTick(liveInput: ExtendedInputState): ExtendedInputState {
+    switch (this.mode) {
+      case 'recording':
+        return this.recordTick(liveInput);
+      case 'playback':
+        return this.playbackTick();
+      case 'idle':
+        return liveInput;
+    }
+  }
+
+  private recordTick(liveInput: ExtendedInputState): ExtendedInputState {
+    const replay = this.current!;
+    const mask = encodeMask(liveInput);
+    const hasAnalog = liveInput.analogX !== undefined && liveInput.analogY !== undefined;
+    const run: ReplayInputRun = hasAnalog
+      ? [
+          1,
+          mask,
+          Math.round(liveInput.analogX! * ANALOG_SCALE),
+          Math.round(liveInput.analogY! * ANALOG_SCALE),
+        ]
+      : [1, mask];
+
+    // Extend previous run when input did not change
+    const last = replay.inputs[replay.inputs.length - 1];
+    if (last?.length === run.length && last.every((value, i) => i === 0 || value === run[i])) {
+      last[0]++;
+    } else {
+      replay.inputs.push(run);
+    }
+
+    this.tick++;
+    replay.ticks = this.tick;
+
+    // Live run uses quantized input too, so it matches what playback will see
+    return decodeRun(run);
+  }
+
+  private playbackTick(): ExtendedInputState {
+    const replay = this.current!;
+    const run = replay.inputs[this.runIndex];
+
+    if (!run) {
+      this.finishPlayback();
+      return { up: false, down: false, left: false, right: false };
+    }
+
+    this.runOffset++;
+    if (this.runOffset >= run[0]) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+
+    this.tick++;
+    return decodeRun(run);
+  }
+
+  private finishPlayback(): void {
+    this.setMode('idle');
+    toast('⏹️ Koniec powtórki');
+    // Freeze on last frame - player can quit from pause menu
+    EventBus.emit('pauseRequested', undefined);
+  }
+
+  private recordShopEvent(event: ReplayShopEvent): void {
+    if (this.mode !== 'recording') return;
+    this.current!.events.push(event);
+  }
+
+  /**
+   * Emit recorded shop actions for the current tick one by one
+   */
+  private playShopEvents(): void {
+    const replay = this.current;
+    if (this.mode !== 'playback' || !replay) return;
+
+    const event = replay.events[this.eventIndex];
+    if (event?.tick !== this.tick) return;
+
+    this.shopTimer = window.setTimeout(() => {
+      this.shopTimer = null;
+      this.eventIndex++;
+
+      switch (event.type) {
+        case 'itemPurchased':
+          EventBus.emit('itemPurchased', { itemId: event.itemId, cost: event.cost });
+          break;
+        case 'weaponSold':
+          EventBus.emit('weaponSold', {
+            weaponIndex: event.weaponIndex,
+            sellPrice: event.sellPrice,
+          });
+          break;
+        case 'shopClosed':
+          EventBus.emit('startGameRequested', undefined);
+          return;
+      }
+
+      this.playShopEvents();
+    }, SHOP_EVENT_DELAY);
+  }
+
+  private cancelShopTimer(): void {
+    if (this.shopTimer !== null) {
+      window.clearTimeout(this.shopTimer);
+      this.shopTimer = null;
+    }
+  }
+
+  /**
+   * Stop recording or playback at the end of a run
+   */
+  private endRun(): void {
+    this.cancelShopTimer();
+    if (this.mode === 'recording' && this.current) {
+      this.lastReplay = this.current;
+    }
+    this.current = null;
+    this.setMode('idle');
+  }
+
+  private setMode(mode: ReplayMode): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    EventBus.emit('replayModeChanged', { mode });
+  }
+
+  private connectToEventBus(): void {
+    EventBus.on('itemPurchased', ({ itemId, cost }) => {
+      this.recordShopEvent({ tick: this.tick, type: 'itemPurchased', itemId, cost });
+    });
+
+    EventBus.on('weaponSold', ({ weaponIndex, sellPrice }) => {
+      this.recordShopEvent({ tick: this.tick, type: 'weaponSold', weaponIndex, sellPrice });
+    });
+
+    EventBus.on('replayRequested', ({ replay }) => {
+      this.startPlayback(replay);
+      EventBus.emit('characterSelected', {
+        characterType: replay.character,
+        arena: replay.arena ?? ArenaType.CLASSIC,
+      });
+    });
+
+    // Resumed run has no recording - don't offer the previous run's replay at its end
+    EventBus.on('runRestored', () => {
+      this.lastReplay = null;
+    });
+
+    EventBus.on('stateEntered', ({ state, from }) => {
+      if (state === GameState.PLAYING && from === GameState.SHOP) {
+        this.recordShopEvent({ tick: this.tick, type: 'shopClosed' });
+      }
+      if (state === GameState.SHOP) {
+        this.playShopEvents();
+      }
+      if (state === GameState.GAME_OVER || state === GameState.MENU) {
+        this.endRun();
+      }
+    });
+  }
+}
@@ -1,10 +1,12 @@
 import { singleton } from 'tsyringe';
 import { EventBus } from '@/events/EventBus';
+import { Subscription } from '@/events/type';
 import { EntityManager } from '@/managers';
 
 @singleton()
 export class RewardSystem {
   private entityManager: EntityManager;
+  private subscriptions: Subscription[] = [];
 
   public constructor(entityManager: EntityManager) {
     this.entityManager = entityManager;
@@ -33,26 +35,34 @@ export class RewardSystem {
     player.heal(amount);
   }
 
-  private connectToEventBus(): void {
-    EventBus.on('itemPurchased', ({ cost }) => {
-      this.reduceGold(cost);
-    });
-
-    EventBus.on('weaponSold', ({ sellPrice }) => {
-      const player = this.entityManager.getPlayer();
-      player.gold += sellPrice;
-    });
-
-    EventBus.on('goldCollected', ({ amount }) => {
-      this.addGold(amount);
-    });
-
-    EventBus.on('enemyDeath', ({ enemy }) => {
-      this.addXp(enemy.xpValue);
+  /**
+   * Stop listening - for owners that outlive this system (headless simulations)
+   */
+  public dispose(): void {
+    this.subscriptions.forEach((sub) => {
+      sub.unsubscribe();
     });
+    this.subscriptions = [];
+  }
 
-    EventBus.on('healthCollected', ({ amount }) => {
-      this.addHealth(amount);
-    });
+  private connectToEventBus(): void {
+    this.subscriptions = [
+      EventBus.on('itemPurchased', ({ cost }) => {
+        this.reduceGold(cost);
+      }),
+      EventBus.on('weaponSold', ({ sellPrice }) => {
+        const player = this.entityManager.getPlayer();
+        player.gold += sellPrice;
+      }),
+      EventBus.on('goldCollected', ({ amount }) => {
+        this.addGold(amount);
+      }),
+      EventBus.on('enemyDeath', ({ enemy }) => {
+        this.addXp(enemy.xpValue);
+      }),
+      EventBus.on('healthCollected', ({ amount }) => {
+        this.addHealth(amount);
+      }),
+    ];
   }
 }
@@ -0,0 +1,147 @@
+/**
+ * SaveSystem - persists the run between waves (localStorage).
+ * A save is written whenever the shop opens, so a closed tab or a quit
+ * can be resumed from the last shop.
+ */
+
+import { RandomStreamName } from '@/core/RandomService';
+import { ArenaType } from '@/domain/arena';
+import { PlayerStats } from '@/domain/player/type';
+import { WeaponType } from '@/domain/weapons/type';
+import { CharacterType } from '@/types/enums';
+import { singleton } from 'tsyringe';
+
+// ============ Types ============
+
+/**
+ * Weapon runtime state - config is looked up from WEAPON_TYPES on restore,
+ * so balance changes apply to saved runs as well
+ */
+export interface SavedWeapon {
+  type: WeaponType;
+  level: number;
+  multishot: number;
+  fireOffset: number;
+}
+
+/**
+ * Everything needed to rebuild a run at the start of a shop
+ */
+export interface RunSnapshot {
+  character: CharacterType;
+  arena: ArenaType;
+  seed: number;
+  /** Numbers drawn from each random stream, to continue sequences exactly */
+  randomDraws: Record<RandomStreamName, number>;
+  waveNumber: number;
+  player: {
+    stats: PlayerStats;
+    hp: number;
+    gold: number;
+    xp: number;
+    items: string[];
+    weapons: SavedWeapon[];
+  };
+}
+
+export interface RunSave extends RunSnapshot {
+  version: number;
+  savedAt: string;
+}
+
+// ============ Versioning ============
+
+const SAVE_VERSION = 2;
+
+const SAVE_STORAGE_KEY = 'circle_survivor_run_save';
+
+type SaveMigration = (save: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades a save from version N to N + 1, keyed by N.
+ * When RunSave changes shape, bump SAVE_VERSION and add the matching entry here.
+ */
+const SAVE_MIGRATIONS: Partial<Record<number, SaveMigration>> = {
+  // Runs before arenas were selectable were all played on the classic one
+  1: (save) => ({ ...save, arena: ArenaType.CLASSIC }),
+};
+
+/**
+ * Brings raw save data up to the current version
+ * @throws Error if the save is newer than this build, has no migration path or is malformed
+ */
+export function migrateSave(raw: Record<string, unknown>): RunSave {
+  let save = raw;
+  let version = save.version;
+
+  if (typeof version !== 'number' || version > SAVE_VERSION) {
+    throw new Error(`Unsupported save version: ${String(version)}`);
+  }
+
+  while (version < SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    save = { ...migration(save), version: version + 1 };
+    version++;
+  }
+
+  const data = save as Partial<RunSave>;
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.waveNumber !== 'number' ||
+    !Object.values(CharacterType).includes(data.character!) ||
+    !Object.values(ArenaType).includes(data.arena!) ||
+    typeof data.randomDraws !== 'object' ||
+    typeof data.player !== 'object' ||
+    !Array.isArray(data.player.weapons) ||
+    !Array.isArray(data.player.items)
+  ) {
+    throw new Error('Malformed save');
+  }
+
+  return data as RunSave;
+}
+
+// ============ Save System ============
+
+@singleton()
+export class SaveSystem {
+  /**
+   * Store snapshot as the current save (replaces previous one)
+   */
+  public save(snapshot: RunSnapshot): void {
+    const save: RunSave = {
+      ...snapshot,
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+    };
+
+    try {
+      localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+    } catch (e) {
+      console.error('Error saving run:', e);
+    }
+  }
+
+  /**
+   * Read current save, migrated to the current version.
+   * Unreadable saves are discarded.
+   */
+  public load(): RunSave | null {
+    try {
+      const data = localStorage.getItem(SAVE_STORAGE_KEY);
+      if (!data) return null;
+      return migrateSave(JSON.parse(data) as Record<string, unknown>);
+    } catch (e) {
+      console.error('Error reading saved run:', e);
+      this.clear();
+      return null;
+    }
+  }
+
+  public clear(): void {
+    localStorage.removeItem(SAVE_STORAGE_KEY);
+  }
+}
@@ -4,12 +4,13 @@
  */
 
 import { GAME_BALANCE } from '@/config';
+import { RandomService } from '@/core/RandomService';
 import { SHOP_ITEMS, WeaponShopItem } from '@/config/shop.config';
 import { Player } from '@/domain/player/Player';
 import { PlayerStats } from '@/domain/player/type';
+import { WEAPON_TYPES } from '@/domain/weapons/config';
 import { WeaponType } from '@/domain/weapons/type';
 import { WeaponManager } from '@/domain/weapons/WeaponManager';
-import { randomElementStrict } from '@/utils';
 import toast from 'react-hot-toast';
 import { singleton } from 'tsyringe';
 
@@ -41,7 +42,10 @@ export interface ShopWeapon {
 
 @singleton()
 export class Shop {
-  public constructor(private weaponManager: WeaponManager) {}
+  public constructor(
+    private weaponManager: WeaponManager,
+    private random: RandomService,
+  ) {}
 
   /**
    * Apply item effect to player.
@@ -56,9 +60,11 @@ export class Shop {
       case 'weapon': {
         const weaponItem = item;
         if (player.weapons.length >= player.maxWeapons) {
-          const sameTypeWeapons = player.weapons.filter((w) => w.type === weaponItem.weaponType);
+          const sameTypeWeapons = player.weapons.filter(
+            (w) => w.type === weaponItem.weaponType && !this.weaponManager.isMaxLevel(w),
+          );
           if (sameTypeWeapons.length > 0) {
-            const randomWeapon = randomElementStrict(sameTypeWeapons);
+            const randomWeapon = this.random.shop.elementStrict(sameTypeWeapons);
             this.weaponManager.upgradeWeapon(randomWeapon);
             toast(`⬆️ ${item.name} +${randomWeapon.level}`);
           }
@@ -78,6 +84,10 @@ export class Shop {
         break;
       }
     }
+
+    for (const weapon of this.weaponManager.evolveWeapons()) {
+      toast(`🧬 Ewolucja: ${weapon.config.emoji} ${weapon.name}`);
+    }
   }
 
   /**
@@ -92,9 +102,10 @@ export class Shop {
       (item) => item.type === 'weapon' && item.weaponType === weaponType,
     ) as WeaponShopItem | undefined;
 
-    if (!shopItem) return 0;
+    // Evolved weapons aren't sold in the shop - their config price stands in
+    const basePrice = shopItem?.price ?? WEAPON_TYPES[weaponType].price;
+    if (!basePrice) return 0;
 
-    const basePrice = shopItem.price;
     const waveMultiplier = 1 + (waveNumber - 2) * GAME_BALANCE.economy.priceScale.perWave;
     const levelMultiplier = 1 + (level - 1) * GAME_BALANCE.economy.sell.levelMultiplier;
     const scaledPrice = basePrice * waveMultiplier * levelMultiplier;
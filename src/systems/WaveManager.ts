@@ -1,39 +1,271 @@
 /**
  * Wave Management
- * Controls wave progression, enemy spawning, boss spawning
+ * Controls wave progression, enemy spawning, boss spawning.
+ * What spawns when is described by a wave set (waves.config.ts) - this class only interprets it.
  */
 
-import { GAME_BALANCE } from '@/config/balance.config';
-import { Enemy } from '@/domain/enemies';
+import { HAZARDS } from '@/config/hazards.config';
+import { WAVE_EVENTS, WaveEventConfig } from '@/config/waveEvents.config';
+import {
+  EnemyWeight,
+  HazardSchedule,
+  STANDARD_WAVE_SET,
+  WaveDefinition,
+  WaveSet,
+} from '@/config/waves.config';
+import { RandomService } from '@/core/RandomService';
+import { ArenaDefinition, ARENAS } from '@/domain/arena';
+import { ELITE_AFFIX_TYPES, Enemy, ENEMY_TYPES, isBossType } from '@/domain/enemies';
 import { EventBus } from '@/events/EventBus';
-import { EnemyType } from '@/types/enums';
-import { CanvasBounds, getSpawnPoint } from '@/utils/random';
+import { EntityManager } from '@/managers/EntityManager';
+import { ObstacleSystem } from '@/systems/ObstacleSystem';
+import { EnemyType, HazardType, WaveEventType } from '@/types/enums';
+import { distance, TWO_PI, Vector2 } from '@/utils/math';
+import { CanvasBounds, ScreenSide } from '@/utils/random';
 import { singleton } from 'tsyringe';
 
 // ============ Types ============
 
 export interface WaveUpdateResult {
   enemies: Enemy[];
+  /** Hazards rolled this update - GameWorld hands them to EffectsSystem */
+  hazards: HazardSpawn[];
   waveEnded: boolean;
   countdown: number | false;
 }
 
+export interface HazardSpawn {
+  type: HazardType;
+  position: Vector2;
+  /** Damage per tick, wave scaling applied */
+  damage: number;
+  /** Multiplier on damage dealt to enemies */
+  enemyDamageMultiplier: number;
+}
+
+/**
+ * Announced event waiting for its warning to run out
+ */
+interface PendingWaveEvent {
+  type: WaveEventType;
+  sides: ScreenSide[];
+  /** Seconds until spawn */
+  countdown: number;
+}
+
+/** Distance outside the screen edge where event enemies appear */
+const EVENT_SPAWN_MARGIN = 50;
+
+/** Pools never open right under the player - extra gap beyond the pool radius */
+const HAZARD_PLAYER_CLEARANCE = 60;
+/** Meteors aim at the player, off by up to this much */
+const METEOR_SCATTER = 60;
+/** Position rolls before a pool settles for a spot near obstacles or the player */
+const HAZARD_PLACEMENT_TRIES = 8;
+
+// ============ Validation ============
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isChance(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function validateEnemyPool(pool: EnemyWeight[]): string[] {
+  if (!Array.isArray(pool) || pool.length === 0) return ['enemy pool is empty'];
+
+  const problems: string[] = [];
+  for (const { type, weight } of pool) {
+    const config = ENEMY_TYPES[type] as (typeof ENEMY_TYPES)[EnemyType] | undefined;
+    if (!config) problems.push(`unknown enemy type "${type}"`);
+    else if (isBossType(type)) problems.push(`boss "${type}" in enemy pool`);
+    if (!isPositive(weight)) problems.push(`weight of "${type}" must be > 0`);
+  }
+  return problems;
+}
+
+function validateWave(wave: WaveDefinition): string[] {
+  const problems: string[] = [];
+
+  if (!isPositive(wave.duration)) problems.push('duration must be > 0');
+  if (!isPositive(wave.spawnInterval)) problems.push('spawnInterval must be > 0');
+  if (!Number.isInteger(wave.enemiesPerSpawn) || wave.enemiesPerSpawn < 1) {
+    problems.push('enemiesPerSpawn must be an integer >= 1');
+  }
+
+  problems.push(...validateEnemyPool(wave.enemies));
+
+  if (wave.boss) {
+    const { type, spawnAt } = wave.boss;
+    if (!isBossType(type)) problems.push(`boss slot type "${type}" is not a boss`);
+    if (!isPositive(spawnAt) || spawnAt > wave.duration) {
+      problems.push('boss spawnAt must be within wave duration');
+    }
+  }
+
+  for (const { type, at } of wave.events ?? []) {
+    if (!(type in WAVE_EVENTS)) problems.push(`unknown event "${type}"`);
+    if (!isPositive(at) || at > wave.duration) {
+      problems.push(`event "${type}" must start within wave duration`);
+    }
+  }
+
+  return problems;
+}
+
+function validateHazardSchedule(hazards: HazardSchedule): string[] {
+  const problems: string[] = [];
+
+  if (
+    !Number.isInteger(hazards.startWave) ||
+    !isPositive(hazards.interval) ||
+    !isPositive(hazards.minInterval) ||
+    !(hazards.intervalPerWave >= 0) ||
+    !(hazards.enemyDamageMultiplier >= 0)
+  ) {
+    problems.push('invalid hazard schedule');
+  }
+  if (!Array.isArray(hazards.pool) || hazards.pool.length === 0) {
+    problems.push('hazard pool is empty');
+  } else {
+    for (const { type, weight } of hazards.pool) {
+      if (!(type in HAZARDS)) problems.push(`unknown hazard "${type}"`);
+      if (!isPositive(weight)) problems.push(`weight of hazard "${type}" must be > 0`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks special event definitions (enemy pools, counts, timing)
+ * @throws Error listing every problem found
+ */
+export function validateWaveEvents(events: Record<WaveEventType, WaveEventConfig>): void {
+  const problems: string[] = [];
+
+  for (const [type, event] of Object.entries(events)) {
+    const eventProblems = validateEnemyPool(event.enemies);
+    if (!isPositive(event.warningTime)) eventProblems.push('warningTime must be > 0');
+    if (!isPositive(event.count) || !(event.countPerWave >= 0)) {
+      eventProblems.push('count must be > 0 and countPerWave >= 0');
+    }
+    for (const problem of eventProblems) {
+      problems.push(`${type}: ${problem}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid wave events: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Checks a wave set before use - catches typos and broken JSON early instead of mid-run
+ * @throws Error listing every problem found
+ */
+export function validateWaveSet(waveSet: WaveSet): void {
+  const problems: string[] = [];
+
+  if (!Array.isArray(waveSet.waves) || waveSet.waves.length === 0) {
+    problems.push('no waves defined');
+  } else {
+    waveSet.waves.forEach((wave, index) => {
+      for (const problem of validateWave(wave)) {
+        problems.push(`wave ${index + 1}: ${problem}`);
+      }
+    });
+
+    if (
+      !Number.isInteger(waveSet.loop) ||
+      waveSet.loop < 1 ||
+      waveSet.loop > waveSet.waves.length
+    ) {
+      problems.push(`loop must be between 1 and ${waveSet.waves.length}`);
+    }
+  }
+
+  const { enemy, boss, elite } = waveSet.scaling;
+  if (!Number.isInteger(enemy.startWave) || !isPositive(enemy.factor)) {
+    problems.push('invalid enemy scaling');
+  }
+  if (
+    !Number.isFinite(boss.hpPerBoss) ||
+    !Number.isFinite(boss.damagePerBoss) ||
+    !isPositive(boss.exponentialBase) ||
+    !Number.isInteger(boss.exponentialStartWave)
+  ) {
+    problems.push('invalid boss scaling');
+  }
+  if (
+    !Number.isInteger(elite.startWave) ||
+    !isChance(elite.chance) ||
+    !isChance(elite.maxChance) ||
+    !isChance(elite.secondAffixChance) ||
+    !Number.isFinite(elite.chancePerWave)
+  ) {
+    problems.push('invalid elite scaling');
+  }
+
+  problems.push(...validateHazardSchedule(waveSet.hazards));
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid wave set "${waveSet.name}": ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Wave set as played on an arena - its hazard pool, enemy weights scaled
+ * (types scaled to 0 dropped from the pools)
+ */
+export function adjustWaveSetForArena(waveSet: WaveSet, arena: ArenaDefinition): WaveSet {
+  const weights = arena.enemyWeights ?? {};
+  const adjustPool = (pool: EnemyWeight[]): EnemyWeight[] =>
+    pool
+      .map(({ type, weight }) => ({ type, weight: weight * (weights[type] ?? 1) }))
+      .filter((entry) => entry.weight > 0);
+
+  return {
+    ...waveSet,
+    name: `${waveSet.name} - ${arena.name}`,
+    waves: waveSet.waves.map((wave) => ({ ...wave, enemies: adjustPool(wave.enemies) })),
+    hazards: { ...waveSet.hazards, pool: arena.hazards },
+  };
+}
+
 // ============ Wave Manager Class ============
 
 @singleton()
 export class WaveManager {
   public waveNumber: number = 1;
-  private waveTime: number = 30; // seconds
-  public timeRemaining: number = 30;
+  public timeRemaining: number = 0;
   public isWaveActive: boolean = false;
+  private waveSet: WaveSet = STANDARD_WAVE_SET;
   private spawnTimer: number = 0;
-  private spawnInterval: number = 800; // ms between spawns
-  private enemiesPerSpawn: number = 2;
   private bossSpawned: boolean = false;
   private lastCountdownSecond: number = -1;
-
-  public constructor() {
-    this.timeRemaining = this.waveTime;
+  /** Seconds until the next scheduled hazard */
+  private hazardTimer: number = 0;
+  /** Forced from the dev menu, handed out with the next update */
+  private pendingHazards: HazardSpawn[] = [];
+
+  /** Indexes of this wave's event slots already announced */
+  private announcedEvents = new Set<number>();
+  private pendingEvents: PendingWaveEvent[] = [];
+
+  public constructor(
+    private random: RandomService,
+    private entityManager: EntityManager,
+    private obstacleSystem: ObstacleSystem,
+  ) {
+    validateWaveSet(this.waveSet);
+    validateWaveEvents(WAVE_EVENTS);
+    for (const arena of Object.values(ARENAS)) {
+      validateWaveSet(adjustWaveSetForArena(STANDARD_WAVE_SET, arena));
+    }
+    this.timeRemaining = this.getDefinition().duration;
   }
 
   /**
@@ -41,25 +273,47 @@ export class WaveManager {
    */
   public reset(): void {
     this.waveNumber = 1;
-    this.timeRemaining = this.waveTime;
+    this.timeRemaining = this.getDefinition().duration;
     this.isWaveActive = false;
     this.spawnTimer = 0;
-    this.spawnInterval = 800;
-    this.enemiesPerSpawn = 2;
     this.bossSpawned = false;
     this.lastCountdownSecond = -1;
+    this.clearEvents();
+  }
+
+  /**
+   * Switch to another wave set (takes effect from the next wave)
+   * @throws Error if the wave set is invalid
+   */
+  public setWaveSet(waveSet: WaveSet): void {
+    validateWaveSet(waveSet);
+    this.waveSet = waveSet;
+  }
+
+  /**
+   * Play the standard wave set adjusted for an arena
+   * @throws Error if the adjusted wave set is invalid (e.g. an emptied enemy pool)
+   */
+  public setArena(arena: ArenaDefinition): void {
+    this.setWaveSet(adjustWaveSetForArena(STANDARD_WAVE_SET, arena));
   }
 
   /**
    * Start a new wave
    */
   public startWave(): void {
+    const wave = this.getDefinition();
+
     this.isWaveActive = true;
-    this.timeRemaining = this.getWaveDuration();
+    this.timeRemaining = wave.duration;
     this.spawnTimer = 0;
     this.bossSpawned = false;
     this.lastCountdownSecond = -1; // Reset countdown
-    this.updateSpawnSettings();
+    this.clearEvents();
+
+    console.log(
+      `Wave ${this.waveNumber}: spawn every ${wave.spawnInterval}ms, ${wave.enemiesPerSpawn} enemies/spawn`,
+    );
 
     // Emit wave start event for audio and other systems
     EventBus.emit('waveStart', { waveNumber: this.waveNumber, enemyCount: 0 });
@@ -71,6 +325,7 @@ export class WaveManager {
   public endWave(): void {
     this.isWaveActive = false;
     this.waveNumber++;
+    this.clearEvents();
   }
 
   /**
@@ -91,29 +346,26 @@ export class WaveManager {
   }
 
   /**
-   * Get wave duration based on wave number
+   * Definition of given wave - waves past the table cycle through its last `loop` entries
    */
-  private getWaveDuration(): number {
-    if (this.waveNumber <= 2) return GAME_BALANCE.wave.duration.early;
-    if (this.waveNumber <= 4) return GAME_BALANCE.wave.duration.mid;
-    return GAME_BALANCE.wave.duration.late;
+  private getDefinition(waveNumber: number = this.waveNumber): WaveDefinition {
+    const { waves, loop } = this.waveSet;
+    let index = waveNumber - 1;
+    if (index >= waves.length) {
+      index = waves.length - loop + ((index - waves.length) % loop);
+    }
+    return waves[index]!; // Safe: index is within the table (validated loop)
   }
 
   /**
-   * Update spawn settings based on current wave
+   * How many boss slots waves 1..waveNumber had (1 = first boss)
    */
-  private updateSpawnSettings(): void {
-    const wave = this.waveNumber;
-
-    // Slower spawn - every 1000-400ms
-    this.spawnInterval = Math.max(400, 1000 - wave * 50);
-
-    // Less enemies per spawn: 1-4
-    this.enemiesPerSpawn = Math.min(4, 1 + Math.floor(wave * 0.4));
-
-    console.log(
-      `Wave ${wave}: spawn every ${this.spawnInterval}ms, ${this.enemiesPerSpawn} enemies/spawn`,
-    );
+  private getBossCount(): number {
+    let count = 0;
+    for (let wave = 1; wave <= this.waveNumber; wave++) {
+      if (this.getDefinition(wave).boss) count++;
+    }
+    return count;
   }
 
   /**
@@ -124,13 +376,17 @@ export class WaveManager {
     canvas: CanvasBounds,
     bossAlive: boolean = false,
   ): WaveUpdateResult {
-    if (!this.isWaveActive) return { enemies: [], waveEnded: false, countdown: false };
+    if (!this.isWaveActive) {
+      return { enemies: [], hazards: [], waveEnded: false, countdown: false };
+    }
 
     const enemies: Enemy[] = [];
+    const wave = this.getDefinition();
+    const { scaling } = this.waveSet;
 
     // When boss is alive - stop timer and don't spawn new enemies
     if (bossAlive) {
-      return { enemies: [], waveEnded: false, countdown: false };
+      return { enemies: [], hazards: [], waveEnded: false, countdown: false };
     }
 
     // Update timer (only when boss is dead)
@@ -147,25 +403,25 @@ export class WaveManager {
     }
 
     if (this.timeRemaining <= 0) {
-      return { enemies: [], waveEnded: true, countdown: 0 }; // 0 = final sound
+      return { enemies: [], hazards: [], waveEnded: true, countdown: 0 }; // 0 = final sound
     }
 
-    // Spawn boss every 3 waves
-    if (this.shouldSpawnBoss()) {
-      const spawn = getSpawnPoint(canvas);
-      const bossType = this.getBossType();
-      const boss = new Enemy({ position: spawn, type: bossType });
+    // Boss slot - spawns once the wave timer gets low enough
+    if (wave.boss && !this.bossSpawned && this.timeRemaining < wave.boss.spawnAt) {
+      const spawn = this.random.spawns.spawnPoint(canvas);
+      const boss = this.entityManager.createEnemy({ position: spawn, type: wave.boss.type });
+      this.obstacleSystem.pushOut(boss.position, boss.radius);
 
-      // Scaling 1: With boss wave number (+50% HP, +25% DMG per boss wave)
-      const bossWave = Math.floor(this.waveNumber / 3);
-      const bossMultiplierHp = 1 + (bossWave - 1) * GAME_BALANCE.boss.hpScalePerWave;
-      const bossMultiplierDmg = 1 + (bossWave - 1) * GAME_BALANCE.boss.dmgScalePerWave;
+      // Scaling 1: With boss count (e.g. +50% HP, +25% DMG per boss appearance)
+      const bossCount = this.getBossCount();
+      const bossMultiplierHp = 1 + (bossCount - 1) * scaling.boss.hpPerBoss;
+      const bossMultiplierDmg = 1 + (bossCount - 1) * scaling.boss.damagePerBoss;
 
-      // Scaling 2: Exponential like regular enemies (1.04^n from wave 3)
+      // Scaling 2: Exponential like regular enemies
       let expMultiplier = 1;
-      if (this.waveNumber >= 3) {
-        const scalingWave = this.waveNumber - 3;
-        expMultiplier = Math.pow(GAME_BALANCE.boss.exponentialBase, scalingWave);
+      if (this.waveNumber >= scaling.boss.exponentialStartWave) {
+        const scalingWave = this.waveNumber - scaling.boss.exponentialStartWave;
+        expMultiplier = Math.pow(scaling.boss.exponentialBase, scalingWave);
       }
 
       // Combined scaling
@@ -180,158 +436,249 @@ export class WaveManager {
       EventBus.emit('bossSpawned', { enemy: boss, bossName: boss.bossName ?? 'Boss' });
     }
 
+    // Special events - announce scheduled ones, spawn those whose warning ran out
+    wave.events?.forEach((slot, index) => {
+      if (!this.announcedEvents.has(index) && this.timeRemaining < slot.at) {
+        this.announcedEvents.add(index);
+        this.triggerEvent(slot.type);
+      }
+    });
+    for (let i = this.pendingEvents.length - 1; i >= 0; i--) {
+      const event = this.pendingEvents[i]!;
+      event.countdown -= deltaTime / 1000;
+      if (event.countdown <= 0) {
+        this.pendingEvents.splice(i, 1);
+        enemies.push(...this.spawnEvent(event, canvas));
+      }
+    }
+
     // Spawn enemies (only when boss is dead)
     this.spawnTimer += deltaTime;
-    if (this.spawnTimer >= this.spawnInterval) {
+    if (this.spawnTimer >= wave.spawnInterval) {
       this.spawnTimer = 0;
 
-      for (let i = 0; i < this.enemiesPerSpawn; i++) {
-        const spawn = getSpawnPoint(canvas);
-        const type = this.getRandomEnemyType();
-        const enemy = new Enemy({ position: spawn, type: type });
-
-        // Enemy scaling from wave 5 (exponential: scalingFactor^n)
-        if (this.waveNumber >= GAME_BALANCE.enemy.scalingStartWave) {
-          const scalingWave = this.waveNumber - GAME_BALANCE.enemy.scalingStartWave;
-          const multiplier = Math.pow(GAME_BALANCE.enemy.scalingFactor, scalingWave);
-          enemy.hp = Math.round(enemy.hp * multiplier);
-          enemy.maxHp = enemy.hp;
-          enemy.damage = Math.round(enemy.damage * multiplier);
-        }
+      for (let i = 0; i < wave.enemiesPerSpawn; i++) {
+        const spawn = this.random.spawns.spawnPoint(canvas);
+        const type = this.getRandomEnemyType(wave.enemies);
+        enemies.push(this.spawnEnemy(type, spawn));
+      }
+    }
 
-        enemies.push(enemy);
+    const hazards = this.pendingHazards;
+    this.pendingHazards = [];
+    if (this.waveNumber >= this.waveSet.hazards.startWave) {
+      this.hazardTimer -= deltaTime / 1000;
+      if (this.hazardTimer <= 0) {
+        this.hazardTimer = this.getHazardInterval();
+        hazards.push(this.rollHazard(this.getRandomHazardType(), canvas));
       }
     }
 
-    return { enemies, waveEnded: false, countdown };
+    return { enemies, hazards, waveEnded: false, countdown };
   }
 
   /**
-   * Get random enemy type based on current wave
+   * Create regular enemy with wave scaling (exponential: factor^n from startWave)
    */
-  private getRandomEnemyType(): EnemyType {
-    const wave = this.waveNumber;
-    const rand = Math.random();
-
-    // Wave 1: only basic
-    if (wave === 1) {
-      return EnemyType.BASIC;
+  private spawnEnemy(type: EnemyType, position: Vector2): Enemy {
+    const { enemy: scaling } = this.waveSet.scaling;
+    const enemy = this.entityManager.createEnemy({ position, type });
+    // Never start inside an obstacle
+    this.obstacleSystem.pushOut(enemy.position, enemy.radius);
+
+    if (this.waveNumber >= scaling.startWave) {
+      const scalingWave = this.waveNumber - scaling.startWave;
+      const multiplier = Math.pow(scaling.factor, scalingWave);
+      enemy.hp = Math.round(enemy.hp * multiplier);
+      enemy.maxHp = enemy.hp;
+      enemy.damage = Math.round(enemy.damage * multiplier);
     }
 
-    // Wave 2: + fast
-    if (wave === 2) {
-      if (rand < 0.6) return EnemyType.BASIC;
-      return EnemyType.FAST;
-    }
+    this.rollElite(enemy);
 
-    // Wave 3: + swarm
-    if (wave === 3) {
-      if (rand < 0.4) return EnemyType.BASIC;
-      if (rand < 0.7) return EnemyType.FAST;
-      return EnemyType.SWARM;
-    }
+    return enemy;
+  }
 
-    // Wave 4: + tank
-    if (wave === 4) {
-      if (rand < 0.3) return EnemyType.BASIC;
-      if (rand < 0.5) return EnemyType.FAST;
-      if (rand < 0.75) return EnemyType.SWARM;
-      return EnemyType.TANK;
-    }
+  /**
+   * Chance to promote a fresh enemy to an elite with one or two distinct affixes
+   */
+  private rollElite(enemy: Enemy): void {
+    const { elite } = this.waveSet.scaling;
+    if (this.waveNumber < elite.startWave) return;
 
-    // Wave 5: + zigzag (boss wave!)
-    if (wave === 5) {
-      if (rand < 0.25) return EnemyType.BASIC;
-      if (rand < 0.4) return EnemyType.FAST;
-      if (rand < 0.6) return EnemyType.SWARM;
-      if (rand < 0.7) return EnemyType.TANK;
-      return EnemyType.ZIGZAG;
-    }
+    const chance = Math.min(
+      elite.maxChance,
+      elite.chance + (this.waveNumber - elite.startWave) * elite.chancePerWave,
+    );
+    if (!this.random.spawns.chance(chance)) return;
 
-    // Wave 6: + sprinter
-    if (wave === 6) {
-      if (rand < 0.2) return EnemyType.BASIC;
-      if (rand < 0.35) return EnemyType.FAST;
-      if (rand < 0.5) return EnemyType.SWARM;
-      if (rand < 0.65) return EnemyType.TANK;
-      if (rand < 0.8) return EnemyType.ZIGZAG;
-      return EnemyType.SPRINTER;
+    const [first, second] = this.random.spawns.shuffle([...ELITE_AFFIX_TYPES]);
+    const affixes = [first!];
+    if (second && this.random.spawns.chance(elite.secondAffixChance)) {
+      affixes.push(second);
     }
 
-    // Wave 7: + exploder
-    if (wave === 7) {
-      if (rand < 0.15) return EnemyType.BASIC;
-      if (rand < 0.3) return EnemyType.FAST;
-      if (rand < 0.45) return EnemyType.SWARM;
-      if (rand < 0.55) return EnemyType.TANK;
-      if (rand < 0.7) return EnemyType.ZIGZAG;
-      if (rand < 0.85) return EnemyType.SPRINTER;
-      return EnemyType.EXPLODER;
-    }
+    enemy.makeElite(affixes);
+  }
 
-    // Wave 8: + ghost
-    if (wave === 8) {
-      if (rand < 0.1) return EnemyType.BASIC;
-      if (rand < 0.2) return EnemyType.FAST;
-      if (rand < 0.35) return EnemyType.SWARM;
-      if (rand < 0.45) return EnemyType.TANK;
-      if (rand < 0.6) return EnemyType.ZIGZAG;
-      if (rand < 0.75) return EnemyType.SPRINTER;
-      if (rand < 0.87) return EnemyType.EXPLODER;
-      return EnemyType.GHOST;
+  /**
+   * Roll enemy type from a weighted pool
+   */
+  private getRandomEnemyType(pool: EnemyWeight[]): EnemyType {
+    return this.random.spawns.weighted(
+      pool.map((entry) => entry.type),
+      pool.map((entry) => entry.weight),
+    );
+  }
+
+  // ============ Special Events ============
+
+  /**
+   * Announce a special event now - enemies follow after its warning time.
+   * Called by the wave schedule, or directly from the dev menu.
+   */
+  public triggerEvent(type: WaveEventType): void {
+    const config = WAVE_EVENTS[type];
+    const sides = this.pickEventSides(type);
+
+    this.pendingEvents.push({ type, sides, countdown: config.warningTime });
+    EventBus.emit('waveEventWarning', {
+      type,
+      warning: config.warning,
+      sides,
+      duration: config.warningTime,
+    });
+  }
+
+  private pickEventSides(type: WaveEventType): ScreenSide[] {
+    switch (type) {
+      case WaveEventType.HORDE:
+        return [this.random.spawns.int(0, 3) as ScreenSide];
+      case WaveEventType.PINCER:
+        return this.random.spawns.chance(0.5)
+          ? [ScreenSide.LEFT, ScreenSide.RIGHT]
+          : [ScreenSide.TOP, ScreenSide.BOTTOM];
+      case WaveEventType.ENCIRCLEMENT:
+        return [ScreenSide.TOP, ScreenSide.RIGHT, ScreenSide.BOTTOM, ScreenSide.LEFT];
     }
+  }
+
+  private spawnEvent(event: PendingWaveEvent, canvas: CanvasBounds): Enemy[] {
+    const config = WAVE_EVENTS[event.type];
+    const count = Math.floor(config.count + config.countPerWave * this.waveNumber);
+    const enemies: Enemy[] = [];
 
-    // Wave 9: + splitter
-    if (wave === 9) {
-      if (rand < 0.1) return EnemyType.BASIC;
-      if (rand < 0.2) return EnemyType.FAST;
-      if (rand < 0.35) return EnemyType.SWARM;
-      if (rand < 0.45) return EnemyType.TANK;
-      if (rand < 0.55) return EnemyType.ZIGZAG;
-      if (rand < 0.65) return EnemyType.SPRINTER;
-      if (rand < 0.75) return EnemyType.EXPLODER;
-      if (rand < 0.87) return EnemyType.GHOST;
-      return EnemyType.SPLITTER;
+    switch (event.type) {
+      case WaveEventType.HORDE: {
+        // One type for the whole burst
+        const type = this.getRandomEnemyType(config.enemies);
+        const side = event.sides[0]!;
+        for (let i = 0; i < count; i++) {
+          const spawn = this.random.spawns.spawnPointOnSide(canvas, side, EVENT_SPAWN_MARGIN);
+          enemies.push(this.spawnEnemy(type, spawn));
+        }
+        break;
+      }
+      case WaveEventType.PINCER: {
+        // Alternate between the two sides
+        for (let i = 0; i < count; i++) {
+          const side = event.sides[i % event.sides.length]!;
+          const spawn = this.random.spawns.spawnPointOnSide(canvas, side, EVENT_SPAWN_MARGIN);
+          enemies.push(this.spawnEnemy(this.getRandomEnemyType(config.enemies), spawn));
+        }
+        break;
+      }
+      case WaveEventType.ENCIRCLEMENT: {
+        // Evenly spaced ring projected onto a rectangle just outside the screen
+        const halfWidth = canvas.width / 2 + EVENT_SPAWN_MARGIN;
+        const halfHeight = canvas.height / 2 + EVENT_SPAWN_MARGIN;
+        const offset = this.random.spawns.angle();
+        for (let i = 0; i < count; i++) {
+          const angle = offset + (TWO_PI * i) / count;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          const scale = Math.min(halfWidth / Math.abs(cos), halfHeight / Math.abs(sin));
+          const spawn = {
+            x: canvas.width / 2 + cos * scale,
+            y: canvas.height / 2 + sin * scale,
+          };
+          enemies.push(this.spawnEnemy(this.getRandomEnemyType(config.enemies), spawn));
+        }
+        break;
+      }
     }
 
-    // Wave 10+: + brute (all types)
-    if (rand < 0.08) return EnemyType.BASIC;
-    if (rand < 0.16) return EnemyType.FAST;
-    if (rand < 0.3) return EnemyType.SWARM;
-    if (rand < 0.4) return EnemyType.TANK;
-    if (rand < 0.5) return EnemyType.ZIGZAG;
-    if (rand < 0.6) return EnemyType.SPRINTER;
-    if (rand < 0.72) return EnemyType.EXPLODER;
-    if (rand < 0.82) return EnemyType.GHOST;
-    if (rand < 0.92) return EnemyType.SPLITTER;
-    return EnemyType.BRUTE;
+    return enemies;
+  }
+
+  // ============ Hazards ============
+
+  /**
+   * Spawn a hazard with the next update, outside the schedule (dev menu)
+   */
+  public triggerHazard(type: HazardType, canvas: CanvasBounds): void {
+    this.pendingHazards.push(this.rollHazard(type, canvas));
   }
 
   /**
-   * Check if boss should spawn
+   * Seconds between hazards on the current wave
    */
-  private shouldSpawnBoss(): boolean {
-    return this.waveNumber % 3 === 0 && !this.bossSpawned && this.timeRemaining < 20;
+  private getHazardInterval(): number {
+    const { startWave, interval, intervalPerWave, minInterval } = this.waveSet.hazards;
+    const wavesIn = Math.max(0, this.waveNumber - startWave);
+    return Math.max(minInterval, interval - wavesIn * intervalPerWave);
+  }
+
+  private getRandomHazardType(): HazardType {
+    const { pool } = this.waveSet.hazards;
+    return this.random.spawns.weighted(
+      pool.map((entry) => entry.type),
+      pool.map((entry) => entry.weight),
+    );
   }
 
   /**
-   * Get boss type based on wave number
+   * Place a hazard and scale its damage like enemy stats.
+   * Meteors drop next to the player, pools open clear of the player and of obstacles.
    */
-  private getBossType(): EnemyType {
-    const bossWave = Math.floor(this.waveNumber / 3); // 1, 2, 3, 4...
-
-    // TODO remove, after splicing enemies from bosses
-    const bossTypes: EnemyType[] = [
-      EnemyType.BOSS, // Wave 3 - basic
-      EnemyType.BOSS_SWARM, // Wave 6 - splits into swarms
-      EnemyType.BOSS_TANK, // Wave 9 - huge tank
-      EnemyType.BOSS_SPEED, // Wave 12 - fast zigzag
-      EnemyType.BOSS_EXPLODER, // Wave 15 - explodes on death
-      EnemyType.BOSS_GHOST, // Wave 18 - semi-transparent
-    ];
-
-    // Cyclically select boss, but each next one has +50% HP
-    const bossIndex = (bossWave - 1) % bossTypes.length;
-    return bossTypes[bossIndex]!; // Safe: modulo guarantees valid index
+  private rollHazard(type: HazardType, canvas: CanvasBounds): HazardSpawn {
+    const config = HAZARDS[type];
+    const player = this.entityManager.getPlayer().position;
+
+    let position: Vector2;
+    if (type === HazardType.METEOR) {
+      position = this.random.spawns.pointInCircle(player, METEOR_SCATTER);
+    } else {
+      const clearance = config.radius + HAZARD_PLAYER_CLEARANCE;
+      position = { x: canvas.width / 2, y: canvas.height / 2 };
+      for (let i = 0; i < HAZARD_PLACEMENT_TRIES; i++) {
+        position = {
+          x: this.random.spawns.range(config.radius, canvas.width - config.radius),
+          y: this.random.spawns.range(config.radius, canvas.height - config.radius),
+        };
+        const farFromPlayer = distance(position, player) > clearance;
+        if (farFromPlayer && !this.obstacleSystem.isBlocked(position, config.radius / 2)) break;
+      }
+    }
+
+    const { enemy: scaling } = this.waveSet.scaling;
+    const multiplier =
+      this.waveNumber >= scaling.startWave
+        ? Math.pow(scaling.factor, this.waveNumber - scaling.startWave)
+        : 1;
+
+    return {
+      type,
+      position,
+      damage: Math.round(config.damage * multiplier),
+      enemyDamageMultiplier: this.waveSet.hazards.enemyDamageMultiplier,
+    };
+  }
+
+  private clearEvents(): void {
+    this.announcedEvents.clear();
+    this.pendingEvents = [];
+    this.hazardTimer = this.getHazardInterval();
+    this.pendingHazards = [];
   }
 }
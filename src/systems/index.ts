@@ -6,7 +6,11 @@ export * from './GamepadHandler';
 export * from './HUD';
 export * from './InputHandler';
 export * from './InputSystem';
+export * from './MergeSystem';
+export * from './ObstacleSystem';
 export * from './PickupSpawnSystem';
+export * from './ReplaySystem';
 export * from './RenderSystem';
 export * from './RewardSystem';
+export * from './SaveSystem';
 export * from './WaveManager';
@@ -109,3 +109,10 @@ export interface ICollectible {
   value: number;
   collect(): number;
 }
+
+/**
+ * Can be reinitialized for reuse from an object pool
+ */
+export interface IPoolable<TConfig> {
+  reset(config: TConfig): void;
+}
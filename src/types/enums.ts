@@ -16,12 +16,30 @@ export enum ProjectileType {
   NUKE = 'nuke',
   FLAMETHROWER = 'flamethrower',
   ENEMY_BULLET = 'enemyBullet',
+  ENEMY_SINE_BULLET = 'enemySineBullet',
+  ENEMY_MISSILE = 'enemyMissile',
+  ENEMY_GRENADE = 'enemyGrenade',
+  ENEMY_ORB = 'enemyOrb',
 }
 
 export enum DeployableType {
   MINE = 'mine',
   TURRET = 'turret',
   TRAP = 'trap',
+  LURE = 'lure',
+}
+
+// ============ DAMAGE TYPES ============
+
+/**
+ * What a hit is made of - enemies resist or are weak to some types (see ENEMY_TYPES)
+ */
+export enum DamageType {
+  PHYSICAL = 'physical',
+  EXPLOSIVE = 'explosive',
+  FIRE = 'fire',
+  HOLY = 'holy',
+  POISON = 'poison',
 }
 
 // ============ VISUAL EFFECTS ============
@@ -35,6 +53,8 @@ export enum VisualEffect {
   HOLY = 'holy',
   FIRE = 'fire',
   BANANA = 'banana',
+  /** Enemy healer pulse (no damage) */
+  HEAL = 'heal',
 }
 
 // ============ GAME STATE ============
@@ -64,6 +84,11 @@ export enum EnemyType {
   EXPLODER = 'exploder',
   ZIGZAG = 'zigzag',
   SPLITTER = 'splitter',
+  KITER = 'kiter',
+  CHARGER = 'charger',
+  FLANKER = 'flanker',
+  HEALER = 'healer',
+  SUMMONER = 'summoner',
   // Bosses
   BOSS = 'boss',
   BOSS_SWARM = 'bossSwarm',
@@ -88,3 +113,33 @@ export enum CharacterType {
   CWANIAK = 'cwaniak',
   NORMIK = 'normik',
 }
+
+// ============ WAVE EVENTS ============
+
+/**
+ * Special spawn events scheduled inside regular waves
+ */
+export enum WaveEventType {
+  /** Burst of a single enemy type from one side */
+  HORDE = 'horde',
+  /** Two groups from opposite sides */
+  PINCER = 'pincer',
+  /** Ring closing in from every side */
+  ENCIRCLEMENT = 'encirclement',
+}
+
+// ============ HAZARDS ============
+
+/**
+ * Environmental hazards appearing during waves - they hurt enemies as well as the player
+ */
+export enum HazardType {
+  /** Burning pool */
+  LAVA = 'lava',
+  /** Poisonous pool */
+  ACID = 'acid',
+  /** Field that pulses every few seconds */
+  ELECTRIC = 'electric',
+  /** Single strike after a ground telegraph */
+  METEOR = 'meteor',
+}
@@ -1,13 +1,16 @@
 import { DevMenu } from '@/debug/DevMenu';
+import { ArenaType } from '@/domain/arena';
 import { WeaponType } from '@/domain/weapons/type';
 import { EventBus } from '@/events/EventBus';
 import { CharacterType, GameState } from '@/types/enums';
 import { JSX } from 'preact';
 import { useEffect, useState } from 'preact/hooks';
 import toast, { Toaster } from 'react-hot-toast';
+import { BossBars } from './components/BossBars';
 import { HUD } from './components/HUD';
 import { Menu } from './components/Menu';
 import { Shop } from './components/Shop';
+import { WaveEventBanner } from './components/WaveEventBanner';
 import { useGameState } from './hooks/useGameState';
 
 /**
@@ -61,7 +64,12 @@ export function App(): JSX.Element {
   // Game over stats
   const [finalWave, setFinalWave] = useState(1);
   const [finalXp, setFinalXp] = useState(0);
+  const [finalSeed, setFinalSeed] = useState<number | undefined>(undefined);
   const [character, setCharacter] = useState<CharacterType>(CharacterType.NORMIK);
+  const [arena, setArena] = useState<ArenaType>(ArenaType.CLASSIC);
+
+  // Replay playback in progress
+  const [isReplaying, setIsReplaying] = useState(false);
 
   // Listen to events that update player state
   useEffect(() => {
@@ -87,12 +95,21 @@ export function App(): JSX.Element {
       EventBus.on('waveStart', ({ waveNumber: wave }) => {
         setWaveNumber(wave);
       }),
-      EventBus.on('gameOver', ({ wave, score }) => {
+      EventBus.on('gameOver', ({ wave, score, seed }) => {
         setFinalWave(wave);
         setFinalXp(score);
+        setFinalSeed(seed);
+      }),
+      EventBus.on('characterSelected', ({ characterType, arena: selectedArena }) => {
+        setCharacter(characterType);
+        setArena(selectedArena);
       }),
-      EventBus.on('characterSelected', ({ characterType }) => {
+      EventBus.on('runRestored', ({ characterType, arena: restoredArena }) => {
         setCharacter(characterType);
+        setArena(restoredArena);
+      }),
+      EventBus.on('replayModeChanged', ({ mode }) => {
+        setIsReplaying(mode === 'playback');
       }),
       // Shop opened - receive player state for shop
       EventBus.on('shopOpened', ({ waveNumber: wave, playerState: state }) => {
@@ -147,8 +164,23 @@ export function App(): JSX.Element {
         timeRemaining={timeRemaining}
         isWaveActive={isWaveActive}
       />
-      <Shop visible={showShop} playerState={playerState} waveNumber={waveNumber} />
-      <Menu gameState={gameState} finalWave={finalWave} finalXp={finalXp} character={character} />
+      <Shop
+        visible={showShop}
+        locked={isReplaying}
+        playerState={playerState}
+        waveNumber={waveNumber}
+      />
+      {isReplaying && showHUD && <div id="replay-indicator">▶ POWTÓRKA</div>}
+      {showHUD && <BossBars />}
+      {showHUD && <WaveEventBanner />}
+      <Menu
+        gameState={gameState}
+        finalWave={finalWave}
+        finalXp={finalXp}
+        finalSeed={finalSeed}
+        character={character}
+        arena={arena}
+      />
       {import.meta.env.DEV && <DevMenu />}
     </>
   );
@@ -3,6 +3,7 @@
  * Matches original js/leaderboard.js exactly.
  */
 
+import { ARENAS, ArenaType } from '@/domain/arena';
 import { CharacterType } from '@/types/enums';
 
 // ============ Types ============
@@ -12,6 +13,8 @@ export interface LeaderboardEntry {
   wave: number;
   xp: number;
   character: CharacterType;
+  /** Missing in entries saved before arenas were selectable (classic arena) */
+  arena?: ArenaType;
   date: string;
 }
 
@@ -176,12 +179,14 @@ export class Leaderboard {
     wave: number,
     xp: number,
     character: CharacterType,
+    arena: ArenaType,
   ): Promise<LeaderboardEntry[]> {
     const entry: LeaderboardEntry = {
       name: playerName.substring(0, 20), // Limit name length
       wave: wave,
       xp: xp,
       character: character,
+      arena: arena,
       date: new Date().toISOString(),
     };
 
@@ -253,12 +258,13 @@ export class Leaderboard {
           index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
         const isHighlighted = highlightName && score.name === highlightName;
         const charEmoji = this.getCharacterEmoji(score.character);
+        const arenaEmoji = ARENAS[score.arena ?? ArenaType.CLASSIC].emoji;
 
         return `
                 <li class="${isHighlighted ? 'highlighted' : ''}">
                     <span class="rank">${medal}</span>
                     <span class="name">${charEmoji} ${this.escapeHtml(score.name)}</span>
-                    <span class="score">Fala ${score.wave} | ${score.xp} XP</span>
+                    <span class="score">${arenaEmoji} Fala ${score.wave} | ${score.xp} XP</span>
                 </li>
             `;
       })
@@ -3,6 +3,7 @@
  * Matches original js/systems/leaderboard-ui.js exactly.
  */
 
+import { ArenaType } from '@/domain/arena';
 import { CharacterType } from '@/types/enums';
 import { Leaderboard } from './Leaderboard';
 
@@ -74,6 +75,7 @@ export class LeaderboardUI {
     wave: number,
     xp: number,
     character: CharacterType | null,
+    arena: ArenaType | null,
   ): Promise<void> {
     const nameInput = document.getElementById('player-name') as HTMLInputElement;
     const submitBtn = document.getElementById('submit-score-btn') as HTMLButtonElement;
@@ -92,7 +94,13 @@ export class LeaderboardUI {
     submitBtn.textContent = '⏳ Saving...';
 
     try {
-      await this.leaderboard.submitScore(name, wave, xp, character ?? CharacterType.NORMIK);
+      await this.leaderboard.submitScore(
+        name,
+        wave,
+        xp,
+        character ?? CharacterType.NORMIK,
+        arena ?? ArenaType.CLASSIC,
+      );
 
       // Hide submit form, show leaderboard
       const scoreSubmit = document.getElementById('score-submit');
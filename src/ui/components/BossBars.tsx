@@ -0,0 +1,126 @@
+import { Boss, BossType } from '@/domain/enemies';
+import { EventBus } from '@/events/EventBus';
+import { EnemyType } from '@/types/enums';
+import { JSX } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+
+const BOSS_EMOJIS: Record<BossType, string> = {
+  [EnemyType.BOSS]: '👹',
+  [EnemyType.BOSS_SWARM]: '🐝',
+  [EnemyType.BOSS_TANK]: '🛡️',
+  [EnemyType.BOSS_SPEED]: '⚡',
+  [EnemyType.BOSS_EXPLODER]: '💥',
+  [EnemyType.BOSS_GHOST]: '👻',
+};
+
+interface BossBar {
+  id: number;
+  name: string;
+  emoji: string;
+  /** HP fractions where later phases start */
+  thresholds: number[];
+  hp: number;
+  maxHp: number;
+  phase: number;
+  enraged: boolean;
+  enrageIn: number | null;
+}
+
+function createBar(boss: Boss): BossBar {
+  return {
+    id: boss.id,
+    name: boss.bossName ?? 'BOSS',
+    emoji: BOSS_EMOJIS[boss.type as BossType],
+    thresholds: boss.getPhaseThresholds(),
+    hp: boss.hp,
+    maxHp: boss.maxHp,
+    phase: boss.getPhaseIndex(),
+    enraged: boss.isEnraged(),
+    enrageIn: boss.getEnrageTimeLeft(),
+  };
+}
+
+function getFillClass(hpPercent: number): string {
+  if (hpPercent > 50) return 'boss-bar-fill';
+  if (hpPercent > 25) return 'boss-bar-fill boss-bar-fill-mid';
+  return 'boss-bar-fill boss-bar-fill-low';
+}
+
+/**
+ * Boss health bars at the top of the screen, one per boss alive (stacked).
+ * A lagging chunk layer shows the damage just dealt.
+ */
+export function BossBars(): JSX.Element | null {
+  const [bars, setBars] = useState<BossBar[]>([]);
+
+  useEffect(() => {
+    const subs = [
+      EventBus.on('bossSpawned', ({ enemy }) => {
+        if (!(enemy instanceof Boss)) return;
+        setBars((prev) => [...prev.filter((bar) => bar.id !== enemy.id), createBar(enemy)]);
+      }),
+      EventBus.on('bossDefeated', ({ enemy }) => {
+        setBars((prev) => prev.filter((bar) => bar.id !== enemy.id));
+      }),
+      // Bosses missing from the update are gone (wave over, run restarted)
+      EventBus.on('bossHealthUpdate', ({ bosses }) => {
+        setBars((prev) => {
+          // Keep the same array so Preact skips the re-render (updates arrive every frame)
+          if (prev.length === 0) return prev;
+          return prev.flatMap((bar) => {
+            const boss = bosses.find((b) => b.id === bar.id);
+            return boss ? [{ ...bar, ...boss }] : [];
+          });
+        });
+      }),
+      EventBus.on('waveCleared', () => {
+        setBars([]);
+      }),
+    ];
+
+    return (): void => {
+      subs.forEach((s) => {
+        s.unsubscribe();
+      });
+    };
+  }, []);
+
+  if (bars.length === 0) return null;
+
+  return (
+    <div id="boss-bars">
+      {bars.map((bar) => {
+        const hpPercent = Math.max(0, (bar.hp / bar.maxHp) * 100);
+
+        return (
+          <div key={bar.id} class={bar.enraged ? 'boss-bar boss-bar-enraged' : 'boss-bar'}>
+            <div class="boss-bar-header">
+              <span class="boss-bar-name">
+                {bar.emoji} {bar.name}
+              </span>
+              {bar.enraged ? (
+                <span class="boss-bar-enrage">😡 FURIA!</span>
+              ) : (
+                bar.enrageIn !== null && (
+                  <span class="boss-bar-enrage">😡 Furia za {Math.ceil(bar.enrageIn)}s</span>
+                )
+              )}
+            </div>
+            <div class="boss-bar-track">
+              <div class="boss-bar-chunk" style={{ width: `${hpPercent}%` }} />
+              <div class={getFillClass(hpPercent)} style={{ width: `${hpPercent}%` }} />
+              {bar.thresholds.map((threshold, i) => (
+                <div
+                  key={threshold}
+                  class={i < bar.phase ? 'boss-bar-tick boss-bar-tick-passed' : 'boss-bar-tick'}
+                  style={{ left: `${threshold * 100}%` }}
+                />
+              ))}
+              <span class="boss-bar-percent">{Math.ceil(hpPercent)}%</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
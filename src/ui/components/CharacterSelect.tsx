@@ -1,9 +1,21 @@
 import { JSX } from 'preact';
+import { useState } from 'preact/hooks';
 import { EventBus } from '@/events/EventBus';
 import { CharacterType } from '@/types/enums';
 import { CHARACTER_TYPES, CharacterConfig } from '@/config/characters.config';
+import { ARENAS, ArenaType } from '@/domain/arena';
 import { WEAPON_TYPES } from '@/domain/weapons/config';
 
+const ARENA_STORAGE_KEY = 'circle_survivor_arena';
+
+/**
+ * Arena picked last time (classic when none or unknown)
+ */
+function loadArena(): ArenaType {
+  const stored = localStorage.getItem(ARENA_STORAGE_KEY) as ArenaType | null;
+  return stored && stored in ARENAS ? stored : ArenaType.CLASSIC;
+}
+
 function getSpecialStat(charType: CharacterType, config: CharacterConfig): JSX.Element {
   const baseSpeed = 4;
   const speedDiff = Math.round((config.speed / baseSpeed - 1) * 100);
@@ -46,36 +58,61 @@ function getSpecialStat(charType: CharacterType, config: CharacterConfig): JSX.E
 }
 
 export function CharacterSelect(): JSX.Element {
+  const [arena, setArena] = useState<ArenaType>(loadArena);
+
   const handleSelect = (type: CharacterType): void => {
-    EventBus.emit('characterSelected', { characterType: type });
+    EventBus.emit('characterSelected', { characterType: type, arena });
   };
 
-  return (
-    <div id="character-select">
-      {Object.entries(CHARACTER_TYPES).map(([type, config]) => {
-        const charType = type as CharacterType;
+  const handleArenaSelect = (type: ArenaType): void => {
+    setArena(type);
+    localStorage.setItem(ARENA_STORAGE_KEY, type);
+  };
 
-        return (
-          <div
+  return (
+    <>
+      <div id="arena-select">
+        {Object.values(ArenaType).map((type) => (
+          <button
             key={type}
-            class="character-card"
-            data-character={type}
+            class={type === arena ? 'arena-option selected' : 'arena-option'}
             onClick={(): void => {
-              handleSelect(charType);
+              handleArenaSelect(type);
             }}
           >
-            <div class="character-icon">{config.emoji}</div>
-            <h3>{config.name}</h3>
-            <p class="character-desc">{config.description}</p>
-            <ul class="character-stats">
-              <li>❤️ HP: {config.maxHp}</li>
-              {getSpecialStat(charType, config)}
-              <li>🔫 Broń: {getWeaponName(config.startingWeapon)}</li>
-            </ul>
-          </div>
-        );
-      })}
-    </div>
+            {ARENAS[type].emoji} {ARENAS[type].name}
+          </button>
+        ))}
+      </div>
+      <p class="arena-desc">
+        {ARENAS[arena].description} ({ARENAS[arena].width}×{ARENAS[arena].height})
+      </p>
+      <div id="character-select">
+        {Object.entries(CHARACTER_TYPES).map(([type, config]) => {
+          const charType = type as CharacterType;
+
+          return (
+            <div
+              key={type}
+              class="character-card"
+              data-character={type}
+              onClick={(): void => {
+                handleSelect(charType);
+              }}
+            >
+              <div class="character-icon">{config.emoji}</div>
+              <h3>{config.name}</h3>
+              <p class="character-desc">{config.description}</p>
+              <ul class="character-stats">
+                <li>❤️ HP: {config.maxHp}</li>
+                {getSpecialStat(charType, config)}
+                <li>🔫 Broń: {getWeaponName(config.startingWeapon)}</li>
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </>
   );
 }
 
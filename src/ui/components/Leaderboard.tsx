@@ -1,4 +1,5 @@
 import { CHARACTER_TYPES } from '@/config/characters.config';
+import { ARENAS, ArenaType } from '@/domain/arena';
 import { CharacterType } from '@/types/enums';
 import { JSX } from 'preact';
 import { useEffect, useState } from 'preact/hooks';
@@ -9,6 +10,7 @@ interface LeaderboardProps {
   finalWave?: number;
   finalXp?: number;
   character?: CharacterType;
+  arena?: ArenaType;
 }
 
 interface LeaderboardEntry {
@@ -16,6 +18,7 @@ interface LeaderboardEntry {
   wave: number;
   xp: number;
   character?: CharacterType;
+  arena?: ArenaType;
 }
 
 // Shared leaderboard service instance
@@ -34,11 +37,19 @@ function getCharacterEmoji(character?: CharacterType): string {
   return config.emoji;
 }
 
+/**
+ * Entries saved before arenas were selectable were played on the classic one
+ */
+function getArenaEmoji(arena?: ArenaType): string {
+  return ARENAS[arena ?? ArenaType.CLASSIC].emoji;
+}
+
 export function LeaderboardComponent({
   mode,
   finalWave,
   finalXp,
   character,
+  arena,
 }: LeaderboardProps): JSX.Element {
   const [activeTab, setActiveTab] = useState<'local' | 'global'>('local');
   const [scores, setScores] = useState<LeaderboardEntry[]>([]);
@@ -76,6 +87,7 @@ export function LeaderboardComponent({
         finalWave,
         finalXp,
         character ?? CharacterType.NORMIK,
+        arena ?? ArenaType.CLASSIC,
       );
       localStorage.setItem('circle_survivor_player_name', playerName.trim());
       setHasSubmitted(true);
@@ -157,7 +169,7 @@ export function LeaderboardComponent({
                     {getCharacterEmoji(score.character)} {score.name}
                   </span>
                   <span class="score">
-                    Fala {score.wave} | {score.xp} XP
+                    {getArenaEmoji(score.arena)} Fala {score.wave} | {score.xp} XP
                   </span>
                 </li>
               ))
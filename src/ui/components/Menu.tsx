@@ -1,22 +1,44 @@
+import { CHARACTER_TYPES } from '@/config/characters.config';
+import { ARENAS, ArenaType } from '@/domain/arena';
 import { EventBus } from '@/events/EventBus';
+import { SaveSystem } from '@/systems/SaveSystem';
 import { CharacterType, GameState } from '@/types/enums';
 import { GAME_VERSION } from '@/version';
 import { JSX } from 'preact';
-import { useEffect, useState } from 'preact/hooks';
+import { useEffect, useMemo, useState } from 'preact/hooks';
+import { container } from 'tsyringe';
 import { CharacterSelect } from './CharacterSelect';
 import { LeaderboardComponent } from './Leaderboard';
+import { ReplayControls } from './ReplayControls';
+
+const saveSystem = container.resolve(SaveSystem);
 
 interface MenuProps {
   gameState: GameState;
   finalWave?: number;
   finalXp?: number;
+  finalSeed?: number;
   character?: CharacterType;
+  arena?: ArenaType;
 }
 
-export function Menu({ gameState, finalWave, finalXp, character }: MenuProps): JSX.Element | null {
+export function Menu({
+  gameState,
+  finalWave,
+  finalXp,
+  finalSeed,
+  character,
+  arena,
+}: MenuProps): JSX.Element | null {
   const [showMenuLeaderboard, setShowMenuLeaderboard] = useState(false);
   const [audioEnabled, setAudioEnabled] = useState(true);
 
+  // Read once per visit to the menu - the save changes only between runs
+  const savedRun = useMemo(
+    () => (gameState === GameState.MENU ? saveSystem.load() : null),
+    [gameState],
+  );
+
   useEffect(() => {
     const sub = EventBus.on('audioStateChanged', ({ enabled }) => {
       setAudioEnabled(enabled);
@@ -38,6 +60,9 @@ export function Menu({ gameState, finalWave, finalXp, character }: MenuProps): J
   const handleToggleAudio = (): void => {
     EventBus.emit('audioToggleRequested', undefined);
   };
+  const handleContinue = (): void => {
+    EventBus.emit('continueRequested', undefined);
+  };
 
   // Start Screen
   if (gameState === GameState.MENU) {
@@ -77,6 +102,12 @@ export function Menu({ gameState, finalWave, finalXp, character }: MenuProps): J
           - Artur Petrzak 2025
         </div>
         <h1>🎮 CIRCLE SURVIVOR</h1>
+        {savedRun && (
+          <button id="continue-btn" onClick={handleContinue}>
+            ▶ Kontynuuj - {CHARACTER_TYPES[savedRun.character].name}, {ARENAS[savedRun.arena].name},
+            fala {savedRun.waveNumber}
+          </button>
+        )}
         <p>Wybierz swoją postać!</p>
         <CharacterSelect />
         <p class="controls">WASD - ruch | Auto-strzelanie | Kliknij postać aby wybrać</p>
@@ -88,6 +119,7 @@ export function Menu({ gameState, finalWave, finalXp, character }: MenuProps): J
         >
           🏆 TOP 10
         </button>
+        <ReplayControls mode="menu" />
       </div>
     );
   }
@@ -123,12 +155,19 @@ export function Menu({ gameState, finalWave, finalXp, character }: MenuProps): J
         <p>
           Zdobyte XP: <span id="final-xp">{finalXp ?? 0}</span>
         </p>
+        {finalSeed !== undefined && (
+          <p class="final-seed">
+            Ziarno: <span id="final-seed">{finalSeed}</span>
+          </p>
+        )}
         <LeaderboardComponent
           mode="gameOver"
           finalWave={finalWave}
           finalXp={finalXp}
           character={character}
+          arena={arena}
         />
+        <ReplayControls mode="gameOver" />
         <button id="restart-btn" onClick={handleRestart}>
           🔄 Zagraj ponownie
         </button>
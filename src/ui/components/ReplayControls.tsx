@@ -0,0 +1,91 @@
+import { EventBus } from '@/events/EventBus';
+import { parseReplay, ReplayData, ReplaySystem, serializeReplay } from '@/systems/ReplaySystem';
+import { JSX } from 'preact';
+import { useRef } from 'preact/hooks';
+import toast from 'react-hot-toast';
+import { container } from 'tsyringe';
+
+const replaySystem = container.resolve(ReplaySystem);
+
+interface ReplayControlsProps {
+  mode: 'gameOver' | 'menu';
+}
+
+function downloadReplay(replay: ReplayData): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `circle-survivor-${replay.seed}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ReplayControls({ mode }: ReplayControlsProps): JSX.Element | null {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: Event): Promise<void> => {
+    const input = event.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const replay = parseReplay(await file.text());
+      EventBus.emit('replayRequested', { replay });
+    } catch (error) {
+      console.error('Failed to load replay:', error);
+      toast('❌ Nieprawidłowy plik powtórki');
+    }
+  };
+
+  if (mode === 'menu') {
+    return (
+      <>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e): void => {
+            void handleFile(e);
+          }}
+        />
+        <button
+          class="replay-btn"
+          onClick={(): void => {
+            fileInput.current?.click();
+          }}
+        >
+          📂 Wczytaj powtórkę
+        </button>
+      </>
+    );
+  }
+
+  const replay = replaySystem.getLastReplay();
+  if (!replay) return null;
+
+  return (
+    <div class="replay-controls">
+      <button
+        class="replay-btn"
+        onClick={(): void => {
+          // Back to menu first - playback starts a fresh run from there
+          EventBus.emit('restartRequested', undefined);
+          EventBus.emit('replayRequested', { replay });
+        }}
+      >
+        ▶️ Obejrzyj powtórkę
+      </button>
+      <button
+        class="replay-btn"
+        onClick={(): void => {
+          downloadReplay(replay);
+        }}
+      >
+        💾 Pobierz powtórkę
+      </button>
+    </div>
+  );
+}
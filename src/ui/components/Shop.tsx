@@ -1,9 +1,9 @@
 import { GAME_BALANCE } from '@/config/balance.config';
 import { SHOP_ITEMS, ShopItem } from '@/config/shop.config';
+import { RandomService } from '@/core/RandomService';
 import { WeaponType } from '@/domain/weapons/type';
 import { EventBus } from '@/events/EventBus';
 import { Shop as ShopService } from '@/systems/Shop';
-import { shuffleArray } from '@/utils';
 import { JSX } from 'preact';
 import { useCallback, useEffect, useState } from 'preact/hooks';
 import { container } from 'tsyringe';
@@ -12,6 +12,8 @@ import { WeaponInventory } from './WeaponInventory';
 import { WeaponTooltip } from './WeaponTooltip';
 
 const shopService = container.resolve(ShopService);
+const shopRandom = container.resolve(RandomService).shop;
+const maxWeaponLevel = GAME_BALANCE.weapons.upgrade.maxLevel;
 
 type ShopTab = 'buy' | 'inventory';
 
@@ -24,11 +26,18 @@ interface PlayerState {
 
 interface ShopProps {
   visible: boolean;
+  /** Replay playback drives the shop - disable user interaction */
+  locked?: boolean;
   playerState: PlayerState;
   waveNumber: number;
 }
 
-export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Element | null {
+export function Shop({
+  visible,
+  locked = false,
+  playerState,
+  waveNumber,
+}: ShopProps): JSX.Element | null {
   const [availableItems, setAvailableItems] = useState<string[]>([]);
   const [soldItems, setSoldItems] = useState<Set<string>>(new Set());
   const [rerollCount, setRerollCount] = useState(0);
@@ -89,10 +98,10 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
         }
       });
 
-      shuffleArray(affordableWeapons);
-      shuffleArray(unaffordableWeapons);
-      shuffleArray(affordableItems);
-      shuffleArray(unaffordableItems);
+      shopRandom.shuffle(affordableWeapons);
+      shopRandom.shuffle(unaffordableWeapons);
+      shopRandom.shuffle(affordableItems);
+      shopRandom.shuffle(unaffordableItems);
 
       const newItems: string[] = [];
 
@@ -116,14 +125,14 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
       const extraWeapons = allWeapons.filter((w) => !usedWeapons.includes(w));
       const extraItems = allItems.filter((i) => !usedItems.includes(i));
       const extras = [...extraWeapons, ...extraItems];
-      shuffleArray(extras);
+      shopRandom.shuffle(extras);
 
       for (let i = 0; i < 2 && i < extras.length; i++) {
         const key = extras[i];
         if (key) newItems.push(key);
       }
 
-      shuffleArray(newItems);
+      shopRandom.shuffle(newItems);
       setAvailableItems(newItems);
     },
     [calculatePrice],
@@ -135,7 +144,6 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
       return;
     }
 
-    setSoldItems((prev) => new Set([...prev, itemKey]));
     EventBus.emit('itemPurchased', { itemId: itemKey, cost: price });
   };
 
@@ -145,12 +153,25 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
       EventBus.emit('shopError', undefined);
       return;
     }
-    setRerollCount((c) => c + 1);
-    setSoldItems(new Set());
-    setPendingReroll(true);
     EventBus.emit('itemPurchased', { itemId: 'reroll', cost: price });
   };
 
+  // Reflect purchases from any source (UI clicks or replay playback)
+  useEffect(() => {
+    const sub = EventBus.on('itemPurchased', ({ itemId }) => {
+      if (itemId === 'reroll') {
+        setRerollCount((c) => c + 1);
+        setSoldItems(new Set());
+        setPendingReroll(true);
+      } else {
+        setSoldItems((prev) => new Set([...prev, itemId]));
+      }
+    });
+    return (): void => {
+      sub.unsubscribe();
+    };
+  }, []);
+
   // Regenerate items after reroll when gold updates
   useEffect(() => {
     if (visible && shopInitialized && pendingReroll) {
@@ -184,7 +205,11 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
   }));
 
   return (
-    <div id="shop" onMouseMove={tooltip.handleMouseMove}>
+    <div
+      id="shop"
+      class={locked ? 'replay-locked' : undefined}
+      onMouseMove={tooltip.handleMouseMove}
+    >
       <h2>🛒 SKLEP</h2>
 
       {/* Tab Navigation */}
@@ -236,21 +261,25 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
               const currentPrice = calculatePrice(item.price);
               const canAfford = playerState.gold >= currentPrice;
 
-              let isWeaponLocked = false;
+              let lockInfo = '';
               let upgradeInfo = '';
 
               if (item.type === 'weapon') {
-                const hasThisWeapon = playerState.weapons.some((w) => w.type === item.weaponType);
+                const sameTypeWeapons = playerState.weapons.filter(
+                  (w) => w.type === item.weaponType,
+                );
                 if (playerState.weapons.length >= playerState.maxWeapons) {
-                  if (!hasThisWeapon) {
-                    isWeaponLocked = true;
+                  if (sameTypeWeapons.length === 0) {
+                    lockInfo = '🔒 Pełne sloty';
+                  } else if (sameTypeWeapons.every((w) => w.level >= maxWeaponLevel)) {
+                    lockInfo = '🔒 Maks. poziom';
                   } else {
                     upgradeInfo = '⬆️ Upgrade';
                   }
                 }
               }
 
-              const canBuy = canAfford && !isWeaponLocked;
+              const canBuy = canAfford && !lockInfo;
 
               return (
                 <ShopItemCard
@@ -258,7 +287,7 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
                   item={item}
                   price={currentPrice}
                   canBuy={canBuy}
-                  isLocked={isWeaponLocked}
+                  lockInfo={lockInfo}
                   upgradeInfo={upgradeInfo}
                   onBuy={(): void => {
                     handleBuy(itemKey, currentPrice);
@@ -268,7 +297,7 @@ export function Shop({ visible, playerState, waveNumber }: ShopProps): JSX.Eleme
                       // Only show upgraded level if this is actually an upgrade
                       // (player has max weapons AND already owns this weapon type)
                       const existingWeapon = playerState.weapons.find(
-                        (w) => w.type === item.weaponType,
+                        (w) => w.type === item.weaponType && w.level < maxWeaponLevel,
                       );
                       const isUpgrade =
                         playerState.weapons.length >= playerState.maxWeapons && existingWeapon;
@@ -304,7 +333,8 @@ interface ShopItemCardProps {
   item: ShopItem;
   price: number;
   canBuy: boolean;
-  isLocked: boolean;
+  /** Why the item can't be bought (empty = not locked) */
+  lockInfo: string;
   upgradeInfo: string;
   onBuy: () => void;
   onMouseEnter?: () => void;
@@ -315,7 +345,7 @@ function ShopItemCard({
   item,
   price,
   canBuy,
-  isLocked,
+  lockInfo,
   upgradeInfo,
   onBuy,
   onMouseEnter,
@@ -331,7 +361,7 @@ function ShopItemCard({
       <div style={{ fontSize: '24px' }}>{item.emoji}</div>
       <h3>{item.name}</h3>
       <p>{item.description}</p>
-      {isLocked && <div style={{ color: '#ff6b6b', fontSize: '10px' }}>🔒 Pełne sloty</div>}
+      {lockInfo && <div style={{ color: '#ff6b6b', fontSize: '10px' }}>{lockInfo}</div>}
       {upgradeInfo && <div style={{ color: '#4ecdc4', fontSize: '10px' }}>{upgradeInfo}</div>}
       <div class="price">💰 {price}</div>
     </div>
@@ -0,0 +1,51 @@
+import { EventBus } from '@/events/EventBus';
+import { ScreenSide } from '@/utils/random';
+import { JSX } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+
+/** Arrow pointing at the screen edge enemies come from */
+const SIDE_ARROWS: Record<ScreenSide, string> = {
+  [ScreenSide.TOP]: '⬆',
+  [ScreenSide.RIGHT]: '➡',
+  [ScreenSide.BOTTOM]: '⬇',
+  [ScreenSide.LEFT]: '⬅',
+};
+
+interface Warning {
+  text: string;
+  sides: ScreenSide[];
+}
+
+/**
+ * Flashing warning shown while a special wave event is incoming
+ */
+export function WaveEventBanner(): JSX.Element | null {
+  const [warning, setWarning] = useState<Warning | null>(null);
+
+  useEffect(() => {
+    let hideTimer: number | undefined;
+
+    const sub = EventBus.on('waveEventWarning', ({ warning: text, sides, duration }) => {
+      setWarning({ text, sides });
+      window.clearTimeout(hideTimer);
+      hideTimer = window.setTimeout(() => {
+        setWarning(null);
+      }, duration * 1000);
+    });
+
+    return (): void => {
+      sub.unsubscribe();
+      window.clearTimeout(hideTimer);
+    };
+  }, []);
+
+  if (!warning) return null;
+
+  const arrows = warning.sides.map((side) => SIDE_ARROWS[side]).join(' ');
+
+  return (
+    <div id="wave-event-warning">
+      ⚠️ {warning.text} <span className="wave-event-sides">{arrows}</span>
+    </div>
+  );
+}
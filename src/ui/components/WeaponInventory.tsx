@@ -2,7 +2,9 @@
  * WeaponInventory component - displays player's weapons with sell functionality
  */
 
+import { GAME_BALANCE } from '@/config/balance.config';
 import { SHOP_ITEMS, WeaponShopItem } from '@/config/shop.config';
+import { WEAPON_TYPES } from '@/domain/weapons/config';
 import { WeaponType } from '@/domain/weapons/type';
 import { JSX } from 'preact';
 import { useWeaponTooltip } from '../hooks/useWeaponTooltip';
@@ -22,14 +24,14 @@ interface WeaponInventoryProps {
 }
 
 /**
- * Get emoji for a weapon type from shop config
+ * Get emoji for a weapon type from shop config (evolved weapons aren't in the shop)
  */
 function getWeaponEmoji(weaponType: WeaponType): string {
   const shopItem = Object.values(SHOP_ITEMS).find(
     (item) => item.type === 'weapon' && item.weaponType === weaponType,
   ) as WeaponShopItem | undefined;
 
-  return shopItem?.emoji ?? '🔫';
+  return shopItem?.emoji ?? WEAPON_TYPES[weaponType].emoji;
 }
 
 export function WeaponInventory({
@@ -64,7 +66,10 @@ export function WeaponInventory({
           >
             <div class="weapon-emoji">{emoji}</div>
             <h4>{weapon.name}</h4>
-            <div class="level">Poziom {weapon.level}</div>
+            <div class="level">
+              Poziom {weapon.level}
+              {weapon.level >= GAME_BALANCE.weapons.upgrade.maxLevel && ' (MAX)'}
+            </div>
             <button
               class="sell-btn"
               onClick={(): void => {
@@ -3,8 +3,13 @@
  * Reusable for Shop and Inventory tabs
  */
 
+import { GAME_BALANCE } from '@/config/balance.config';
+import { DAMAGE_TYPES } from '@/config/damage.config';
+import { SHOP_ITEMS } from '@/config/shop.config';
+import { WEAPON_EVOLUTIONS, WEAPON_TYPES } from '@/domain/weapons/config';
 import { WeaponStatsCalculator } from '@/domain/weapons/WeaponStatsCalculator';
-import { WeaponConfig } from '@/domain/weapons/type';
+import { WeaponConfig, WeaponEvolution, WeaponType } from '@/domain/weapons/type';
+import { DamageType } from '@/types/enums';
 import { JSX } from 'preact';
 import { container } from 'tsyringe';
 import './WeaponTooltip.css';
@@ -15,14 +20,23 @@ const TOOLTIP_WIDTH = 200;
 const TOOLTIP_OFFSET = 15;
 
 interface WeaponTooltipProps {
-  weaponData: { config: WeaponConfig; level: number } | null;
+  weaponData: { type: WeaponType; config: WeaponConfig; level: number } | null;
   position: { x: number; y: number };
 }
 
+/**
+ * Catalyst of an evolution - a shop item to own or a weapon to fuse in
+ */
+function getCatalyst(evolution: WeaponEvolution): { emoji: string; name: string } | undefined {
+  if (evolution.catalystItem) return SHOP_ITEMS[evolution.catalystItem];
+  if (evolution.catalystWeapon) return WEAPON_TYPES[evolution.catalystWeapon];
+  return undefined;
+}
+
 export function WeaponTooltip({ weaponData, position }: WeaponTooltipProps): JSX.Element | null {
   if (!weaponData) return null;
 
-  const { config, level } = weaponData;
+  const { type, config, level } = weaponData;
   const stats = statsCalculator.calculate(config, level);
 
   // Edge detection - flip to left if would overflow right edge
@@ -35,6 +49,9 @@ export function WeaponTooltip({ weaponData, position }: WeaponTooltipProps): JSX
   const damageDisplay =
     stats.bulletCount > 1 ? `${stats.bulletCount} x ${stats.damage}` : `${stats.damage}`;
   const cooldownSeconds = parseFloat((stats.fireRate / 1000).toFixed(3));
+  const damageType = DAMAGE_TYPES[config.damageType ?? DamageType.PHYSICAL];
+  const evolution = WEAPON_EVOLUTIONS[type];
+  const catalyst = evolution && getCatalyst(evolution);
 
   return (
     <div class="weapon-tooltip" style={{ left: `${left}px`, top: `${top}px` }}>
@@ -46,6 +63,9 @@ export function WeaponTooltip({ weaponData, position }: WeaponTooltipProps): JSX
       {/* Always show: Damage, Cooldown, Range */}
       <div class="weapon-tooltip-stat">⚔️ Obrażenia: {damageDisplay}</div>
       <div class="weapon-tooltip-stat">🔄 Przeładowanie: {cooldownSeconds} s</div>
+      <div class="weapon-tooltip-stat">
+        {damageType.emoji} Typ obrażeń: {damageType.name}
+      </div>
       <div class="weapon-tooltip-stat">🔭 Zasięg: {config.range >= 9999 ? '∞' : config.range}</div>
 
       {/* Conditional: Pierce */}
@@ -61,6 +81,44 @@ export function WeaponTooltip({ weaponData, position }: WeaponTooltipProps): JSX
       {/* Special traits */}
       {config.shortRange && <div class="weapon-tooltip-stat">📍 Broń krótkiego zasięgu</div>}
       {config.deployableType && <div class="weapon-tooltip-stat">⚙️ Do rozmieszczenia</div>}
+      {config.turret && (
+        <div class="weapon-tooltip-stat">
+          🗼 Strzał co {config.turret.fireRate / 1000} s, działa {config.turret.lifetime} s
+        </div>
+      )}
+      {config.obstacleHit === 'reflect' && (
+        <div class="weapon-tooltip-stat">🔁 Odbija się od przeszkód</div>
+      )}
+      {config.obstacleHit === 'pass' && (
+        <div class="weapon-tooltip-stat">👻 Przenika przez przeszkody</div>
+      )}
+      {config.trap && (
+        <div class="weapon-tooltip-stat">
+          🪤 Unieruchamia w promieniu {config.trap.radius} (x{config.trap.charges})
+        </div>
+      )}
+      {config.lure && (
+        <div class="weapon-tooltip-stat">
+          🍖 Przyciąga wrogów z {config.lure.radius} px, ❤️{' '}
+          {Math.round(config.lure.maxHp * statsCalculator.getDamageMultiplier(level))}
+        </div>
+      )}
+      {config.ricochet && (
+        <div class="weapon-tooltip-stat">↪️ Rykoszet: x{config.ricochet.bounces}</div>
+      )}
+      {config.cluster && (
+        <div class="weapon-tooltip-stat">🧨 Rozrzuca {config.cluster.count} podmin</div>
+      )}
+
+      {/* Evolution recipe */}
+      {evolution && (
+        <div class="weapon-tooltip-evolution">
+          🧬 Ewolucja: {WEAPON_TYPES[evolution.result].emoji} {WEAPON_TYPES[evolution.result].name}
+          <br />
+          Poziom {GAME_BALANCE.weapons.upgrade.maxLevel}
+          {catalyst && ` + ${catalyst.emoji} ${catalyst.name}`}
+        </div>
+      )}
     </div>
   );
 }
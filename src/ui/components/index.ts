@@ -1,7 +1,10 @@
+export { BossBars } from './BossBars';
 export { CharacterSelect } from './CharacterSelect';
 export { HUD } from './HUD';
 export { LeaderboardComponent } from './Leaderboard';
 export { Menu } from './Menu';
+export { ReplayControls } from './ReplayControls';
 export { Shop } from './Shop';
+export { WaveEventBanner } from './WaveEventBanner';
 export { WeaponInventory } from './WeaponInventory';
 export { WeaponTooltip } from './WeaponTooltip';
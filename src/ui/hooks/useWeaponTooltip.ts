@@ -8,6 +8,7 @@ import { WeaponConfig, WeaponType } from '@/domain/weapons/type';
 import { useCallback, useState } from 'preact/hooks';
 
 interface WeaponTooltipData {
+  type: WeaponType;
   config: WeaponConfig;
   level: number;
 }
@@ -29,7 +30,7 @@ export function useWeaponTooltip(): UseWeaponTooltipReturn {
   }, []);
 
   const showTooltip = useCallback((weaponType: WeaponType, level: number = 1): void => {
-    setHoveredWeapon({ config: WEAPON_TYPES[weaponType], level });
+    setHoveredWeapon({ type: weaponType, config: WEAPON_TYPES[weaponType], level });
   }, []);
 
   const hideTooltip = useCallback((): void => {
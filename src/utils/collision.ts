@@ -152,3 +152,33 @@ export function circleOverlapDepth(a: Circle, b: Circle): number {
   const dist = distance(a, b);
   return a.radius + b.radius - dist;
 }
+
+/**
+ * Closest point to a point on line segment start-end
+ * @param point Point to project
+ * @param start Segment start
+ * @param end Segment end
+ * @returns Closest point on the segment
+ */
+export function closestPointOnSegment(point: Vector2, start: Vector2, end: Vector2): Vector2 {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return { x: start.x, y: start.y };
+
+  const t = clamp(((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq, 0, 1);
+  return { x: start.x + dx * t, y: start.y + dy * t };
+}
+
+/**
+ * Checks collision between line segment and circle
+ * For thick lines (beams) add half of the line width to the circle radius
+ * @param start Segment start
+ * @param end Segment end
+ * @param circle Circle (position + radius)
+ * @returns True if segment passes through circle
+ */
+export function segmentCircleCollision(start: Vector2, end: Vector2, circle: Circle): boolean {
+  const closest = closestPointOnSegment(circle, start, end);
+  return distanceSquared(closest, circle) < circle.radius * circle.radius;
+}
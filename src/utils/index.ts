@@ -30,11 +30,13 @@ export {
   circleInRect,
   circleOutsideRect,
   circleOverlapDepth,
+  closestPointOnSegment,
   entityCollision,
   pointInCircle,
   pointInRect,
   rectCircleCollision,
   rectCollision,
+  segmentCircleCollision,
   type Circle,
   type Rectangle,
 } from './collision';
@@ -43,8 +45,10 @@ export { getEnemyDisplayName } from './format';
 
 export {
   ScreenSide,
+  createSeededGenerator,
   getSpawnPoint,
   getSpawnPointOnSide,
+  hashString,
   randomAngle,
   randomChance,
   randomDirection,
@@ -59,4 +63,5 @@ export {
   shuffledCopy,
   weightedRandom,
   type CanvasBounds,
+  type RandomGenerator,
 } from './random';
@@ -5,66 +5,111 @@
 
 import { TWO_PI, Vector2 } from './math';
 
+/**
+ * Source of uniformly distributed floats in range [0, 1).
+ * Defaults to Math.random; seeded generators come from createSeededGenerator.
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Creates deterministic generator (mulberry32) from 32-bit seed
+ * @param seed Integer seed
+ * @returns Generator producing the same sequence for the same seed
+ */
+export function createSeededGenerator(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hashes string into 32-bit unsigned integer (FNV-1a)
+ * @param value String to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
  * Generates random float in range [min, max)
  * @param min Minimum value (inclusive)
  * @param max Maximum value (exclusive)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random float
  */
-export function randomRange(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function randomRange(min: number, max: number, rng: RandomGenerator = Math.random): number {
+  return rng() * (max - min) + min;
 }
 
 /**
  * Generates random integer in range [min, max] (inclusive)
  * @param min Minimum value (inclusive)
  * @param max Maximum value (inclusive)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random integer
  */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomInt(min: number, max: number, rng: RandomGenerator = Math.random): number {
+  return Math.floor(rng() * (max - min + 1)) + min;
 }
 
 /**
  * Returns true with given probability
  * @param chance Probability (0-1)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns True if random check succeeds
  */
-export function randomChance(chance: number): boolean {
-  return chance > 0 && Math.random() < chance;
+export function randomChance(chance: number, rng: RandomGenerator = Math.random): boolean {
+  return chance > 0 && rng() < chance;
 }
 
 /**
  * Picks random element from array
  * @param array Array to pick from
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random element or undefined if array is empty
  */
-export function randomElement<T>(array: readonly T[]): T | undefined {
+export function randomElement<T>(
+  array: readonly T[],
+  rng: RandomGenerator = Math.random,
+): T | undefined {
   if (array.length === 0) return undefined;
-  return array[randomInt(0, array.length - 1)];
+  return array[randomInt(0, array.length - 1, rng)];
 }
 
 /**
  * Picks random element from array (throws if empty)
  * @param array Array to pick from (must not be empty)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random element
  * @throws Error if array is empty
  */
-export function randomElementStrict<T>(array: readonly T[]): T {
+export function randomElementStrict<T>(array: readonly T[], rng: RandomGenerator = Math.random): T {
   if (array.length === 0) {
     throw new Error('Cannot pick random element from empty array');
   }
-  return array[randomInt(0, array.length - 1)] as T;
+  return array[randomInt(0, array.length - 1, rng)] as T;
 }
 
 /**
  * Shuffles array in place using Fisher-Yates algorithm
  * @param array Array to shuffle
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Same array, shuffled
  */
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[], rng: RandomGenerator = Math.random): T[] {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = randomInt(0, i);
+    const j = randomInt(0, i, rng);
     const temp = array[i] as T;
     array[i] = array[j] as T;
     array[j] = temp;
@@ -75,20 +120,26 @@ export function shuffleArray<T>(array: T[]): T[] {
 /**
  * Returns shuffled copy of array (original unchanged)
  * @param array Array to shuffle
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns New shuffled array
  */
-export function shuffledCopy<T>(array: readonly T[]): T[] {
-  return shuffleArray([...array]);
+export function shuffledCopy<T>(array: readonly T[], rng: RandomGenerator = Math.random): T[] {
+  return shuffleArray([...array], rng);
 }
 
 /**
  * Generates random point on circle edge
  * @param center Center of circle
  * @param radius Radius of circle
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random point on circle edge
  */
-export function randomPointOnCircle(center: Vector2, radius: number): Vector2 {
-  const angle = Math.random() * TWO_PI;
+export function randomPointOnCircle(
+  center: Vector2,
+  radius: number,
+  rng: RandomGenerator = Math.random,
+): Vector2 {
+  const angle = randomAngle(rng);
   return {
     x: center.x + Math.cos(angle) * radius,
     y: center.y + Math.sin(angle) * radius,
@@ -99,12 +150,17 @@ export function randomPointOnCircle(center: Vector2, radius: number): Vector2 {
  * Generates random point inside circle
  * @param center Center of circle
  * @param radius Radius of circle
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random point inside circle (uniform distribution)
  */
-export function randomPointInCircle(center: Vector2, radius: number): Vector2 {
+export function randomPointInCircle(
+  center: Vector2,
+  radius: number,
+  rng: RandomGenerator = Math.random,
+): Vector2 {
   // Use sqrt for uniform distribution
-  const r = radius * Math.sqrt(Math.random());
-  const angle = randomAngle();
+  const r = radius * Math.sqrt(rng());
+  const angle = randomAngle(rng);
   return {
     x: center.x + Math.cos(angle) * r,
     y: center.y + Math.sin(angle) * r,
@@ -113,18 +169,20 @@ export function randomPointInCircle(center: Vector2, radius: number): Vector2 {
 
 /**
  * Generates random angle in radians
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random angle [0, 2π)
  */
-export function randomAngle(): number {
-  return Math.random() * TWO_PI;
+export function randomAngle(rng: RandomGenerator = Math.random): number {
+  return rng() * TWO_PI;
 }
 
 /**
  * Generates random unit vector (length = 1)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random direction vector
  */
-export function randomDirection(): Vector2 {
-  const angle = randomAngle();
+export function randomDirection(rng: RandomGenerator = Math.random): Vector2 {
+  const angle = randomAngle(rng);
   return {
     x: Math.cos(angle),
     y: Math.sin(angle),
@@ -153,11 +211,16 @@ export enum ScreenSide {
  * Generates spawn point outside screen bounds
  * @param canvas Canvas dimensions
  * @param margin Distance outside screen to spawn
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Spawn position outside visible area
  */
-export function getSpawnPoint(canvas: CanvasBounds, margin: number = 50): Vector2 {
-  const side = randomInt(0, 3) as ScreenSide;
-  return getSpawnPointOnSide(canvas, side, margin);
+export function getSpawnPoint(
+  canvas: CanvasBounds,
+  margin: number = 50,
+  rng: RandomGenerator = Math.random,
+): Vector2 {
+  const side = randomInt(0, 3, rng) as ScreenSide;
+  return getSpawnPointOnSide(canvas, side, margin, rng);
 }
 
 /**
@@ -165,22 +228,24 @@ export function getSpawnPoint(canvas: CanvasBounds, margin: number = 50): Vector
  * @param canvas Canvas dimensions
  * @param side Which side to spawn on
  * @param margin Distance outside screen to spawn
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Spawn position on specified side
  */
 export function getSpawnPointOnSide(
   canvas: CanvasBounds,
   side: ScreenSide,
   margin: number = 50,
+  rng: RandomGenerator = Math.random,
 ): Vector2 {
   switch (side) {
     case ScreenSide.TOP:
-      return { x: randomInt(0, canvas.width), y: -margin };
+      return { x: randomInt(0, canvas.width, rng), y: -margin };
     case ScreenSide.RIGHT:
-      return { x: canvas.width + margin, y: randomInt(0, canvas.height) };
+      return { x: canvas.width + margin, y: randomInt(0, canvas.height, rng) };
     case ScreenSide.BOTTOM:
-      return { x: randomInt(0, canvas.width), y: canvas.height + margin };
+      return { x: randomInt(0, canvas.width, rng), y: canvas.height + margin };
     case ScreenSide.LEFT:
-      return { x: -margin, y: randomInt(0, canvas.height) };
+      return { x: -margin, y: randomInt(0, canvas.height, rng) };
   }
 }
 
@@ -189,12 +254,18 @@ export function getSpawnPointOnSide(
  * @param position Top-left position of rectangle
  * @param width Width of rectangle
  * @param height Height of rectangle
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Random point inside rectangle
  */
-export function randomPointInRect(position: Vector2, width: number, height: number): Vector2 {
+export function randomPointInRect(
+  position: Vector2,
+  width: number,
+  height: number,
+  rng: RandomGenerator = Math.random,
+): Vector2 {
   return {
-    x: randomInt(position.x, position.x + width),
-    y: randomInt(position.y, position.y + height),
+    x: randomInt(position.x, position.x + width, rng),
+    y: randomInt(position.y, position.y + height, rng),
   };
 }
 
@@ -202,9 +273,14 @@ export function randomPointInRect(position: Vector2, width: number, height: numb
  * Weighted random selection
  * @param items Items to choose from
  * @param weights Weight for each item (higher = more likely)
+ * @param rng Generator to draw from (defaults to Math.random)
  * @returns Selected item
  */
-export function weightedRandom<T>(items: readonly T[], weights: readonly number[]): T {
+export function weightedRandom<T>(
+  items: readonly T[],
+  weights: readonly number[],
+  rng: RandomGenerator = Math.random,
+): T {
   if (items.length !== weights.length) {
     throw new Error('Items and weights arrays must have same length');
   }
@@ -213,7 +289,7 @@ export function weightedRandom<T>(items: readonly T[], weights: readonly number[
   }
 
   const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-  let random = Math.random() * totalWeight;
+  let random = rng() * totalWeight;
 
   for (let i = 0; i < items.length; i++) {
     random -= weights[i]!;